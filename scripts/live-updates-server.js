@@ -0,0 +1,146 @@
+// Local stand-in for the backend's live-update stream (GET /api/v4/events) for development.
+// It emits claim and validation events about the bundled sample data:
+//
+//   npm run live-updates
+//   VITE_LIVE_UPDATES_URL=http://localhost:9100/api/v4/events npm run dev
+//
+// PORT and LIVE_UPDATES_INTERVAL_MS (time between events) can be set in the environment.
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+
+const PORT = Number(process.env.PORT) || 9100;
+const INTERVAL_MS = Number(process.env.LIVE_UPDATES_INTERVAL_MS) || 5000;
+const HEARTBEAT_MS = 15000;
+const REPLAY_LIMIT = 100;
+const EVENTS_PATH = '/api/v4/events';
+
+const { claims } = JSON.parse(readFileSync(new URL('../src/data/mockData.json', import.meta.url), 'utf8'));
+
+// The stand-in keeps its own copy so updated claims carry every validation it has already announced
+const ratedClaims = claims.filter(claim => claim.claim === 'rated');
+let nextClaimId = Math.max(...claims.map(claim => claim.id)) + 1;
+let nextEventNumber = 1;
+
+// Ids carry the start time so they never repeat across restarts (clients skip ids they have seen)
+const RUN_ID = Date.now().toString(36);
+
+// Recent events, replayed to clients that reconnect with a Last-Event-ID from this run
+const recentEvents = [];
+
+const clients = new Set();
+
+const REVIEWERS = [
+  { name: 'Priya Raman', role: 'Sustainability Analyst', organization: 'Green Ledger Research' },
+  { name: 'Tomás Ortega', role: 'Governance Auditor', organization: 'Civic Audit Collective' },
+  { name: 'Hannah Weiss', role: 'Climate Risk Lead', organization: 'Northwind Capital' },
+  { name: 'Kwame Mensah', role: 'Supply Chain Investigator', organization: 'Fair Sourcing Watch' },
+];
+
+const pick = list => list[Math.floor(Math.random() * list.length)];
+
+const clamp = (value, min, max) => Math.min(max, Math.max(min, value));
+
+const starsForScore = score => clamp(Math.round((score + 1) * 2.5), 0, 5);
+
+// A changed claim can no longer match its original signature, so the stand-in drops it
+const withoutProof = claim => {
+  const { proof: _proof, digestMultibase: _digest, ...rest } = claim;
+  return rest;
+};
+
+const validationAdded = () => {
+  const claim = pick(ratedClaims);
+  const reviewer = pick(REVIEWERS);
+  const rating = clamp((claim.stars ?? 3) + pick([-1, 0, 0, 1]), 1, 5);
+  const validator = {
+    ...reviewer,
+    rating,
+    statement: rating >= (claim.stars ?? 3)
+      ? 'Recent disclosures support this rating.'
+      : 'Recent disclosures suggest this rating is generous.',
+    verified: false,
+    createdAt: new Date().toISOString(),
+  };
+  claim.validators = [...(claim.validators ?? []), validator];
+  return ['validation-added', { claimId: claim.id, validator }];
+};
+
+const claimUpdated = () => {
+  const index = Math.floor(Math.random() * ratedClaims.length);
+  const claim = ratedClaims[index];
+  const score = Math.round(clamp(claim.score + pick([-0.06, -0.03, 0.03, 0.06]), -1, 1) * 1000) / 1000;
+  const updated = withoutProof({ ...claim, score, stars: starsForScore(score), lastUpdatedAt: new Date().toISOString() });
+  ratedClaims[index] = updated;
+  return ['claim-updated', updated];
+};
+
+const claimCreated = () => {
+  const template = pick(ratedClaims);
+  const score = Math.round(clamp(template.score + pick([-0.1, -0.05, 0.05, 0.1]), -1, 1) * 1000) / 1000;
+  const now = new Date().toISOString();
+  const created = withoutProof({
+    ...template,
+    id: nextClaimId++,
+    score,
+    stars: starsForScore(score),
+    statement: `Updated assessment of ${template.subject} from the latest reporting period.`,
+    effectiveDate: now,
+    dateObserved: now,
+    createdAt: now,
+    lastUpdatedAt: now,
+    validators: [],
+  });
+  ratedClaims.push(created);
+  return ['claim-created', created];
+};
+
+const nextEvent = () => {
+  const roll = Math.random();
+  if (roll < 0.6) return validationAdded();
+  if (roll < 0.9) return claimUpdated();
+  return claimCreated();
+};
+
+const broadcast = () => {
+  if (clients.size === 0) return;
+  const [type, data] = nextEvent();
+  const id = `${RUN_ID}-${nextEventNumber++}`;
+  const message = `id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+  recentEvents.push({ id, message });
+  if (recentEvents.length > REPLAY_LIMIT) recentEvents.shift();
+  clients.forEach(client => client.write(message));
+};
+
+const server = createServer((req, res) => {
+  const { pathname } = new URL(req.url ?? '/', `http://${req.headers.host}`);
+  if (req.method !== 'GET' || pathname !== EVENTS_PATH) {
+    res.writeHead(404, { 'Access-Control-Allow-Origin': '*' });
+    res.end();
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.write(`retry: 3000\n\n`);
+
+  // Resume after the last event the client saw; ids from an earlier run or too old to replay are skipped
+  const lastEventId = req.headers['last-event-id'];
+  const resumeFrom = recentEvents.findIndex(event => event.id === lastEventId);
+  if (resumeFrom !== -1) {
+    recentEvents.slice(resumeFrom + 1).forEach(event => res.write(event.message));
+  }
+  clients.add(res);
+  req.on('close', () => clients.delete(res));
+});
+
+setInterval(broadcast, INTERVAL_MS);
+// Comment lines keep idle connections from being closed by proxies
+setInterval(() => clients.forEach(client => client.write(': heartbeat\n\n')), HEARTBEAT_MS);
+
+server.listen(PORT, () => {
+  console.log(`Live-update stand-in streaming on http://localhost:${PORT}${EVENTS_PATH}`);
+});
@@ -1,6 +1,6 @@
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { Layout, ErrorBoundary } from './components';
-import { Dashboard, CompanyDetailsPage, CompaniesPage, ScanProductPage } from './pages';
+import { Dashboard, CompanyDetailsPage, CompaniesPage, ScanProductPage, CompanyComparisonPage, RateCompanyPage, LegacyCompanyRedirect, PortfoliosPage, CompanyReportPage, CompanyScenarioPage } from './pages';
 
 
 function App() {
@@ -12,7 +12,14 @@ function App() {
             <Route path="/" element={<Dashboard />} />
             <Route path="/companies" element={<CompaniesPage />} />
             <Route path="/scan" element={<ScanProductPage />} />
-            <Route path="/company/:id" element={<CompanyDetailsPage />} />
+            <Route path="/companies/:companyKey" element={<CompanyDetailsPage />} />
+            <Route path="/companies/:companyKey/report" element={<CompanyReportPage />} />
+            <Route path="/companies/:companyKey/scenario" element={<CompanyScenarioPage />} />
+            <Route path="/company/:id" element={<LegacyCompanyRedirect />} />
+            <Route path="/compare" element={<CompanyComparisonPage />} />
+            <Route path="/rate" element={<RateCompanyPage />} />
+            <Route path="/portfolios" element={<PortfoliosPage />} />
+            <Route path="/portfolios/:portfolioId" element={<PortfoliosPage />} />
           </Routes>
         </Layout>
       </Router>
@@ -0,0 +1,63 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Box, useMediaQuery } from '@mui/material';
+
+interface AnimatedNumberProps {
+  value: number;
+  format?: (value: number) => string;
+  duration?: number;            // milliseconds the count takes to reach a new value
+}
+
+const formatWhole = (value: number): string => Math.round(value).toString();
+
+// How long the up/down colour stays after the count settles
+const TREND_HIGHLIGHT_MS = 1500;
+
+// Counts from the previous value to the new one and briefly colours the change green or red
+const AnimatedNumber: React.FC<AnimatedNumberProps> = ({ value, format = formatWhole, duration = 800 }) => {
+  const reduceMotion = useMediaQuery('(prefers-reduced-motion: reduce)');
+  const [displayed, setDisplayed] = useState(value);
+  const [trend, setTrend] = useState<'up' | 'down' | null>(null);
+  const displayedRef = useRef(value);
+
+  useEffect(() => {
+    const from = displayedRef.current;
+    if (from === value) return;
+
+    setTrend(value > from ? 'up' : 'down');
+    const clearTrend = setTimeout(() => setTrend(null), (reduceMotion ? 0 : duration) + TREND_HIGHLIGHT_MS);
+
+    if (reduceMotion) {
+      displayedRef.current = value;
+      setDisplayed(value);
+      return () => clearTimeout(clearTrend);
+    }
+
+    const start = performance.now();
+    let frame = requestAnimationFrame(function step(now) {
+      const progress = Math.min(1, (now - start) / duration);
+      const eased = 1 - Math.pow(1 - progress, 3);
+      displayedRef.current = from + (value - from) * eased;
+      setDisplayed(displayedRef.current);
+      if (progress < 1) frame = requestAnimationFrame(step);
+    });
+
+    return () => {
+      cancelAnimationFrame(frame);
+      clearTimeout(clearTrend);
+    };
+  }, [value, duration, reduceMotion]);
+
+  return (
+    <Box
+      component="span"
+      sx={{
+        color: trend === 'up' ? 'success.main' : trend === 'down' ? 'error.main' : 'inherit',
+        transition: 'color 0.4s ease',
+      }}
+    >
+      {format(displayed)}
+    </Box>
+  );
+};
+
+export default AnimatedNumber;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { Button, Menu, MenuItem, ListItemText } from '@mui/material';
+import { FileDownload } from '@mui/icons-material';
+import { EXPORT_FORMAT_LABELS, type ExportFormat } from '../../services/tableExport';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  label?: string;
+  disabled?: boolean;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, label = 'Export', disabled = false }) => {
+  const [anchorEl, setAnchorEl] = React.useState<null | HTMLElement>(null);
+
+  const handleSelect = (format: ExportFormat) => {
+    setAnchorEl(null);
+    onExport(format);
+  };
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        startIcon={<FileDownload />}
+        onClick={(e) => setAnchorEl(e.currentTarget)}
+        disabled={disabled}
+        sx={{ textTransform: 'none' }}
+      >
+        {label}
+      </Button>
+      <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={() => setAnchorEl(null)}>
+        {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+          <MenuItem key={format} onClick={() => handleSelect(format)}>
+            <ListItemText>{EXPORT_FORMAT_LABELS[format]}</ListItemText>
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+};
+
+export default ExportMenu;
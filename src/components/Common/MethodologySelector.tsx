@@ -0,0 +1,34 @@
+import React from 'react';
+import { useMethodology } from '../../hooks';
+import { formatMethodologyLabel } from '../../services/methodology';
+import OptionSelector from './OptionSelector';
+
+interface MethodologySelectorProps {
+  size?: 'small' | 'medium';
+  minWidth?: number;
+}
+
+const MethodologySelector: React.FC<MethodologySelectorProps> = ({
+  size = 'small',
+  minWidth = 220,
+}) => {
+  const { profile, profiles, setProfile } = useMethodology();
+
+  const options = React.useMemo(
+    () => profiles.map(option => ({ id: option.id, label: formatMethodologyLabel(option), description: option.description })),
+    [profiles]
+  );
+
+  return (
+    <OptionSelector
+      label="Scoring Methodology"
+      value={profile.id}
+      options={options}
+      onChange={setProfile}
+      size={size}
+      minWidth={minWidth}
+    />
+  );
+};
+
+export default MethodologySelector;
@@ -0,0 +1,71 @@
+import React from 'react';
+import {
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Box,
+  Typography,
+} from '@mui/material';
+import type { SelectChangeEvent } from '@mui/material';
+
+export interface SelectorOption<T extends string = string> {
+  id: T;
+  label: string;
+  description?: string;
+}
+
+interface OptionSelectorProps<T extends string> {
+  label: string;
+  value: T;
+  options: SelectorOption<T>[];
+  onChange: (value: T) => void;
+  size?: 'small' | 'medium';
+  minWidth?: number;
+}
+
+// Select with a short label per option and its description underneath in the menu
+const OptionSelector = <T extends string>({
+  label,
+  value,
+  options,
+  onChange,
+  size = 'small',
+  minWidth = 220,
+}: OptionSelectorProps<T>) => {
+  const labelId = React.useId();
+
+  const handleChange = (event: SelectChangeEvent<T>) => {
+    onChange(event.target.value as T);
+  };
+
+  return (
+    <FormControl size={size} sx={{ minWidth }}>
+      <InputLabel id={labelId}>{label}</InputLabel>
+      <Select
+        labelId={labelId}
+        value={value}
+        label={label}
+        onChange={handleChange}
+        renderValue={selected => options.find(option => option.id === selected)?.label ?? selected}
+      >
+        {options.map(option => (
+          <MenuItem key={option.id} value={option.id}>
+            <Box>
+              <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                {option.label}
+              </Typography>
+              {option.description && (
+                <Typography variant="caption" color="text.secondary" sx={{ display: 'block', maxWidth: 320, whiteSpace: 'normal' }}>
+                  {option.description}
+                </Typography>
+              )}
+            </Box>
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+};
+
+export default OptionSelector;
@@ -0,0 +1,100 @@
+import React from 'react';
+import {
+  Accordion,
+  AccordionDetails,
+  AccordionSummary,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Typography,
+} from '@mui/material';
+import { ExpandMore } from '@mui/icons-material';
+import { useRejectionReport } from '../../hooks';
+
+interface RejectionReportDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const formatRecord = (record: unknown): string => {
+  try {
+    return JSON.stringify(record, null, 2) ?? String(record);
+  } catch {
+    return String(record);
+  }
+};
+
+const RejectionReportDialog: React.FC<RejectionReportDialogProps> = ({ open, onClose }) => {
+  const { rejections, clear } = useRejectionReport();
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle sx={{ fontWeight: 600 }}>Rejected Records</DialogTitle>
+      <DialogContent dividers>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          These records did not match the expected schema and are left out of every score and list.
+          Claims stay in when only one of their validators is malformed.
+        </Typography>
+
+        {rejections.length === 0 ? (
+          <Typography variant="body2">No records have been rejected this session.</Typography>
+        ) : (
+          rejections.map(rejection => (
+            <Accordion key={rejection.key} disableGutters variant="outlined">
+              <AccordionSummary expandIcon={<ExpandMore />}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, minWidth: 0, flexWrap: 'wrap' }}>
+                  <Chip label={rejection.entity} size="small" color="error" variant="outlined" />
+                  <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>
+                    {rejection.reference}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {rejection.source} · {rejection.rejectedAt.toLocaleTimeString('en-US')}
+                  </Typography>
+                </Box>
+              </AccordionSummary>
+              <AccordionDetails>
+                <Box component="ul" sx={{ m: 0, pl: 3, mb: 1.5 }}>
+                  {rejection.issues.map((issue, index) => (
+                    <li key={index}>
+                      <Typography variant="body2">
+                        <Box component="code" sx={{ fontFamily: 'monospace' }}>{issue.path}</Box> {issue.message}
+                      </Typography>
+                    </li>
+                  ))}
+                </Box>
+                <Box
+                  component="pre"
+                  sx={{
+                    m: 0,
+                    p: 1.5,
+                    maxHeight: 240,
+                    overflow: 'auto',
+                    bgcolor: 'grey.50',
+                    borderRadius: 1,
+                    fontSize: '0.75rem',
+                  }}
+                >
+                  {formatRecord(rejection.record)}
+                </Box>
+              </AccordionDetails>
+            </Accordion>
+          ))
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={clear} disabled={rejections.length === 0} sx={{ textTransform: 'none' }}>
+          Clear
+        </Button>
+        <Button onClick={onClose} variant="contained" sx={{ textTransform: 'none' }}>
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RejectionReportDialog;
@@ -4,3 +4,8 @@ export { default as ErrorMessage } from './ErrorMessage';
 export { default as GradeChip } from './GradeChip';
 export { default as NotificationSnackbar } from './NotificationSnackbar';
 export { default as ErrorBoundary } from './ErrorBoundary';
+export { default as MethodologySelector } from './MethodologySelector';
+export { default as ExportMenu } from './ExportMenu';
+export { default as OptionSelector, type SelectorOption } from './OptionSelector';
+export { default as RejectionReportDialog } from './RejectionReportDialog';
+export { default as AnimatedNumber } from './AnimatedNumber';
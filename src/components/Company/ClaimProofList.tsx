@@ -0,0 +1,94 @@
+import React from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Chip,
+  Divider,
+  Stack,
+  Tooltip,
+} from '@mui/material';
+import { Fingerprint } from '@mui/icons-material';
+import type { Claim } from '../../types';
+import { verifyClaims } from '../../services/claimVerification';
+import { transformUtils } from '../../services/utils';
+import ClaimVerificationBadge from './ClaimVerificationBadge';
+
+interface ClaimProofListProps {
+  claims: Claim[];
+}
+
+// Shorten long DIDs, keys and addresses for display
+const shortenIdentifier = (value: string): string =>
+  value.length > 28 ? `${value.slice(0, 16)}…${value.slice(-8)}` : value;
+
+const ClaimProofList: React.FC<ClaimProofListProps> = ({ claims }) => {
+  const results = React.useMemo(() => verifyClaims(claims), [claims]);
+
+  const counts = claims.reduce(
+    (totals, claim) => ({ ...totals, [results[claim.id].status]: totals[results[claim.id].status] + 1 }),
+    { verified: 0, unverified: 0, tampered: 0 }
+  );
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2, flexWrap: 'wrap', gap: 1 }}>
+          <Typography variant="h6" sx={{ fontWeight: 600, display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Fingerprint color="primary" />
+            Claim Proofs
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Chip label={`${counts.verified} verified`} color="success" size="small" variant="outlined" />
+            <Chip label={`${counts.unverified} unverified`} size="small" variant="outlined" />
+            {counts.tampered > 0 && (
+              <Chip label={`${counts.tampered} tampered`} color="error" size="small" />
+            )}
+          </Box>
+        </Box>
+
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Signatures are checked against the issuer's key (did:key, public key or Ethereum address) and
+          content digests against the claim payload, directly in your browser.
+        </Typography>
+
+        <Stack divider={<Divider flexItem />} spacing={1.5}>
+          {claims.map(claim => {
+            const result = results[claim.id];
+            return (
+              <Box key={claim.id} sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2 }}>
+                <Box sx={{ minWidth: 0 }}>
+                  <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>
+                    #{claim.id} · {claim.aspect || claim.claim}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                    {claim.author || 'Unknown author'} · {transformUtils.formatDate(claim.createdAt)}
+                  </Typography>
+                  {claim.issuerId && (
+                    <Tooltip title={claim.issuerId} arrow>
+                      <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+                        {claim.issuerIdType ? `${claim.issuerIdType}: ` : ''}{shortenIdentifier(claim.issuerId)}
+                      </Typography>
+                    </Tooltip>
+                  )}
+                  {result.status !== 'unverified' && (
+                    <Typography
+                      variant="caption"
+                      sx={{ display: 'block', color: result.status === 'tampered' ? 'error.main' : 'success.dark' }}
+                    >
+                      {result.reason}
+                    </Typography>
+                  )}
+                </Box>
+                <ClaimVerificationBadge result={result} />
+              </Box>
+            );
+          })}
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ClaimProofList;
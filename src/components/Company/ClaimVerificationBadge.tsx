@@ -0,0 +1,34 @@
+import React from 'react';
+import { Chip, Tooltip } from '@mui/material';
+import { VerifiedUser, HelpOutline, GppBad } from '@mui/icons-material';
+import type { ClaimVerificationResult } from '../../services/claimVerification';
+
+interface ClaimVerificationBadgeProps {
+  result: ClaimVerificationResult;
+  size?: 'small' | 'medium';
+}
+
+const BADGES = {
+  verified: { label: 'Verified', color: 'success' as const, icon: <VerifiedUser /> },
+  unverified: { label: 'Unverified', color: 'default' as const, icon: <HelpOutline /> },
+  tampered: { label: 'Tampered', color: 'error' as const, icon: <GppBad /> },
+};
+
+const ClaimVerificationBadge: React.FC<ClaimVerificationBadgeProps> = ({ result, size = 'small' }) => {
+  const badge = BADGES[result.status];
+
+  return (
+    <Tooltip title={result.reason} arrow>
+      <Chip
+        icon={badge.icon}
+        label={badge.label}
+        color={badge.color}
+        size={size}
+        variant={result.status === 'unverified' ? 'outlined' : 'filled'}
+        sx={{ fontWeight: 600 }}
+      />
+    </Tooltip>
+  );
+};
+
+export default ClaimVerificationBadge;
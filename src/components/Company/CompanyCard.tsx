@@ -8,22 +8,28 @@ import {
   Box,
   Rating,
   Avatar,
+  Checkbox,
+  Tooltip,
 } from '@mui/material';
 import { Business, ArrowForward } from '@mui/icons-material';
 import { useNavigate } from 'react-router-dom';
 import type { CompanyCardData } from '../../types';
-import { GradeChip } from '../Common';
+import { AnimatedNumber, GradeChip } from '../Common';
 import { transformUtils } from '../../services/utils';
+import { buildCompanyPath } from '../../services/companyResolver';
+import PartialDataChip from './PartialDataChip';
 
 interface CompanyCardProps {
   company: CompanyCardData;
+  selectedForCompare?: boolean;
+  onToggleCompare?: (company: CompanyCardData) => void;
 }
 
-const CompanyCard: React.FC<CompanyCardProps> = React.memo(({ company }) => {
+const CompanyCard: React.FC<CompanyCardProps> = React.memo(({ company, selectedForCompare = false, onToggleCompare }) => {
   const navigate = useNavigate();
 
   const handleViewDetails = () => {
-    navigate(`/company/${company.id}`);
+    navigate(buildCompanyPath(company.slug));
   };
 
   const companyName = transformUtils.extractCompanyName(company.subject);
@@ -74,6 +80,16 @@ const CompanyCard: React.FC<CompanyCardProps> = React.memo(({ company }) => {
               {companyName}
             </Typography>
           </Box>
+          {onToggleCompare && (
+            <Tooltip title={selectedForCompare ? 'Remove from comparison' : 'Add to comparison'}>
+              <Checkbox
+                checked={selectedForCompare}
+                onClick={(e) => e.stopPropagation()}
+                onChange={() => onToggleCompare(company)}
+                inputProps={{ 'aria-label': `Compare ${companyName}` }}
+              />
+            </Tooltip>
+          )}
         </Box>
 
         {/* Rating and Grade */}
@@ -93,7 +109,10 @@ const CompanyCard: React.FC<CompanyCardProps> = React.memo(({ company }) => {
               ({company.stars})
             </Typography>
           </Box>
-          <GradeChip grade={company.grade} size="medium" />
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            {company.partial && <PartialDataChip />}
+            <GradeChip grade={company.grade} size="medium" />
+          </Box>
         </Box>
 
         {/* Score Display */}
@@ -102,7 +121,7 @@ const CompanyCard: React.FC<CompanyCardProps> = React.memo(({ company }) => {
             ESG Score
           </Typography>
           <Typography variant="body1" sx={{ fontWeight: 500 }}>
-            {transformUtils.formatScoreAsPercentage(company.score)}
+            <AnimatedNumber value={company.score} format={transformUtils.formatScoreAsPercentage} />
           </Typography>
         </Box>
       </CardContent>
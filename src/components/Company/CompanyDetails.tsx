@@ -15,12 +15,12 @@ import {
   Link as LinkIcon,
   TrendingUp,
 } from '@mui/icons-material';
-import type { Claim } from '../../types';
+import type { Claim, Validator } from '../../types';
 import { GradeChip } from '../Common';
 import { transformUtils } from '../../services/utils';
 import { calculateGrade } from '../../theme/theme';
-import { useESGMetrics } from '../../hooks';
-import { ESGAssessment, ValidationEndorsements } from './';
+import { useESGMetrics, useMethodology } from '../../hooks';
+import { ESGAssessment, ValidationEndorsements, ScoreTimeline, ClaimProofList, DataQualityReport } from './';
 import type { ESGMetrics, ValidationMetrics } from '../../services/esgCalculations';
 import type { ESGCategoryDetails, ESGCategoryKey } from '../../types';
 
@@ -30,6 +30,8 @@ interface CompanyDetailsProps {
   validationMetrics?: ValidationMetrics | null;
   hasESGData?: boolean;
   categoryDetails?: Record<ESGCategoryKey, ESGCategoryDetails> | null;
+  claims?: Claim[];
+  onValidationAdded?: (claimId: number, validator: Validator) => void;
 }
 
 const CompanyDetails: React.FC<CompanyDetailsProps> = ({ 
@@ -37,22 +39,29 @@ const CompanyDetails: React.FC<CompanyDetailsProps> = ({
   esgMetrics: providedESGMetrics, 
   validationMetrics: providedValidationMetrics, 
   hasESGData: providedHasESGData,
-  categoryDetails
+  categoryDetails,
+  claims: providedClaims,
+  onValidationAdded
 }) => {
   const companyName = transformUtils.extractCompanyName(claim.subject);
+  const { profile } = useMethodology();
   
   // Use provided metrics if available, otherwise fallback to hook calculation
   const shouldUseHook = !providedESGMetrics || !providedValidationMetrics;
   const { 
+    claims: hookClaims,
     esgMetrics: hookESGMetrics, 
     validationMetrics: hookValidationMetrics, 
-    hasData: hookHasData 
+    hasData: hookHasData,
+    applyValidation: hookApplyValidation
   } = useESGMetrics(shouldUseHook ? claim.subject : undefined, shouldUseHook ? claim.subject : undefined);
   
   // Determine which metrics to use
   const esgMetrics = providedESGMetrics || hookESGMetrics;
   const validationMetrics = providedValidationMetrics || hookValidationMetrics;
   const hasData = providedHasESGData !== undefined ? providedHasESGData : hookHasData;
+  const companyClaims = providedClaims || hookClaims;
+  const handleValidationAdded = onValidationAdded || hookApplyValidation;
   
   // Use calculated metrics if available, otherwise fallback to claim data
   const displayMetrics = hasData && esgMetrics ? esgMetrics : {
@@ -71,7 +80,9 @@ const CompanyDetails: React.FC<CompanyDetailsProps> = ({
     averageRating: 0,
     endorsementRate: 0,
     consensusPercentage: 0,
-    lastUpdated: new Date()
+    lastUpdated: new Date(),
+    methodologyId: profile.id,
+    methodologyVersion: profile.version
   } as ESGMetrics;
   
   const displayValidationMetrics = hasData && validationMetrics ? validationMetrics : {
@@ -215,14 +226,32 @@ const CompanyDetails: React.FC<CompanyDetailsProps> = ({
             statement={claim.statement}
             aspect={claim.aspect}
             categoryDetails={categoryDetails}
+            claims={companyClaims}
           />
 
+          {/* Historical Score Timeline */}
+          {companyClaims.length > 0 && (
+            <ScoreTimeline claims={companyClaims} />
+          )}
+
 
           {/* Validation & Endorsements */}
           <ValidationEndorsements 
             validationMetrics={displayValidationMetrics}
             companyName={companyName}
+            claims={companyClaims}
+            onValidationAdded={handleValidationAdded}
           />
+
+          {/* Per-claim proof verification */}
+          {companyClaims.length > 0 && (
+            <ClaimProofList claims={companyClaims} />
+          )}
+
+          {/* Data-quality checks */}
+          {companyClaims.length > 0 && (
+            <DataQualityReport claims={companyClaims} />
+          )}
         </Grid>
 
         {/* Sidebar */}
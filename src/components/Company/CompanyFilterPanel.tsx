@@ -0,0 +1,216 @@
+import React from 'react';
+import {
+  Box,
+  Grid,
+  Typography,
+  Chip,
+  Slider,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Button,
+} from '@mui/material';
+import type { SelectChangeEvent } from '@mui/material';
+import { Star, RestartAlt } from '@mui/icons-material';
+import {
+  CONFIDENCE_BANDS,
+  GRADE_BANDS,
+  HOW_KNOWN_LABELS,
+  PILLAR_LABELS,
+  RECENCY_WINDOWS,
+  STAR_COUNTS,
+  type CompanyFilters,
+  type ConfidenceBand,
+  type HowKnownSource,
+  type PillarKey,
+  type RecencyWindow,
+  type ScoreRange,
+} from '../../services/companyFilters';
+
+interface CompanyFilterPanelProps {
+  filters: CompanyFilters;
+  availableSources: HowKnownSource[];
+  onChange: (filters: CompanyFilters) => void;
+  onReset: () => void;
+}
+
+const toggleValue = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter(item => item !== value) : [...values, value];
+
+const FacetLabel: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <Typography variant="subtitle2" color="text.secondary" sx={{ mb: 1, fontWeight: 600 }}>
+    {children}
+  </Typography>
+);
+
+const CompanyFilterPanel: React.FC<CompanyFilterPanelProps> = ({
+  filters,
+  availableSources,
+  onChange,
+  onReset,
+}) => {
+  // Slider values are kept locally while dragging and committed on release
+  const [pillarDraft, setPillarDraft] = React.useState(filters.pillars);
+
+  React.useEffect(() => {
+    setPillarDraft(filters.pillars);
+  }, [filters.pillars]);
+
+  const update = (changes: Partial<CompanyFilters>) => {
+    onChange({ ...filters, ...changes });
+  };
+
+  const handlePillarCommit = (pillar: PillarKey, value: number | number[]) => {
+    if (!Array.isArray(value)) return;
+    update({ pillars: { ...filters.pillars, [pillar]: [value[0], value[1]] as ScoreRange } });
+  };
+
+  const handleRecencyChange = (event: SelectChangeEvent<string>) => {
+    update({ recency: (event.target.value || null) as RecencyWindow | null });
+  };
+
+  const handleValidatorsChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseInt(event.target.value, 10);
+    update({ minValidators: Number.isFinite(value) && value > 0 ? value : 0 });
+  };
+
+  return (
+    <Box>
+      <Grid container spacing={3}>
+        <Grid item xs={12} md={6}>
+          <FacetLabel>Grade</FacetLabel>
+          <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+            {GRADE_BANDS.map(band => (
+              <Chip
+                key={band}
+                label={band}
+                color={filters.grades.includes(band) ? 'primary' : 'default'}
+                variant={filters.grades.includes(band) ? 'filled' : 'outlined'}
+                onClick={() => update({ grades: toggleValue(filters.grades, band) })}
+              />
+            ))}
+          </Box>
+        </Grid>
+
+        <Grid item xs={12} md={6}>
+          <FacetLabel>Stars</FacetLabel>
+          <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+            {STAR_COUNTS.map(count => (
+              <Chip
+                key={count}
+                icon={<Star fontSize="small" />}
+                label={count}
+                color={filters.stars.includes(count) ? 'primary' : 'default'}
+                variant={filters.stars.includes(count) ? 'filled' : 'outlined'}
+                onClick={() => update({ stars: toggleValue(filters.stars, count) })}
+              />
+            ))}
+          </Box>
+        </Grid>
+
+        {(Object.keys(PILLAR_LABELS) as PillarKey[]).map(pillar => (
+          <Grid item xs={12} md={4} key={pillar}>
+            <FacetLabel>
+              {PILLAR_LABELS[pillar]} score: {pillarDraft[pillar][0]}–{pillarDraft[pillar][1]}%
+            </FacetLabel>
+            <Box sx={{ px: 1 }}>
+              <Slider
+                value={pillarDraft[pillar]}
+                min={0}
+                max={100}
+                step={5}
+                valueLabelDisplay="auto"
+                onChange={(_, value) => Array.isArray(value) && setPillarDraft(prev => ({ ...prev, [pillar]: [value[0], value[1]] }))}
+                onChangeCommitted={(_, value) => handlePillarCommit(pillar, value)}
+                getAriaLabel={index => `${PILLAR_LABELS[pillar]} ${index === 0 ? 'minimum' : 'maximum'}`}
+              />
+            </Box>
+          </Grid>
+        ))}
+
+        <Grid item xs={12} md={6}>
+          <FacetLabel>Confidence</FacetLabel>
+          <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+            {(Object.keys(CONFIDENCE_BANDS) as ConfidenceBand[]).map(band => (
+              <Chip
+                key={band}
+                label={CONFIDENCE_BANDS[band].label}
+                color={filters.confidence.includes(band) ? 'primary' : 'default'}
+                variant={filters.confidence.includes(band) ? 'filled' : 'outlined'}
+                onClick={() => update({ confidence: toggleValue(filters.confidence, band) })}
+              />
+            ))}
+          </Box>
+        </Grid>
+
+        <Grid item xs={12} sm={6} md={3}>
+          <FacetLabel>Validators</FacetLabel>
+          <TextField
+            type="number"
+            size="small"
+            fullWidth
+            label="Minimum validations"
+            value={filters.minValidators || ''}
+            onChange={handleValidatorsChange}
+            inputProps={{ min: 0 }}
+          />
+        </Grid>
+
+        <Grid item xs={12} sm={6} md={3}>
+          <FacetLabel>Claim recency</FacetLabel>
+          <FormControl size="small" fullWidth>
+            <InputLabel id="recency-filter-label">Latest claim</InputLabel>
+            <Select
+              labelId="recency-filter-label"
+              value={filters.recency ?? ''}
+              label="Latest claim"
+              onChange={handleRecencyChange}
+            >
+              <MenuItem value="">Any time</MenuItem>
+              {(Object.keys(RECENCY_WINDOWS) as RecencyWindow[]).map(window => (
+                <MenuItem key={window} value={window}>
+                  {RECENCY_WINDOWS[window].label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Grid>
+
+        <Grid item xs={12}>
+          <FacetLabel>Source type</FacetLabel>
+          {availableSources.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              No source information is available for the loaded claims.
+            </Typography>
+          ) : (
+            <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+              {availableSources.map(source => (
+                <Chip
+                  key={source}
+                  label={HOW_KNOWN_LABELS[source]}
+                  color={filters.sources.includes(source) ? 'primary' : 'default'}
+                  variant={filters.sources.includes(source) ? 'filled' : 'outlined'}
+                  onClick={() => update({ sources: toggleValue(filters.sources, source) })}
+                />
+              ))}
+            </Box>
+          )}
+        </Grid>
+      </Grid>
+
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+        <Button
+          startIcon={<RestartAlt />}
+          onClick={onReset}
+          sx={{ textTransform: 'none' }}
+        >
+          Reset filters
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+export default CompanyFilterPanel;
@@ -1,13 +1,21 @@
-import React from 'react';
-import { Grid, Skeleton, Box } from '@mui/material';
+import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { Grid, Skeleton, Box, useMediaQuery, useTheme } from '@mui/material';
 import type { CompanyCardData } from '../../types';
 import CompanyCard from './CompanyCard';
 
 interface CompanyGridProps {
   companies: CompanyCardData[];
   loading?: boolean;
+  compareSelection?: string[];
+  onToggleCompare?: (company: CompanyCardData) => void;
+  onEndReached?: () => void;
 }
 
+// Longer lists are windowed so only the rows around the viewport are mounted
+const VIRTUALIZE_THRESHOLD = 48;
+const OVERSCAN_ROWS = 3;
+const ESTIMATED_ROW_HEIGHT = 380;
+
 // Loading skeleton for company cards
 const CompanyCardSkeleton: React.FC = () => (
   <Grid item xs={12} sm={6} md={4} lg={3}>
@@ -24,7 +32,112 @@ const CompanyCardSkeleton: React.FC = () => (
   </Grid>
 );
 
-const CompanyGrid: React.FC<CompanyGridProps> = ({ companies, loading = false }) => {
+// Invisible marker after a short grid that reports when the end of the list scrolls into view
+const EndOfListSentinel: React.FC<{ onEndReached: () => void }> = ({ onEndReached }) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || typeof IntersectionObserver === 'undefined') return;
+    const observer = new IntersectionObserver(records => {
+      if (records.some(record => record.isIntersecting)) onEndReached();
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [onEndReached]);
+
+  return <Box ref={ref} sx={{ height: 1 }} />;
+};
+
+// Cards per row at each breakpoint, matching the plain grid's xs/sm/md/lg columns
+const useColumnCount = (): number => {
+  const theme = useTheme();
+  const lg = useMediaQuery(theme.breakpoints.up('lg'));
+  const md = useMediaQuery(theme.breakpoints.up('md'));
+  const sm = useMediaQuery(theme.breakpoints.up('sm'));
+  return lg ? 4 : md ? 3 : sm ? 2 : 1;
+};
+
+const VirtualizedCompanyGrid: React.FC<CompanyGridProps> = ({ companies, compareSelection, onToggleCompare, onEndReached }) => {
+  const columns = useColumnCount();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [measured, setMeasured] = useState<{ columns: number; height: number } | null>(null);
+  const rowHeight = measured?.columns === columns ? measured.height : ESTIMATED_ROW_HEIGHT;
+  const [range, setRange] = useState({ start: 0, end: 0 });
+  const rowCount = Math.ceil(companies.length / columns);
+
+  // Work out which rows intersect the window from the container's position in the viewport
+  const updateRange = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const top = container.getBoundingClientRect().top;
+    const start = Math.max(0, Math.floor(-top / rowHeight) - OVERSCAN_ROWS);
+    const end = Math.min(rowCount, Math.ceil((window.innerHeight - top) / rowHeight) + OVERSCAN_ROWS);
+    setRange(prev => (prev.start === start && prev.end === end ? prev : { start, end }));
+  }, [rowHeight, rowCount]);
+
+  useEffect(() => {
+    updateRange();
+    window.addEventListener('scroll', updateRange, { passive: true });
+    window.addEventListener('resize', updateRange);
+    return () => {
+      window.removeEventListener('scroll', updateRange);
+      window.removeEventListener('resize', updateRange);
+    };
+  }, [updateRange]);
+
+  // Size rows from the tallest row seen at this column count so absolutely positioned rows never overlap
+  useLayoutEffect(() => {
+    const rows = containerRef.current?.querySelectorAll<HTMLElement>('[data-virtual-row]') ?? [];
+    const tallest = Array.from(rows).reduce((max, row) => Math.max(max, row.offsetHeight), 0);
+    if (tallest === 0) return;
+    setMeasured(prev => (
+      prev?.columns === columns && tallest <= prev.height + 1 ? prev : { columns, height: tallest }
+    ));
+  }, [range, columns, companies]);
+
+  // Ask for more data once the last rows come into view
+  useEffect(() => {
+    if (onEndReached && rowCount > 0 && range.end >= rowCount) onEndReached();
+  }, [range.end, rowCount, onEndReached]);
+
+  const rows = [];
+  for (let row = range.start; row < range.end; row++) {
+    rows.push(
+      <Box
+        key={row}
+        data-virtual-row
+        sx={{
+          position: 'absolute',
+          top: row * rowHeight,
+          left: 0,
+          right: 0,
+          display: 'grid',
+          gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+          gap: 3,
+          pb: 3,
+        }}
+      >
+        {companies.slice(row * columns, (row + 1) * columns).map(company => (
+          <CompanyCard
+            key={company.id}
+            company={company}
+            selectedForCompare={compareSelection?.includes(company.subject)}
+            onToggleCompare={onToggleCompare}
+          />
+        ))}
+      </Box>
+    );
+  }
+
+  return (
+    <Box ref={containerRef} sx={{ position: 'relative', height: rowCount * rowHeight }}>
+      {rows}
+    </Box>
+  );
+};
+
+const CompanyGrid: React.FC<CompanyGridProps> = ({ companies, loading = false, compareSelection, onToggleCompare, onEndReached }) => {
   if (loading) {
     return (
       <Grid container spacing={3}>
@@ -35,14 +148,32 @@ const CompanyGrid: React.FC<CompanyGridProps> = ({ companies, loading = false })
     );
   }
 
+  if (companies.length > VIRTUALIZE_THRESHOLD) {
+    return (
+      <VirtualizedCompanyGrid
+        companies={companies}
+        compareSelection={compareSelection}
+        onToggleCompare={onToggleCompare}
+        onEndReached={onEndReached}
+      />
+    );
+  }
+
   return (
-    <Grid container spacing={3}>
-      {companies.map((company) => (
-        <Grid item xs={12} sm={6} md={4} lg={3} key={company.id}>
-          <CompanyCard company={company} />
-        </Grid>
-      ))}
-    </Grid>
+    <>
+      <Grid container spacing={3}>
+        {companies.map((company) => (
+          <Grid item xs={12} sm={6} md={4} lg={3} key={company.id}>
+            <CompanyCard
+              company={company}
+              selectedForCompare={compareSelection?.includes(company.subject)}
+              onToggleCompare={onToggleCompare}
+            />
+          </Grid>
+        ))}
+      </Grid>
+      {onEndReached && <EndOfListSentinel onEndReached={onEndReached} />}
+    </>
   );
 };
 
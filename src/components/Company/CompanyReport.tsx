@@ -0,0 +1,251 @@
+import React from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Grid,
+  Divider,
+  Rating,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Chip,
+} from '@mui/material';
+import { Verified } from '@mui/icons-material';
+import { GradeChip } from '../Common';
+import { transformUtils } from '../../services/utils';
+import { REPORT_CATEGORIES, type CompanyReport as CompanyReportData } from '../../services/companyReport';
+
+interface CompanyReportProps {
+  report: CompanyReportData;
+}
+
+const PILLAR_COLORS = {
+  environmental: '#10b981',
+  social: '#f59e0b',
+  governance: '#8b5cf6',
+};
+
+// Keep sections whole across printed pages
+const sectionSx = { mb: 3, breakInside: 'avoid' as const };
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <Typography variant="h6" sx={{ fontWeight: 600, mb: 1.5, borderBottom: '2px solid', borderColor: 'primary.main', pb: 0.5 }}>
+    {children}
+  </Typography>
+);
+
+const CompanyReport: React.FC<CompanyReportProps> = ({ report }) => {
+  const { esgMetrics, breakdown, categoryDetails } = report;
+
+  return (
+    <Paper
+      elevation={2}
+      sx={{
+        p: { xs: 3, md: 5 },
+        maxWidth: 960,
+        mx: 'auto',
+        '@media print': { boxShadow: 'none', p: 0, maxWidth: 'none' },
+      }}
+    >
+      {/* Title */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 3, gap: 2 }}>
+        <Box>
+          <Typography variant="overline" color="text.secondary">ESG Summary Report</Typography>
+          <Typography variant="h4" component="h1" sx={{ fontWeight: 700 }}>
+            {transformUtils.extractCompanyName(report.subject)}
+          </Typography>
+          <Typography variant="body2" color="text.secondary">{report.subject}</Typography>
+        </Box>
+        <Box sx={{ textAlign: 'right' }}>
+          <Typography variant="body2" color="text.secondary">
+            Generated {transformUtils.formatDate(report.generatedAt)}
+          </Typography>
+          <Typography variant="body2" color="text.secondary">{report.methodologyLabel}</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Based on {report.claimCount} claim{report.claimCount === 1 ? '' : 's'}
+          </Typography>
+        </Box>
+      </Box>
+
+      {/* Overview */}
+      <Box sx={sectionSx}>
+        <SectionTitle>Overview</SectionTitle>
+        <Grid container spacing={3} alignItems="center">
+          <Grid item xs={12} sm={4}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+              <Typography variant="h3" sx={{ fontWeight: 700 }}>
+                {Math.round(esgMetrics.overallPercentage)}%
+              </Typography>
+              <GradeChip grade={esgMetrics.overallGrade} />
+            </Box>
+            <Rating value={esgMetrics.overallStars} readOnly />
+          </Grid>
+          <Grid item xs={12} sm={8}>
+            <Grid container spacing={2}>
+              {[
+                { label: 'Confidence', value: `${Math.round(esgMetrics.confidenceLevel * 100)}%` },
+                { label: 'Industry percentile', value: `${Math.round(esgMetrics.industryPercentile)}th` },
+                { label: 'Validations', value: `${esgMetrics.totalValidations}` },
+                { label: 'Endorsement rate', value: `${Math.round(esgMetrics.endorsementRate)}%` },
+              ].map(item => (
+                <Grid item xs={6} sm={3} key={item.label}>
+                  <Typography variant="caption" color="text.secondary">{item.label}</Typography>
+                  <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>{item.value}</Typography>
+                </Grid>
+              ))}
+            </Grid>
+          </Grid>
+        </Grid>
+      </Box>
+
+      {/* Pillar scores */}
+      <Box sx={sectionSx}>
+        <SectionTitle>Pillar Scores</SectionTitle>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ fontWeight: 600 }}>Pillar</TableCell>
+              <TableCell sx={{ fontWeight: 600, width: '35%' }}>Score</TableCell>
+              <TableCell align="right" sx={{ fontWeight: 600 }}>Claims</TableCell>
+              <TableCell align="right" sx={{ fontWeight: 600 }}>Weight</TableCell>
+              <TableCell align="right" sx={{ fontWeight: 600 }}>Contribution</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {REPORT_CATEGORIES.map(({ key, label }) => {
+              const pillar = breakdown.pillarBreakdown[key];
+              return (
+                <TableRow key={key}>
+                  <TableCell>{label}</TableCell>
+                  <TableCell>
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      <LinearProgress
+                        variant="determinate"
+                        value={Math.min(100, Math.max(0, pillar.averageScore))}
+                        sx={{
+                          flexGrow: 1,
+                          height: 8,
+                          borderRadius: 4,
+                          backgroundColor: 'grey.200',
+                          '& .MuiLinearProgress-bar': { borderRadius: 4, backgroundColor: PILLAR_COLORS[key] },
+                        }}
+                      />
+                      <Typography variant="body2" sx={{ minWidth: 40, textAlign: 'right' }}>
+                        {Math.round(pillar.averageScore)}
+                      </Typography>
+                    </Box>
+                  </TableCell>
+                  <TableCell align="right">{pillar.claims}</TableCell>
+                  <TableCell align="right">{Math.round(breakdown.methodology.weights[key] * 100)}%</TableCell>
+                  <TableCell align="right">{pillar.weightedContribution.toFixed(1)}</TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </Box>
+
+      {/* Attributes */}
+      <Box sx={sectionSx}>
+        <SectionTitle>Attributes</SectionTitle>
+        {REPORT_CATEGORIES.map(({ key, label }) => (
+          <Box key={key} sx={{ mb: 2, breakInside: 'avoid' }}>
+            <Typography variant="subtitle2" sx={{ fontWeight: 600, color: PILLAR_COLORS[key] }}>
+              {label} · {Math.round(categoryDetails[key].scorePercentage)}%
+            </Typography>
+            {categoryDetails[key].attributes.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">No attribute data.</Typography>
+            ) : (
+              <Table size="small">
+                <TableBody>
+                  {categoryDetails[key].attributes.map(attribute => (
+                    <TableRow key={attribute.id}>
+                      <TableCell sx={{ width: '25%' }}>{attribute.name}</TableCell>
+                      <TableCell align="right" sx={{ width: 70 }}>{Math.round(attribute.valuePercentage)}%</TableCell>
+                      <TableCell align="right" sx={{ width: 90 }}>
+                        <Typography variant="caption" color="text.secondary">
+                          weight {Math.round(attribute.weightPercentage)}%
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        <Typography variant="caption" color="text.secondary">
+                          {attribute.contributionExplanation}
+                        </Typography>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </Box>
+        ))}
+      </Box>
+
+      {/* Calculation */}
+      <Box sx={sectionSx}>
+        <SectionTitle>How the Score Is Calculated</SectionTitle>
+        <Box component="ol" sx={{ m: 0, pl: 3 }}>
+          {report.explanation.map(line => (
+            <Typography component="li" variant="body2" key={line} sx={{ mb: 0.5 }}>
+              {line}
+            </Typography>
+          ))}
+        </Box>
+        <Typography variant="caption" color="text.secondary">
+          {breakdown.validationBreakdown.totalRatings} ratings considered;
+          ratings of {breakdown.validationBreakdown.endorsementThreshold}+ stars count as endorsements.
+        </Typography>
+      </Box>
+
+      {/* Validator statements */}
+      <Box sx={sectionSx}>
+        <SectionTitle>Top Validator Statements</SectionTitle>
+        {report.topValidations.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">No validator statements yet.</Typography>
+        ) : (
+          report.topValidations.map((validation, index) => (
+            <Box key={validation.id} sx={{ mb: 1.5, breakInside: 'avoid' }}>
+              {index > 0 && <Divider sx={{ mb: 1.5 }} />}
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>{validation.validatorName}</Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {validation.validatorRole}, {validation.organization} · {transformUtils.formatDate(validation.timestamp)}
+                </Typography>
+                <Rating value={validation.rating} readOnly size="small" />
+                {validation.verified && (
+                  <Chip icon={<Verified />} label="Verified" size="small" color="success" variant="outlined" />
+                )}
+              </Box>
+              <Typography variant="body2" sx={{ fontStyle: 'italic', mt: 0.5 }}>
+                “{validation.statement}”
+              </Typography>
+            </Box>
+          ))
+        )}
+      </Box>
+
+      {/* Sources */}
+      <Box sx={{ ...sectionSx, mb: 0 }}>
+        <SectionTitle>Sources</SectionTitle>
+        {report.sources.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">No source URIs recorded.</Typography>
+        ) : (
+          <Box component="ul" sx={{ m: 0, pl: 3 }}>
+            {report.sources.map(source => (
+              <Typography component="li" variant="body2" key={source.uri} sx={{ wordBreak: 'break-all' }}>
+                {source.uri}{' '}
+                <Typography component="span" variant="caption" color="text.secondary">({source.label})</Typography>
+              </Typography>
+            ))}
+          </Box>
+        )}
+      </Box>
+    </Paper>
+  );
+};
+
+export default CompanyReport;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Box,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import { GradeChip } from '../Common';
+import { buildCompanyPath } from '../../services/companyResolver';
+import PartialDataChip from './PartialDataChip';
+import type { CompanyListEntry } from '../../services/companyFilters';
+import { COMPANY_COLUMNS, formatCell } from '../../services/tableExport';
+
+interface CompanyTableProps {
+  entries: CompanyListEntry[];
+}
+
+// Same columns as the company export, limited to the ones marked for the screen
+const SCREEN_COLUMNS = COMPANY_COLUMNS.filter(column => column.onScreen);
+
+const CompanyTable: React.FC<CompanyTableProps> = ({ entries }) => {
+  const navigate = useNavigate();
+
+  return (
+    <TableContainer component={Paper} elevation={2}>
+      <Table size="small" stickyHeader>
+        <TableHead>
+          <TableRow>
+            {SCREEN_COLUMNS.map(column => (
+              <TableCell key={column.id} align={column.align} sx={{ fontWeight: 600, whiteSpace: 'nowrap' }}>
+                {column.header}
+              </TableCell>
+            ))}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {entries.map(entry => (
+            <TableRow
+              key={entry.company.companyKey}
+              hover
+              onClick={() => navigate(buildCompanyPath(entry.company.slug))}
+              sx={{ cursor: 'pointer' }}
+            >
+              {SCREEN_COLUMNS.map(column => (
+                <TableCell key={column.id} align={column.align}>
+                  {column.id === 'grade'
+                    ? <GradeChip grade={entry.esgMetrics.overallGrade} size="small" />
+                    : formatCell(column, entry)}
+                  {column.id === 'company' && entry.company.partial && (
+                    <Box component="span" sx={{ ml: 1 }}>
+                      <PartialDataChip />
+                    </Box>
+                  )}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+export default CompanyTable;
@@ -0,0 +1,172 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Alert,
+  Box,
+  Typography,
+  List,
+  ListItem,
+  ListItemText,
+  Chip,
+  CircularProgress,
+} from '@mui/material';
+import { UploadFile } from '@mui/icons-material';
+import type { Claim } from '../../types';
+import { useCredentialImport, useMethodology } from '../../hooks';
+import ESGCalculationEngine from '../../services/esgCalculations';
+import {
+  parseCredentialDocument,
+  importedCredentialToClaim,
+  type CredentialImportResult,
+} from '../../services/verifiableCredentials';
+
+interface CredentialImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onImported: (claims: Claim[]) => void;
+}
+
+const CredentialImportDialog: React.FC<CredentialImportDialogProps> = ({ open, onClose, onImported }) => {
+  const { profile } = useMethodology();
+  const { importCredentials, validationFailures, error, reset, isLoading, isError } = useCredentialImport();
+  const [fileName, setFileName] = React.useState<string | null>(null);
+  const [result, setResult] = React.useState<CredentialImportResult | null>(null);
+  const [parseError, setParseError] = React.useState<string | null>(null);
+  // Claims already published from this file; a retry only sends the credentials that are left
+  const [published, setPublished] = React.useState<Claim[]>([]);
+
+  // Whatever was published is reported on close, even if the rest of the file failed
+  const close = (publishedClaims: Claim[]) => {
+    setFileName(null);
+    setResult(null);
+    setParseError(null);
+    setPublished([]);
+    reset();
+    if (publishedClaims.length > 0) onImported(publishedClaims);
+    onClose();
+  };
+
+  const handleClose = () => close(published);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    setParseError(null);
+    reset();
+    try {
+      setResult(parseCredentialDocument(await file.text()));
+    } catch (err) {
+      setResult(null);
+      setParseError(err instanceof Error ? err.message : 'Failed to read the credential file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!result || result.imported.length === 0) return;
+    const outcome = await importCredentials(result.imported);
+    const publishedClaims = [...published, ...outcome.published.map(entry => entry.claim)];
+    const done = new Set(outcome.published.map(entry => entry.credential));
+    const remaining = result.imported.filter(credential => !done.has(credential));
+
+    if (remaining.length === 0 && outcome.validationFailures.length === 0) {
+      close(publishedClaims);
+      return;
+    }
+    setPublished(publishedClaims);
+    setResult({ ...result, imported: remaining });
+  };
+
+  return (
+    <Dialog open={open} onClose={isLoading ? undefined : handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Import Verifiable Credentials</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Upload a JSON-LD file with a Verifiable Credential, an array of credentials or a Verifiable
+          Presentation. Each credential is published as a claim, with its endorsements as validations.
+        </Typography>
+
+        <Button component="label" variant="outlined" startIcon={<UploadFile />} disabled={isLoading} sx={{ mb: 2 }}>
+          {fileName ?? 'Choose File'}
+          <input type="file" accept=".json,.jsonld,application/json,application/ld+json" hidden onChange={handleFileChange} />
+        </Button>
+
+        {parseError && (
+          <Alert severity="error" sx={{ mb: 2, borderRadius: 2 }}>{parseError}</Alert>
+        )}
+
+        {published.length > 0 && (
+          <Alert severity="info" sx={{ mb: 2, borderRadius: 2 }}>
+            {published.length} claim{published.length === 1 ? ' was' : 's were'} published
+            {result && result.imported.length > 0 ? '; importing again only sends the credentials listed below.' : '.'}
+          </Alert>
+        )}
+
+        {isError && error && (
+          <Alert severity="error" sx={{ mb: 2, borderRadius: 2 }}>{error.message}</Alert>
+        )}
+
+        {validationFailures.length > 0 && (
+          <Alert severity="warning" sx={{ mb: 2, borderRadius: 2 }}>
+            {validationFailures.length} published claim{validationFailures.length === 1 ? '' : 's'} could not be given every endorsement:
+            {validationFailures.map(failure => (
+              <Box key={failure.claim.id} component="span" sx={{ display: 'block' }}>
+                {failure.claim.subject}: {failure.message}
+              </Box>
+            ))}
+          </Alert>
+        )}
+
+        {result && result.errors.length > 0 && (
+          <Alert severity="warning" sx={{ mb: 2, borderRadius: 2 }}>
+            {result.errors.length} credential{result.errors.length === 1 ? '' : 's'} could not be converted and will be skipped:
+            {result.errors.map(item => (
+              <Box key={item.index} component="span" sx={{ display: 'block' }}>
+                #{item.index + 1}: {item.message}
+              </Box>
+            ))}
+          </Alert>
+        )}
+
+        {result && result.imported.length > 0 && (
+          <List dense disablePadding>
+            {result.imported.map((imported, index) => {
+              // Preview the score this claim contributes on its own
+              const preview = ESGCalculationEngine.calculateESGMetrics([importedCredentialToClaim(imported, -(index + 1))], profile);
+              return (
+                <ListItem key={index} divider>
+                  <ListItemText
+                    primary={imported.claim.subject}
+                    secondary={`${imported.claim.aspect || imported.claim.claim} · ${imported.claim.author || 'Unknown issuer'} · ${imported.validators.length} endorsement${imported.validators.length === 1 ? '' : 's'}`}
+                  />
+                  {imported.claim.claim === 'rated' && (
+                    <Chip label={`${Math.round(preview.overallPercentage)}%`} size="small" color="primary" variant="outlined" />
+                  )}
+                </ListItem>
+              );
+            })}
+          </List>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose} disabled={isLoading}>{published.length > 0 ? 'Close' : 'Cancel'}</Button>
+        <Button
+          variant="contained"
+          onClick={handleImport}
+          disabled={isLoading || !result || result.imported.length === 0}
+          startIcon={isLoading ? <CircularProgress size={18} color="inherit" /> : undefined}
+        >
+          {isLoading ? 'Importing...' : `Import ${result?.imported.length ?? 0} Claim${result?.imported.length === 1 ? '' : 's'}`}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CredentialImportDialog;
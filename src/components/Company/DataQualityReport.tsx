@@ -0,0 +1,90 @@
+import React from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Chip,
+  Divider,
+  Stack,
+} from '@mui/material';
+import { CheckCircle, ErrorOutline, InfoOutlined, ReportProblem, WarningAmber } from '@mui/icons-material';
+import type { Claim } from '../../types';
+import {
+  DATA_QUALITY_CHECK_LABELS,
+  buildDataQualityReport,
+  type DataQualitySeverity,
+} from '../../services/dataQuality';
+
+interface DataQualityReportProps {
+  claims: Claim[];
+}
+
+const SEVERITY_DISPLAY: Record<DataQualitySeverity, { label: string; color: 'error' | 'warning' | 'info'; icon: React.ReactElement }> = {
+  error: { label: 'errors', color: 'error', icon: <ErrorOutline color="error" fontSize="small" /> },
+  warning: { label: 'warnings', color: 'warning', icon: <WarningAmber color="warning" fontSize="small" /> },
+  info: { label: 'notes', color: 'info', icon: <InfoOutlined color="info" fontSize="small" /> },
+};
+
+const DataQualityReport: React.FC<DataQualityReportProps> = ({ claims }) => {
+  const report = React.useMemo(() => buildDataQualityReport(claims), [claims]);
+
+  return (
+    <Card id="data-quality" sx={{ mb: 3 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2, flexWrap: 'wrap', gap: 1 }}>
+          <Typography variant="h6" sx={{ fontWeight: 600, display: 'flex', alignItems: 'center', gap: 1 }}>
+            <ReportProblem color="primary" />
+            Data Quality
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Chip label={`${Math.round(report.cleanPercentage)}% clean`} size="small" variant="outlined" />
+            {(Object.keys(SEVERITY_DISPLAY) as DataQualitySeverity[])
+              .filter(severity => report.counts[severity] > 0)
+              .map(severity => (
+                <Chip
+                  key={severity}
+                  label={`${report.counts[severity]} ${SEVERITY_DISPLAY[severity].label}`}
+                  color={SEVERITY_DISPLAY[severity].color}
+                  size="small"
+                  variant={severity === 'error' ? 'filled' : 'outlined'}
+                />
+              ))}
+          </Box>
+        </Box>
+
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Claims are checked for out-of-range values, stars that contradict the score, duplicates,
+          future dates, missing sources and validators who disagree sharply with the claim.
+        </Typography>
+
+        {report.issues.length === 0 ? (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <CheckCircle color="success" fontSize="small" />
+            <Typography variant="body2">
+              No issues found in {report.claimCount} claim{report.claimCount === 1 ? '' : 's'}.
+            </Typography>
+          </Box>
+        ) : (
+          <Stack divider={<Divider flexItem />} spacing={1.5}>
+            {report.issues.map(issue => (
+              <Box key={issue.id} sx={{ display: 'flex', alignItems: 'flex-start', gap: 1.5 }}>
+                <Box sx={{ pt: 0.25 }}>{SEVERITY_DISPLAY[issue.severity].icon}</Box>
+                <Box sx={{ minWidth: 0 }}>
+                  <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>
+                    #{issue.claimId} · {DATA_QUALITY_CHECK_LABELS[issue.check]}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {issue.message}
+                  </Typography>
+                </Box>
+              </Box>
+            ))}
+          </Stack>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DataQualityReport;
@@ -10,6 +10,7 @@ import {
   Chip,
   Tooltip,
   Stack,
+  Button,
 } from '@mui/material';
 import {
   Assessment,
@@ -18,22 +19,27 @@ import {
   AccountBalance,
   TrendingUp,
   Info,
+  HelpOutline,
 } from '@mui/icons-material';
 import type { ESGMetrics } from '../../services/esgCalculations';
-import type { ESGCategoryDetails, ESGCategoryKey, ESGAttributeDetail } from '../../types';
+import { getMethodologyProfile, formatMethodologyLabel } from '../../services/methodology';
+import type { Claim, ESGCategoryDetails, ESGCategoryKey, ESGAttributeDetail } from '../../types';
+import ScoreExplanationDrawer from './ScoreExplanationDrawer';
 
 interface ESGAssessmentProps {
   esgMetrics: ESGMetrics;
   statement?: string;
   aspect?: string;
   categoryDetails?: Record<ESGCategoryKey, ESGCategoryDetails> | null;
+  claims?: Claim[];            // enables the "Why this score?" drawer
 }
 
 const ESGAssessment: React.FC<ESGAssessmentProps> = ({
   esgMetrics,
   statement,
   aspect,
-  categoryDetails: categoryDetailsProp
+  categoryDetails: categoryDetailsProp,
+  claims
 }) => {
   const {
     overallPercentage,
@@ -43,13 +49,23 @@ const ESGAssessment: React.FC<ESGAssessmentProps> = ({
     governanceScore,
     confidenceLevel,
     industryPercentile,
-    lastUpdated
+    lastUpdated,
+    methodologyId
   } = esgMetrics;
 
+  // Methodology that produced these metrics
+  const methodology = getMethodologyProfile(methodologyId);
+  const weightPercent = {
+    environmental: Math.round(methodology.weights.environmental * 100),
+    social: Math.round(methodology.weights.social * 100),
+    governance: Math.round(methodology.weights.governance * 100),
+  };
+
   // Layered navigation state
   const [activeLayer, setActiveLayer] = useState<'overview' | 'category' | 'details'>('overview');
   const [activeCategory, setActiveCategory] = useState<ESGCategoryKey | null>(null);
   const [activeAttribute, setActiveAttribute] = useState<ESGAttributeDetail | null>(null);
+  const [explanationOpen, setExplanationOpen] = useState(false);
 
   const categoryDetails = categoryDetailsProp || null;
 
@@ -123,6 +139,29 @@ const ESGAssessment: React.FC<ESGAssessmentProps> = ({
     </Typography>
   );
 
+  const renderMethodology = (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 3 }}>
+      <Tooltip title={methodology.description}>
+        <Chip
+          label={`Methodology: ${formatMethodologyLabel(methodology)}`}
+          variant="outlined"
+          size="small"
+          sx={{ fontWeight: 500 }}
+        />
+      </Tooltip>
+      {claims && claims.length > 0 && (
+        <Button
+          size="small"
+          startIcon={<HelpOutline />}
+          onClick={() => setExplanationOpen(true)}
+          sx={{ textTransform: 'none' }}
+        >
+          Why this score?
+        </Button>
+      )}
+    </Box>
+  );
+
   return (
     <Paper elevation={2} sx={{ 
       p: 4, 
@@ -143,6 +182,7 @@ const ESGAssessment: React.FC<ESGAssessmentProps> = ({
       }
     }}>
       {renderHeader}
+      {renderMethodology}
       
       {statement && (
         <Typography variant="body1" sx={{ lineHeight: 1.7, mb: 3, color: 'text.secondary' }}>
@@ -582,10 +622,10 @@ const ESGAssessment: React.FC<ESGAssessmentProps> = ({
           ESG Weighting Formula
         </Typography>
         <Typography variant="caption" color="info.dark" sx={{ display: 'block', mb: 1 }}>
-          Overall ESG Score = (Environmental × 40%) + (Social × 30%) + (Governance × 30%)
+          Overall ESG Score = (Environmental × {weightPercent.environmental}%) + (Social × {weightPercent.social}%) + (Governance × {weightPercent.governance}%)
         </Typography>
         <Typography variant="caption" color="info.dark">
-          <strong>Current Calculation:</strong> ({Math.round(environmentalScore)} × 40%) + ({Math.round(socialScore)} × 30%) + ({Math.round(governanceScore)} × 30%) = {Math.round(overallPercentage)}%
+          <strong>Current Calculation:</strong> ({Math.round(environmentalScore)} × {weightPercent.environmental}%) + ({Math.round(socialScore)} × {weightPercent.social}%) + ({Math.round(governanceScore)} × {weightPercent.governance}%) = {Math.round(overallPercentage)}%
         </Typography>
       </Box>
 
@@ -619,10 +659,19 @@ const ESGAssessment: React.FC<ESGAssessmentProps> = ({
       <Box sx={{ mt: 3, p: 2, bgcolor: 'info.light', borderRadius: 2, border: '1px solid', borderColor: 'info.main' }}>
         <Typography variant="caption" color="info.dark" sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
           <Info fontSize="small" />
-          <strong>Calculation Method:</strong> ESG scores are calculated using weighted averages (Environmental: 40%, Social: 30%, Governance: 30%) 
-          from verified claims, with confidence and recency factors applied. All calculations are performed in real-time using the latest available data.
+          <strong>Calculation Method:</strong> ESG scores are calculated using the {formatMethodologyLabel(methodology)} methodology's weighted averages
+          (Environmental: {weightPercent.environmental}%, Social: {weightPercent.social}%, Governance: {weightPercent.governance}%) 
+          from verified claims, with confidence and recency factors applied ({methodology.recencyDecayDays}-day decay). All calculations are performed in real-time using the latest available data.
         </Typography>
       </Box>
+
+      {claims && (
+        <ScoreExplanationDrawer
+          open={explanationOpen}
+          onClose={() => setExplanationOpen(false)}
+          claims={claims}
+        />
+      )}
     </Paper>
   );
 };
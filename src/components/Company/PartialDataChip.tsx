@@ -0,0 +1,19 @@
+import React from 'react';
+import { Chip, Tooltip } from '@mui/material';
+import { HourglassBottom } from '@mui/icons-material';
+
+interface PartialDataChipProps {
+  size?: 'small' | 'medium';
+}
+
+// Marks a company scored from the claim pages loaded so far
+const PartialDataChip: React.FC<PartialDataChipProps> = ({ size = 'small' }) => (
+  <Tooltip
+    title="Scored from the claims loaded so far. Load more companies or open the company for its full rating."
+    arrow
+  >
+    <Chip icon={<HourglassBottom />} label="Partial" size={size} variant="outlined" color="warning" />
+  </Tooltip>
+);
+
+export default PartialDataChip;
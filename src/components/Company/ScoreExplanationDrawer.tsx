@@ -0,0 +1,234 @@
+import React from 'react';
+import {
+  Box,
+  Drawer,
+  Typography,
+  IconButton,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Checkbox,
+  Chip,
+  Tooltip,
+  Alert,
+  Divider,
+} from '@mui/material';
+import { Close, RestartAlt, ArrowForward } from '@mui/icons-material';
+import type { Claim, ESGCategoryKey } from '../../types';
+import { ESGCalculationEngine } from '../../services/esgCalculations';
+import { formatMethodologyLabel } from '../../services/methodology';
+import { transformUtils } from '../../services/utils';
+import { useMethodology } from '../../hooks';
+import { GradeChip } from '../Common';
+
+interface ScoreExplanationDrawerProps {
+  open: boolean;
+  onClose: () => void;
+  claims: Claim[];
+}
+
+const PILLAR_LABELS: Record<ESGCategoryKey, string> = {
+  environmental: 'E',
+  social: 'S',
+  governance: 'G',
+};
+
+const PILLAR_NAMES: Record<ESGCategoryKey, string> = {
+  environmental: 'Environmental',
+  social: 'Social',
+  governance: 'Governance',
+};
+
+const formatPoints = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(1)}`;
+
+const ScoreExplanationDrawer: React.FC<ScoreExplanationDrawerProps> = ({ open, onClose, claims }) => {
+  const { profile } = useMethodology();
+  const [excluded, setExcluded] = React.useState<Set<number>>(new Set());
+
+  const includedClaims = React.useMemo(
+    () => claims.filter(claim => !excluded.has(claim.id)),
+    [claims, excluded]
+  );
+
+  // The actual score, and the score with the toggled-off claims left out
+  const actual = React.useMemo(() => ESGCalculationEngine.explainScore(claims, profile), [claims, profile]);
+  const adjusted = React.useMemo(() => ESGCalculationEngine.explainScore(includedClaims, profile), [includedClaims, profile]);
+  const breakdown = React.useMemo(
+    () => ESGCalculationEngine.getCalculationBreakdown(includedClaims, profile),
+    [includedClaims, profile]
+  );
+
+  const adjustedById = new Map(adjusted.contributions.map(entry => [entry.claim.id, entry]));
+  const delta = adjusted.overallPercentage - actual.overallPercentage;
+
+  const toggleClaim = (claimId: number) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(claimId)) {
+        next.delete(claimId);
+      } else {
+        next.add(claimId);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <Drawer anchor="right" open={open} onClose={onClose} PaperProps={{ sx: { width: { xs: '100%', md: 720 } } }}>
+      <Box sx={{ p: 3 }}>
+        {/* Header */}
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+          <Typography variant="h5" sx={{ fontWeight: 700 }}>
+            Why this score?
+          </Typography>
+          <IconButton onClick={onClose} aria-label="Close">
+            <Close />
+          </IconButton>
+        </Box>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+          Each claim is weighted by its confidence and by how recent it is ({profile.recencyDecayDays}-day decay),
+          then averaged within its pillar. Pillars are combined using the {formatMethodologyLabel(profile)} weights.
+          Untick claims to see how the score would change without them.
+        </Typography>
+
+        {/* Score summary */}
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 3, flexWrap: 'wrap' }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography variant="h4" sx={{ fontWeight: 700 }}>{Math.round(actual.overallPercentage)}%</Typography>
+            <GradeChip grade={actual.overallGrade} size="small" />
+          </Box>
+          {excluded.size > 0 && (
+            <>
+              <ArrowForward color="action" />
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <Typography variant="h4" sx={{ fontWeight: 700 }}>{Math.round(adjusted.overallPercentage)}%</Typography>
+                <GradeChip grade={adjusted.overallGrade} size="small" />
+                <Chip
+                  label={`${formatPoints(delta)} pts`}
+                  size="small"
+                  color={delta > 0 ? 'success' : delta < 0 ? 'error' : 'default'}
+                />
+              </Box>
+              <Button size="small" startIcon={<RestartAlt />} onClick={() => setExcluded(new Set())} sx={{ textTransform: 'none' }}>
+                Reset
+              </Button>
+            </>
+          )}
+        </Box>
+
+        {/* Pillar breakdown */}
+        <Table size="small" sx={{ mb: 3 }}>
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ fontWeight: 600 }}>Pillar</TableCell>
+              <TableCell align="right" sx={{ fontWeight: 600 }}>Claims</TableCell>
+              <TableCell align="right" sx={{ fontWeight: 600 }}>Score</TableCell>
+              <TableCell align="right" sx={{ fontWeight: 600 }}>Weight</TableCell>
+              <TableCell align="right" sx={{ fontWeight: 600 }}>Contribution</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {(Object.keys(PILLAR_NAMES) as ESGCategoryKey[]).map(pillar => {
+              const entry = breakdown.pillarBreakdown[pillar];
+              return (
+                <TableRow key={pillar}>
+                  <TableCell>{PILLAR_NAMES[pillar]}</TableCell>
+                  <TableCell align="right">{entry.claims}</TableCell>
+                  <TableCell align="right">{entry.averageScore.toFixed(1)}%</TableCell>
+                  <TableCell align="right">{Math.round(breakdown.methodology.weights[pillar] * 100)}%</TableCell>
+                  <TableCell align="right">{entry.weightedContribution.toFixed(1)}</TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        <Divider sx={{ mb: 2 }} />
+
+        {/* Per-claim contributions */}
+        <Typography variant="h6" sx={{ fontWeight: 600, mb: 1 }}>
+          Claims
+        </Typography>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell padding="checkbox" />
+              <TableCell sx={{ fontWeight: 600 }}>Claim</TableCell>
+              <TableCell sx={{ fontWeight: 600 }}>Pillars</TableCell>
+              <TableCell align="right" sx={{ fontWeight: 600 }}>Confidence</TableCell>
+              <TableCell align="right" sx={{ fontWeight: 600 }}>Recency</TableCell>
+              <TableCell align="right" sx={{ fontWeight: 600 }}>Contribution</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {actual.contributions.map(({ claim, confidenceWeight, recencyWeight }) => {
+              const isIncluded = !excluded.has(claim.id);
+              const current = adjustedById.get(claim.id);
+              return (
+                <TableRow key={claim.id} hover sx={{ opacity: isIncluded ? 1 : 0.5 }}>
+                  <TableCell padding="checkbox">
+                    <Checkbox
+                      checked={isIncluded}
+                      onChange={() => toggleClaim(claim.id)}
+                      inputProps={{ 'aria-label': `Include claim ${claim.id}` }}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="body2" sx={{ fontWeight: 500 }}>{claim.aspect || claim.claim}</Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {[claim.author, transformUtils.formatDate(claim.createdAt)].filter(Boolean).join(' · ')}
+                      {' · '}score {claim.score?.toFixed(2)}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    {current && current.pillars.length > 0 ? (
+                      <Tooltip title={current.fallback ? 'Used for pillars that have no claims of their own' : ''}>
+                        <Box sx={{ display: 'flex', gap: 0.5 }}>
+                          {current.pillars.map(pillar => (
+                            <Chip
+                              key={pillar}
+                              label={`${PILLAR_LABELS[pillar]} ${Math.round((current.pillarShares[pillar] ?? 0) * 100)}%`}
+                              size="small"
+                              variant={current.fallback ? 'outlined' : 'filled'}
+                            />
+                          ))}
+                        </Box>
+                      </Tooltip>
+                    ) : (
+                      <Typography variant="caption" color="text.secondary">
+                        {isIncluded ? 'Not used' : 'Excluded'}
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell align="right">{Math.round(confidenceWeight * 100)}%</TableCell>
+                  <TableCell align="right">{recencyWeight.toFixed(2)}</TableCell>
+                  <TableCell align="right" sx={{ fontWeight: 600 }}>
+                    {current ? current.contribution.toFixed(1) : '—'}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        {adjusted.baseline > 0 && (
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+            Pillars without any claims are scored as neutral and add {adjusted.baseline.toFixed(1)} points.
+          </Typography>
+        )}
+
+        {actual.unscored.length > 0 && (
+          <Alert severity="info" sx={{ mt: 2 }}>
+            {actual.unscored.length} claim{actual.unscored.length === 1 ? ' has' : 's have'} no score or
+            confidence and {actual.unscored.length === 1 ? 'is' : 'are'} not part of the calculation.
+          </Alert>
+        )}
+      </Box>
+    </Drawer>
+  );
+};
+
+export default ScoreExplanationDrawer;
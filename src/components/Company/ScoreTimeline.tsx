@@ -0,0 +1,90 @@
+import React from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Chip,
+} from '@mui/material';
+import {
+  Timeline,
+  TrendingUp,
+  TrendingDown,
+  TrendingFlat,
+} from '@mui/icons-material';
+import { LineChart } from '@mui/x-charts/LineChart';
+import type { Claim } from '../../types';
+import { ESGCalculationEngine } from '../../services/esgCalculations';
+import { transformUtils } from '../../services/utils';
+import { useMethodology } from '../../hooks';
+
+interface ScoreTimelineProps {
+  claims: Claim[];
+}
+
+const ScoreTimeline: React.FC<ScoreTimelineProps> = ({ claims }) => {
+  const { profile } = useMethodology();
+
+  const timeline = React.useMemo(
+    () => ESGCalculationEngine.calculateScoreTimeline(claims, profile),
+    [claims, profile]
+  );
+  const trend = ESGCalculationEngine.getTimelineTrend(timeline);
+
+  const trendChip = {
+    improving: { label: 'Improving', color: 'success' as const, icon: <TrendingUp /> },
+    declining: { label: 'Declining', color: 'error' as const, icon: <TrendingDown /> },
+    stable: { label: 'Stable', color: 'default' as const, icon: <TrendingFlat /> },
+  }[trend.direction];
+
+  return (
+    <Card sx={{ mb: 3 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2 }}>
+          <Typography variant="h6" sx={{ fontWeight: 600, display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Timeline color="primary" />
+            ESG Score Timeline
+          </Typography>
+          {timeline.length > 1 && (
+            <Chip
+              icon={trendChip.icon}
+              label={`${trendChip.label} (${trend.change >= 0 ? '+' : ''}${Math.round(trend.change)} pts)`}
+              color={trendChip.color}
+              size="small"
+            />
+          )}
+        </Box>
+
+        {timeline.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No dated claims are available to build a score history.
+          </Typography>
+        ) : (
+          <>
+            <LineChart
+              height={300}
+              xAxis={[{
+                data: timeline.map(point => point.date),
+                scaleType: 'time',
+                valueFormatter: (date: Date) => transformUtils.formatDate(date),
+              }]}
+              yAxis={[{ min: 0, max: 100 }]}
+              series={[
+                { data: timeline.map(point => Math.round(point.overallPercentage)), label: 'Overall', color: '#2563eb' },
+                { data: timeline.map(point => Math.round(point.environmentalScore)), label: 'Environmental', color: '#10b981' },
+                { data: timeline.map(point => Math.round(point.socialScore)), label: 'Social', color: '#f59e0b' },
+                { data: timeline.map(point => Math.round(point.governanceScore)), label: 'Governance', color: '#8b5cf6' },
+              ]}
+            />
+            <Typography variant="caption" color="text.secondary">
+              Each point recomputes the score from the claims in effect on that date (effective date, observed date or creation date),
+              using the {profile.name} v{profile.version} methodology.
+            </Typography>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ScoreTimeline;
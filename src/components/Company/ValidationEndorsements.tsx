@@ -29,19 +29,53 @@ import {
   Twitter,
   Language,
   Business,
+  RateReview,
 } from '@mui/icons-material';
+import type { Claim, Validator } from '../../types';
 import type { ValidationMetrics } from '../../services/esgCalculations';
+import ValidationForm from './ValidationForm';
 
 interface ValidationEndorsementsProps {
   validationMetrics: ValidationMetrics;
   companyName?: string;
+  claims?: Claim[];
+  onValidationAdded?: (claimId: number, validator: Validator) => void;
 }
 
 const ValidationEndorsements: React.FC<ValidationEndorsementsProps> = ({
   validationMetrics,
-  companyName = 'Company'
+  companyName = 'Company',
+  claims = [],
+  onValidationAdded
 }) => {
   const [showAllValidations, setShowAllValidations] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const canValidate = Boolean(onValidationAdded) && claims.length > 0;
+
+  const handleValidationAdded = (claimId: number, validator: Validator) => {
+    onValidationAdded?.(claimId, validator);
+    setShowForm(false);
+  };
+
+  const validateButton = canValidate && !showForm && (
+    <Button
+      size="small"
+      variant="outlined"
+      startIcon={<RateReview />}
+      onClick={() => setShowForm(true)}
+      sx={{ textTransform: 'none' }}
+    >
+      Endorse or Dispute
+    </Button>
+  );
+
+  const validationForm = canValidate && showForm && (
+    <ValidationForm
+      claims={claims}
+      onValidationAdded={handleValidationAdded}
+      onCancel={() => setShowForm(false)}
+    />
+  );
   
   const {
     totalValidations,
@@ -115,15 +149,19 @@ const ValidationEndorsements: React.FC<ValidationEndorsementsProps> = ({
     return (
       <Card sx={{ mb: 3 }}>
         <CardContent>
-          <Typography variant="h6" gutterBottom sx={{ 
-            fontWeight: 600, 
-            display: 'flex', 
-            alignItems: 'center', 
-            gap: 1 
-          }}>
-            <Verified color="action" />
-            Validation & Endorsements
-          </Typography>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+            <Typography variant="h6" sx={{ 
+              fontWeight: 600, 
+              display: 'flex', 
+              alignItems: 'center', 
+              gap: 1 
+            }}>
+              <Verified color="action" />
+              Validation & Endorsements
+            </Typography>
+            {validateButton}
+          </Box>
+          {validationForm}
           <Box sx={{ 
             textAlign: 'center', 
             py: 4,
@@ -145,15 +183,19 @@ const ValidationEndorsements: React.FC<ValidationEndorsementsProps> = ({
   return (
     <Card sx={{ mb: 3 }}>
       <CardContent>
-        <Typography variant="h6" gutterBottom sx={{ 
-          fontWeight: 600, 
-          display: 'flex', 
-          alignItems: 'center', 
-          gap: 1 
-        }}>
-          <Verified color="success" />
-          Validation & Endorsements
-        </Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+          <Typography variant="h6" sx={{ 
+            fontWeight: 600, 
+            display: 'flex', 
+            alignItems: 'center', 
+            gap: 1 
+          }}>
+            <Verified color="success" />
+            Validation & Endorsements
+          </Typography>
+          {validateButton}
+        </Box>
+        {validationForm}
 
         {/* Validation Summary Stats */}
         <Box sx={{ mb: 3, p: 2, bgcolor: 'grey.50', borderRadius: 2 }}>
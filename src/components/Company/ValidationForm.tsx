@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  TextField,
+  MenuItem,
+  Rating,
+  Typography,
+  Alert,
+  Chip,
+  Grid,
+  CircularProgress,
+} from '@mui/material';
+import { ThumbUp, ThumbDown, Send } from '@mui/icons-material';
+import type { Claim, NewValidation, NewValidationErrors, Validator } from '../../types';
+import { useAddValidation } from '../../hooks';
+import { validationUtils, transformUtils } from '../../services/utils';
+
+interface ValidationFormProps {
+  claims: Claim[];
+  onValidationAdded: (claimId: number, validator: Validator) => void;
+  onCancel?: () => void;
+}
+
+const EMPTY_VALIDATION: NewValidation = {
+  name: '',
+  role: '',
+  organization: '',
+  rating: 0,
+  statement: '',
+};
+
+// Same bands as the endorsement metrics: 4-5 endorse, 3 neutral, 1-2 dispute
+const getStance = (rating: number) => {
+  if (rating >= 4) return { label: 'Endorsement', color: 'success' as const, icon: <ThumbUp /> };
+  if (rating === 3) return { label: 'Neutral', color: 'primary' as const, icon: undefined };
+  if (rating >= 1) return { label: 'Dispute', color: 'error' as const, icon: <ThumbDown /> };
+  return null;
+};
+
+const ValidationForm: React.FC<ValidationFormProps> = ({ claims, onValidationAdded, onCancel }) => {
+  const { addValidation, error, isLoading, isError } = useAddValidation();
+  const [claimId, setClaimId] = useState<number>(claims[0]?.id ?? 0);
+  const [validation, setValidation] = useState<NewValidation>(EMPTY_VALIDATION);
+  const [errors, setErrors] = useState<NewValidationErrors>({});
+
+  const stance = getStance(validation.rating);
+
+  const updateField = <K extends keyof NewValidation>(field: K, value: NewValidation[K]) => {
+    setValidation(prev => ({ ...prev, [field]: value }));
+    setErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const trimmed: NewValidation = {
+      name: validation.name.trim(),
+      role: validation.role.trim(),
+      organization: validation.organization.trim(),
+      rating: validation.rating,
+      statement: validation.statement.trim(),
+    };
+    const validationErrors = validationUtils.validateNewValidation(trimmed);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    const validator = await addValidation(claimId, trimmed);
+    if (validator) {
+      onValidationAdded(claimId, validator);
+      setValidation(EMPTY_VALIDATION);
+    }
+  };
+
+  return (
+    <Box
+      component="form"
+      onSubmit={handleSubmit}
+      sx={{ p: 3, mb: 3, border: '1px solid', borderColor: 'primary.light', borderRadius: 2, bgcolor: 'background.paper' }}
+    >
+      <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 600 }}>
+        Endorse or Dispute a Claim
+      </Typography>
+
+      {isError && error && (
+        <Alert severity="error" sx={{ mb: 2, borderRadius: 2 }}>
+          {error.message}
+        </Alert>
+      )}
+
+      <Grid container spacing={2}>
+        {claims.length > 1 && (
+          <Grid item xs={12}>
+            <TextField
+              select
+              fullWidth
+              size="small"
+              label="Claim"
+              value={claimId}
+              onChange={(e) => setClaimId(Number(e.target.value))}
+            >
+              {claims.map(claim => (
+                <MenuItem key={claim.id} value={claim.id}>
+                  #{claim.id} · {claim.aspect || claim.claim} · {claim.author || 'Unknown author'} ({transformUtils.formatDate(claim.createdAt)})
+                </MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+        )}
+
+        <Grid item xs={12}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+            <Rating
+              value={validation.rating}
+              onChange={(_, value) => updateField('rating', value ?? 0)}
+              size="large"
+            />
+            {stance && (
+              <Chip icon={stance.icon} label={stance.label} color={stance.color} size="small" variant="outlined" />
+            )}
+          </Box>
+          {errors.rating && (
+            <Typography variant="caption" color="error">{errors.rating}</Typography>
+          )}
+        </Grid>
+
+        <Grid item xs={12} sm={4}>
+          <TextField
+            fullWidth
+            size="small"
+            label="Name"
+            value={validation.name}
+            onChange={(e) => updateField('name', e.target.value)}
+            error={Boolean(errors.name)}
+            helperText={errors.name}
+          />
+        </Grid>
+        <Grid item xs={12} sm={4}>
+          <TextField
+            fullWidth
+            size="small"
+            label="Role"
+            placeholder="e.g. ESG Analyst"
+            value={validation.role}
+            onChange={(e) => updateField('role', e.target.value)}
+            error={Boolean(errors.role)}
+            helperText={errors.role}
+          />
+        </Grid>
+        <Grid item xs={12} sm={4}>
+          <TextField
+            fullWidth
+            size="small"
+            label="Organization"
+            value={validation.organization}
+            onChange={(e) => updateField('organization', e.target.value)}
+            error={Boolean(errors.organization)}
+            helperText={errors.organization}
+          />
+        </Grid>
+        <Grid item xs={12}>
+          <TextField
+            fullWidth
+            multiline
+            minRows={2}
+            size="small"
+            label="Statement"
+            placeholder="Why do you endorse or dispute this claim?"
+            value={validation.statement}
+            onChange={(e) => updateField('statement', e.target.value)}
+            error={Boolean(errors.statement)}
+            helperText={errors.statement}
+          />
+        </Grid>
+      </Grid>
+
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, mt: 2 }}>
+        {onCancel && (
+          <Button onClick={onCancel} disabled={isLoading} sx={{ textTransform: 'none' }}>
+            Cancel
+          </Button>
+        )}
+        <Button
+          type="submit"
+          variant="contained"
+          startIcon={isLoading ? <CircularProgress size={18} color="inherit" /> : <Send />}
+          disabled={isLoading || claims.length === 0}
+          sx={{ textTransform: 'none' }}
+        >
+          {isLoading ? 'Submitting...' : 'Submit Validation'}
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+export default ValidationForm;
@@ -4,3 +4,13 @@ export { default as CompanyGrid } from './CompanyGrid';
 export { default as CompanyDetails } from './CompanyDetails';
 export { default as ValidationEndorsements } from './ValidationEndorsements';
 export { default as ESGAssessment } from './ESGAssessment';
+export { default as ScoreTimeline } from './ScoreTimeline';
+export { default as ValidationForm } from './ValidationForm';
+export { default as ClaimVerificationBadge } from './ClaimVerificationBadge';
+export { default as ClaimProofList } from './ClaimProofList';
+export { default as CredentialImportDialog } from './CredentialImportDialog';
+export { default as CompanyFilterPanel } from './CompanyFilterPanel';
+export { default as CompanyReport } from './CompanyReport';
+export { default as CompanyTable } from './CompanyTable';
+export { default as DataQualityReport } from './DataQualityReport';
+export { default as PartialDataChip } from './PartialDataChip';
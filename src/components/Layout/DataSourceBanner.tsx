@@ -0,0 +1,107 @@
+import React from 'react';
+import { Alert, Box, Button, Chip, CircularProgress, Typography } from '@mui/material';
+import type { AlertColor } from '@mui/material';
+import { CloudDone, CloudOff, CloudQueue, ReportGmailerrorred, Science, Sync } from '@mui/icons-material';
+import { useDataSource, useRejectionReport, useSyncStatus } from '../../hooks';
+import { OptionSelector, RejectionReportDialog } from '../Common';
+import { transformUtils } from '../../services/utils';
+import { DATA_SOURCE_LABELS } from '../../services/dataSource';
+import { isBrowserOffline } from '../../services/syncStatus';
+
+const formatSyncTime = (date: Date | null): string => {
+  if (!date) return 'never';
+  const sameDay = date.toDateString() === new Date().toDateString();
+  const time = date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  return sameDay ? `today at ${time}` : `${transformUtils.formatDate(date)} at ${time}`;
+};
+
+// Banner on every view saying which source produced the numbers on screen
+const DataSourceBanner: React.FC = () => {
+  const { mode, option, modes, setMode } = useDataSource();
+  const { source, online, lastSyncedAt, syncing, lastError, sync } = useSyncStatus();
+  const { count: rejectedCount } = useRejectionReport();
+  const [reportOpen, setReportOpen] = React.useState(false);
+
+  let severity: AlertColor = 'info';
+  let icon = <CloudQueue />;
+  let title = `${option.label} mode`;
+  let message = 'Connecting to the LinkedTrust backend…';
+
+  if (mode === 'mock') {
+    severity = 'warning';
+    icon = <Science />;
+    title = DATA_SOURCE_LABELS.mock;
+    message = 'Mock mode is on, so every number comes from the bundled demo dataset, not the LinkedTrust backend.';
+  } else if (source === 'mock') {
+    severity = 'error';
+    icon = <Science />;
+    title = DATA_SOURCE_LABELS.mock;
+    message = 'The backend could not be reached, so hybrid mode is showing the bundled demo dataset. These are not real ratings.';
+  } else if (source === 'offline-store') {
+    severity = 'warning';
+    icon = <CloudOff />;
+    title = isBrowserOffline() ? 'Offline' : online ? 'Reconnected' : 'Backend unreachable';
+    message = `${DATA_SOURCE_LABELS['offline-store']} saved on this device, last synced ${formatSyncTime(lastSyncedAt)}.`;
+  } else if (source === 'network') {
+    severity = 'success';
+    icon = <CloudDone />;
+    title = DATA_SOURCE_LABELS.network;
+    message = `From the LinkedTrust backend${lastSyncedAt ? `, last synced ${formatSyncTime(lastSyncedAt)}` : ''}.`;
+  } else if (!online) {
+    severity = 'warning';
+    icon = <CloudOff />;
+    title = isBrowserOffline() ? 'Offline' : 'Backend unreachable';
+    message = 'Nothing is saved on this device yet.';
+  }
+
+  return (
+    <>
+      <Alert
+        severity={severity}
+        icon={icon}
+        square
+        sx={{ alignItems: 'center', py: 0 }}
+        action={
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, displayPrint: 'none' }}>
+            {rejectedCount > 0 && (
+              <Chip
+                icon={<ReportGmailerrorred />}
+                label={`${rejectedCount} rejected record${rejectedCount === 1 ? '' : 's'}`}
+                color="error"
+                size="small"
+                onClick={() => setReportOpen(true)}
+              />
+            )}
+            {mode !== 'mock' && (
+              <Button
+                color="inherit"
+                size="small"
+                startIcon={syncing ? <CircularProgress size={14} color="inherit" /> : <Sync />}
+                disabled={syncing}
+                onClick={() => { void sync(); }}
+                sx={{ textTransform: 'none' }}
+              >
+                {syncing ? 'Syncing…' : 'Sync now'}
+              </Button>
+            )}
+            <OptionSelector
+              label="Data Source"
+              value={mode}
+              options={modes}
+              onChange={setMode}
+              minWidth={140}
+            />
+          </Box>
+        }
+      >
+        <Typography variant="body2">
+          <strong>{title}:</strong> {message}
+          {lastError && !syncing && ` (${lastError})`}
+        </Typography>
+      </Alert>
+      <RejectionReportDialog open={reportOpen} onClose={() => setReportOpen(false)} />
+    </>
+  );
+};
+
+export default DataSourceBanner;
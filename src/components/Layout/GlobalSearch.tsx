@@ -0,0 +1,214 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Box,
+  TextField,
+  InputAdornment,
+  Popper,
+  Paper,
+  List,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  ListSubheader,
+  Typography,
+  CircularProgress,
+  ClickAwayListener,
+} from '@mui/material';
+import {
+  Search,
+  Business,
+  Description,
+  VerifiedUser,
+} from '@mui/icons-material';
+import { useGlobalSearch } from '../../hooks';
+import {
+  MIN_SEARCH_LENGTH,
+  SEARCH_GROUP_LABELS,
+  SEARCH_GROUP_ORDER,
+  type HighlightSegment,
+  type SearchResult,
+  type SearchResultGroup,
+} from '../../services/globalSearch';
+
+const GROUP_ICONS: Record<SearchResultGroup, React.ReactElement> = {
+  companies: <Business fontSize="small" />,
+  claims: <Description fontSize="small" />,
+  validators: <VerifiedUser fontSize="small" />,
+};
+
+const Highlighted: React.FC<{ segments: HighlightSegment[] }> = ({ segments }) => (
+  <>
+    {segments.map((segment, index) =>
+      segment.match ? (
+        <Box
+          key={index}
+          component="mark"
+          sx={{ backgroundColor: 'rgba(37, 99, 235, 0.15)', color: 'inherit', fontWeight: 600, borderRadius: 0.5 }}
+        >
+          {segment.text}
+        </Box>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+const GlobalSearch: React.FC = () => {
+  const navigate = useNavigate();
+  const { term, setTerm, results, isSearching, hasQuery, isError } = useGlobalSearch();
+  const anchorRef = React.useRef<HTMLDivElement>(null);
+  const [open, setOpen] = React.useState(false);
+  const [activeIndex, setActiveIndex] = React.useState(-1);
+
+  // Reset the keyboard selection whenever the result list changes
+  React.useEffect(() => {
+    setActiveIndex(results.length > 0 ? 0 : -1);
+  }, [results]);
+
+  const selectResult = (result: SearchResult) => {
+    navigate(result.path);
+    setOpen(false);
+    setTerm('');
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setOpen(true);
+        setActiveIndex(index => (results.length === 0 ? -1 : (index + 1) % results.length));
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        setActiveIndex(index => (results.length === 0 ? -1 : (index - 1 + results.length) % results.length));
+        break;
+      case 'Enter':
+        if (activeIndex >= 0 && results[activeIndex]) {
+          event.preventDefault();
+          selectResult(results[activeIndex]);
+        }
+        break;
+      case 'Escape':
+        setOpen(false);
+        break;
+    }
+  };
+
+  const showPopper = open && term.trim().length >= MIN_SEARCH_LENGTH;
+
+  return (
+    <ClickAwayListener onClickAway={() => setOpen(false)}>
+      <Box ref={anchorRef} sx={{ width: { xs: '100%', md: 280 }, mr: { md: 2 } }}>
+        <TextField
+          size="small"
+          fullWidth
+          placeholder="Search companies, claims, validators..."
+          value={term}
+          onChange={(event) => {
+            setTerm(event.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onKeyDown={handleKeyDown}
+          inputProps={{
+            role: 'combobox',
+            'aria-label': 'Global search',
+            'aria-expanded': showPopper,
+            'aria-controls': 'global-search-results',
+            'aria-activedescendant': activeIndex >= 0 && results[activeIndex] ? `global-search-${results[activeIndex].id}` : undefined,
+          }}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <Search color="action" fontSize="small" />
+              </InputAdornment>
+            ),
+            endAdornment: isSearching && hasQuery ? (
+              <InputAdornment position="end">
+                <CircularProgress size={16} />
+              </InputAdornment>
+            ) : undefined,
+          }}
+          sx={{
+            '& .MuiOutlinedInput-root': {
+              borderRadius: 2,
+              backgroundColor: 'background.paper',
+            },
+          }}
+        />
+
+        <Popper
+          open={showPopper}
+          anchorEl={anchorRef.current}
+          placement="bottom-start"
+          sx={{ zIndex: (theme) => theme.zIndex.appBar + 1, width: { xs: 'calc(100% - 32px)', sm: 420 } }}
+        >
+          <Paper elevation={4} sx={{ mt: 1, maxHeight: 480, overflowY: 'auto' }}>
+            {results.length === 0 ? (
+              <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+                {isSearching ? 'Searching...' : isError ? 'Search is currently unavailable.' : `No results for "${term.trim()}"`}
+              </Typography>
+            ) : (
+              <List id="global-search-results" role="listbox" dense disablePadding>
+                {SEARCH_GROUP_ORDER.map(group => {
+                  const groupResults = results.filter(result => result.group === group);
+                  if (groupResults.length === 0) return null;
+
+                  return (
+                    <li key={group}>
+                      <List disablePadding>
+                        <ListSubheader sx={{ lineHeight: '32px', fontWeight: 600 }}>
+                          {SEARCH_GROUP_LABELS[group]}
+                        </ListSubheader>
+                        {groupResults.map(result => {
+                          const index = results.indexOf(result);
+                          return (
+                            <ListItemButton
+                              key={result.id}
+                              id={`global-search-${result.id}`}
+                              role="option"
+                              aria-selected={index === activeIndex}
+                              selected={index === activeIndex}
+                              onMouseEnter={() => setActiveIndex(index)}
+                              onClick={() => selectResult(result)}
+                              sx={{ alignItems: 'flex-start' }}
+                            >
+                              <ListItemIcon sx={{ minWidth: 32, mt: 0.5 }}>
+                                {GROUP_ICONS[result.group]}
+                              </ListItemIcon>
+                              <ListItemText
+                                primary={<Highlighted segments={result.title} />}
+                                secondary={
+                                  <>
+                                    {result.subtitle && (
+                                      <Typography component="span" variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                                        {result.subtitle}
+                                      </Typography>
+                                    )}
+                                    {result.snippet && (
+                                      <Typography component="span" variant="body2" color="text.secondary" sx={{ display: 'block' }}>
+                                        <Highlighted segments={result.snippet} />
+                                      </Typography>
+                                    )}
+                                  </>
+                                }
+                              />
+                            </ListItemButton>
+                          );
+                        })}
+                      </List>
+                    </li>
+                  );
+                })}
+              </List>
+            )}
+          </Paper>
+        </Popper>
+      </Box>
+    </ClickAwayListener>
+  );
+};
+
+export default GlobalSearch;
@@ -14,8 +14,12 @@ import {
   Dashboard,
   Search,
   QrCodeScanner,
+  CompareArrows,
+  RateReview,
+  PieChart,
 } from '@mui/icons-material';
 import { useNavigate, useLocation } from 'react-router-dom';
+import GlobalSearch from './GlobalSearch';
 
 interface HeaderProps {
   onMenuClick?: () => void;
@@ -29,6 +33,9 @@ const Header: React.FC<HeaderProps> = () => {
   const navigationItems = [
     { label: 'Dashboard', path: '/', icon: <Dashboard /> },
     { label: 'Search', path: '/companies', icon: <Search /> },
+    { label: 'Compare', path: '/compare', icon: <CompareArrows /> },
+    { label: 'Rate', path: '/rate', icon: <RateReview /> },
+    { label: 'Portfolios', path: '/portfolios', icon: <PieChart /> },
     { label: 'Scan Product', path: '/scan', icon: <QrCodeScanner /> },
   ];
 
@@ -46,7 +53,7 @@ const Header: React.FC<HeaderProps> = () => {
   };
 
   return (
-    <AppBar position="static" elevation={1}>
+    <AppBar position="static" elevation={1} sx={{ displayPrint: 'none' }}>
       <Toolbar sx={{ px: { xs: 2, sm: 3 } }}>
         {/* Logo and Brand */}
         <Box sx={{ display: 'flex', alignItems: 'center', flexGrow: 0, mr: 4 }}>
@@ -81,6 +88,11 @@ const Header: React.FC<HeaderProps> = () => {
           </Typography>
         </Box>
 
+        {/* Global Search */}
+        <Box sx={{ display: { xs: 'none', sm: 'block' } }}>
+          <GlobalSearch />
+        </Box>
+
         {/* Navigation Items - Desktop */}
         <Box sx={{ flexGrow: 1, display: { xs: 'none', md: 'flex' }, gap: 1, justifyContent: 'flex-end' }}>
           {navigationItems.map((item) => (
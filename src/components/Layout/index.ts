@@ -1,3 +1,5 @@
 // Export layout components
 export { default as Layout } from './Layout';
 export { default as Header } from './Header';
+export { default as GlobalSearch } from './GlobalSearch';
+export { default as DataSourceBanner } from './DataSourceBanner';
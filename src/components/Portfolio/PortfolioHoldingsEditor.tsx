@@ -0,0 +1,212 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  Autocomplete,
+  TextField,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  IconButton,
+  Tooltip,
+  Typography,
+  Alert,
+  InputAdornment,
+} from '@mui/material';
+import { Add, Delete, UploadFile, Balance } from '@mui/icons-material';
+import { transformUtils } from '../../services/utils';
+import type { CompanyResolver } from '../../services/companyResolver';
+import {
+  PORTFOLIO_FILE_ACCEPT,
+  addHolding,
+  importPortfolioFile,
+  normalizeHoldingWeights,
+  type PortfolioHolding,
+  type PortfolioImportResult,
+} from '../../services/portfolio';
+
+interface PortfolioHoldingsEditorProps {
+  holdings: PortfolioHolding[];
+  companies: Array<{ key: string; subject: string }>;
+  resolver: CompanyResolver;
+  onChange: (holdings: PortfolioHolding[]) => void;
+}
+
+const DEFAULT_WEIGHT = 10;
+
+const PortfolioHoldingsEditor: React.FC<PortfolioHoldingsEditorProps> = ({
+  holdings,
+  companies,
+  resolver,
+  onChange,
+}) => {
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const [selected, setSelected] = React.useState<{ key: string; subject: string } | null>(null);
+  const [weight, setWeight] = React.useState(String(DEFAULT_WEIGHT));
+  const [importResult, setImportResult] = React.useState<PortfolioImportResult | null>(null);
+  const [importError, setImportError] = React.useState<string | null>(null);
+
+  const totalWeight = holdings.reduce((sum, holding) => sum + holding.weight, 0);
+  const availableCompanies = companies.filter(company => !holdings.some(holding => holding.companyKey === company.key));
+
+  const handleAdd = () => {
+    const parsed = parseFloat(weight);
+    if (!selected || !Number.isFinite(parsed) || parsed <= 0) return;
+    onChange(addHolding(holdings, { companyKey: selected.key, subject: selected.subject, weight: parsed }));
+    setSelected(null);
+    setWeight(String(DEFAULT_WEIGHT));
+  };
+
+  const handleWeightChange = (companyKey: string, value: string) => {
+    const parsed = parseFloat(value);
+    onChange(holdings.map(holding => holding.companyKey === companyKey
+      ? { ...holding, weight: Number.isFinite(parsed) && parsed >= 0 ? parsed : 0 }
+      : holding
+    ));
+  };
+
+  const handleRemove = (companyKey: string) => {
+    onChange(holdings.filter(holding => holding.companyKey !== companyKey));
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setImportError(null);
+    try {
+      const result = await importPortfolioFile(file, resolver);
+      onChange(result.holdings.reduce(addHolding, holdings));
+      setImportResult(result);
+    } catch (err) {
+      setImportResult(null);
+      setImportError(err instanceof Error ? err.message : 'Failed to read the holdings file');
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap', mb: 2 }}>
+        <Autocomplete
+          sx={{ flexGrow: 1, minWidth: 260 }}
+          options={availableCompanies}
+          value={selected}
+          onChange={(_, value) => setSelected(value)}
+          getOptionLabel={option => transformUtils.extractCompanyName(option.subject)}
+          isOptionEqualToValue={(option, value) => option.key === value.key}
+          renderInput={(params) => (
+            <TextField {...params} label="Company" placeholder="Add a holding..." size="small" />
+          )}
+        />
+        <TextField
+          label="Weight"
+          type="number"
+          size="small"
+          value={weight}
+          onChange={(e) => setWeight(e.target.value)}
+          sx={{ width: 120 }}
+          slotProps={{ input: { endAdornment: <InputAdornment position="end">%</InputAdornment> } }}
+        />
+        <Button variant="contained" startIcon={<Add />} onClick={handleAdd} disabled={!selected}>
+          Add
+        </Button>
+        <Button variant="outlined" startIcon={<UploadFile />} onClick={() => fileInputRef.current?.click()}>
+          Import CSV
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={PORTFOLIO_FILE_ACCEPT}
+          hidden
+          onChange={handleImport}
+        />
+      </Box>
+
+      {importError && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setImportError(null)}>
+          {importError}
+        </Alert>
+      )}
+
+      {importResult && (
+        <Alert
+          severity={importResult.unmatched.length > 0 ? 'warning' : 'success'}
+          sx={{ mb: 2 }}
+          onClose={() => setImportResult(null)}
+        >
+          Imported {importResult.holdings.length} holding{importResult.holdings.length === 1 ? '' : 's'}.
+          {importResult.unmatched.length > 0 && (
+            <> Skipped: {importResult.unmatched.map(entry => `${entry.identifier} (row ${entry.row}: ${entry.reason})`).join(', ')}</>
+          )}
+        </Alert>
+      )}
+
+      {holdings.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+          No holdings yet. Add companies above or import a CSV with identifier and weight columns
+          (ISIN, ticker or company name).
+        </Typography>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ fontWeight: 600 }}>Company</TableCell>
+                <TableCell align="right" sx={{ fontWeight: 600, width: 140 }}>Weight</TableCell>
+                <TableCell align="right" sx={{ fontWeight: 600, width: 90 }}>Share</TableCell>
+                <TableCell sx={{ width: 48 }} />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {holdings.map(holding => (
+                <TableRow key={holding.companyKey} hover>
+                  <TableCell>{transformUtils.extractCompanyName(holding.subject)}</TableCell>
+                  <TableCell align="right">
+                    <TextField
+                      type="number"
+                      size="small"
+                      value={holding.weight}
+                      onChange={(e) => handleWeightChange(holding.companyKey, e.target.value)}
+                      slotProps={{ htmlInput: { min: 0, step: 0.5, style: { textAlign: 'right' } } }}
+                      sx={{ width: 110 }}
+                    />
+                  </TableCell>
+                  <TableCell align="right">
+                    {totalWeight > 0 ? `${((holding.weight / totalWeight) * 100).toFixed(1)}%` : '—'}
+                  </TableCell>
+                  <TableCell>
+                    <Tooltip title="Remove holding">
+                      <IconButton size="small" onClick={() => handleRemove(holding.companyKey)}>
+                        <Delete fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell sx={{ fontWeight: 600 }}>Total</TableCell>
+                <TableCell align="right" sx={{ fontWeight: 600 }}>{Number(totalWeight.toFixed(2))}</TableCell>
+                <TableCell align="right" colSpan={2}>
+                  <Button
+                    size="small"
+                    startIcon={<Balance />}
+                    onClick={() => onChange(normalizeHoldingWeights(holdings))}
+                    disabled={totalWeight <= 0 || Math.abs(totalWeight - 100) < 0.01}
+                  >
+                    Scale to 100%
+                  </Button>
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Box>
+  );
+};
+
+export default PortfolioHoldingsEditor;
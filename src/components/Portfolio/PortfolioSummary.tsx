@@ -0,0 +1,180 @@
+import React from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Grid,
+  Typography,
+  Rating,
+  LinearProgress,
+  List,
+  ListItemButton,
+  ListItemText,
+  Alert,
+} from '@mui/material';
+import { Assessment, TrendingDown } from '@mui/icons-material';
+import { BarChart } from '@mui/x-charts/BarChart';
+import { useNavigate } from 'react-router-dom';
+import { GradeChip } from '../Common';
+import { transformUtils } from '../../services/utils';
+import type { CompanyResolver } from '../../services/companyResolver';
+import { buildCompanyPath } from '../../services/companyResolver';
+import type { PortfolioMetrics } from '../../services/portfolio';
+
+interface PortfolioSummaryProps {
+  metrics: PortfolioMetrics;
+  resolver: CompanyResolver;
+}
+
+const PILLARS = [
+  { key: 'environmentalScore', label: 'Environmental', color: '#10b981' },
+  { key: 'socialScore', label: 'Social', color: '#f59e0b' },
+  { key: 'governanceScore', label: 'Governance', color: '#8b5cf6' },
+] as const;
+
+const formatShare = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+const PortfolioSummary: React.FC<PortfolioSummaryProps> = ({ metrics, resolver }) => {
+  const navigate = useNavigate();
+
+  const openCompany = (companyKey: string, subject: string) => {
+    navigate(buildCompanyPath(resolver.find(companyKey)?.slug ?? subject));
+  };
+
+  return (
+    <Box>
+      {metrics.missing.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 3, borderRadius: 2 }}>
+          {formatShare(1 - metrics.coverage)} of the portfolio weight has no ESG data and is excluded from the aggregate:{' '}
+          {metrics.missing.map(holding => transformUtils.extractCompanyName(holding.subject)).join(', ')}
+        </Alert>
+      )}
+
+      <Grid container spacing={3}>
+        {/* Aggregate score */}
+        <Grid item xs={12} md={4}>
+          <Card sx={{ height: '100%' }}>
+            <CardContent>
+              <Typography variant="h6" sx={{ fontWeight: 600, display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+                <Assessment color="primary" />
+                Portfolio ESG Score
+              </Typography>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 1 }}>
+                <Typography variant="h3" sx={{ fontWeight: 700 }}>
+                  {Math.round(metrics.overallPercentage)}%
+                </Typography>
+                <GradeChip grade={metrics.overallGrade} />
+              </Box>
+              <Rating value={metrics.overallStars} readOnly precision={0.5} sx={{ mb: 2 }} />
+              <Typography variant="body2" color="text.secondary">
+                Weighted across {metrics.contributions.length} holding{metrics.contributions.length === 1 ? '' : 's'}
+                {' · '}coverage {formatShare(metrics.coverage)}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                Average confidence {Math.round(metrics.confidenceLevel * 100)}%
+              </Typography>
+            </CardContent>
+          </Card>
+        </Grid>
+
+        {/* Pillar breakdown */}
+        <Grid item xs={12} md={4}>
+          <Card sx={{ height: '100%' }}>
+            <CardContent>
+              <Typography variant="h6" sx={{ fontWeight: 600, mb: 2 }}>
+                Pillar Breakdown
+              </Typography>
+              {PILLARS.map(pillar => {
+                const score = metrics[pillar.key];
+                return (
+                  <Box key={pillar.key} sx={{ mb: 2 }}>
+                    <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
+                      <Typography variant="body2" sx={{ fontWeight: 500 }}>{pillar.label}</Typography>
+                      <Typography variant="body2" sx={{ fontWeight: 600 }}>{Math.round(score)}</Typography>
+                    </Box>
+                    <LinearProgress
+                      variant="determinate"
+                      value={Math.min(100, Math.max(0, score))}
+                      sx={{
+                        height: 8,
+                        borderRadius: 4,
+                        backgroundColor: 'grey.200',
+                        '& .MuiLinearProgress-bar': {
+                          borderRadius: 4,
+                          backgroundColor: pillar.color,
+                        },
+                      }}
+                    />
+                  </Box>
+                );
+              })}
+            </CardContent>
+          </Card>
+        </Grid>
+
+        {/* Grade distribution */}
+        <Grid item xs={12} md={4}>
+          <Card sx={{ height: '100%' }}>
+            <CardContent>
+              <Typography variant="h6" sx={{ fontWeight: 600, mb: 1 }}>
+                Grade Distribution
+              </Typography>
+              <BarChart
+                height={220}
+                xAxis={[{ data: metrics.gradeDistribution.map(bucket => bucket.grade), scaleType: 'band' }]}
+                yAxis={[{ min: 0, max: 100 }]}
+                series={[{
+                  data: metrics.gradeDistribution.map(bucket => Math.round(bucket.weight * 1000) / 10),
+                  label: '% of weight',
+                  color: '#2563eb',
+                  valueFormatter: (value, { dataIndex }) => {
+                    const bucket = metrics.gradeDistribution[dataIndex];
+                    return `${value}% (${bucket.count} compan${bucket.count === 1 ? 'y' : 'ies'})`;
+                  },
+                }]}
+                slotProps={{ legend: { hidden: true } }}
+              />
+            </CardContent>
+          </Card>
+        </Grid>
+
+        {/* Worst contributors */}
+        <Grid item xs={12}>
+          <Card>
+            <CardContent>
+              <Typography variant="h6" sx={{ fontWeight: 600, display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                <TrendingDown color="error" />
+                Worst Contributors
+              </Typography>
+              {metrics.worstContributors.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">
+                  No holding pulls the portfolio score below its average.
+                </Typography>
+              ) : (
+                <List dense disablePadding>
+                  {metrics.worstContributors.map(entry => (
+                    <ListItemButton
+                      key={entry.holding.companyKey}
+                      onClick={() => openCompany(entry.holding.companyKey, entry.holding.subject)}
+                    >
+                      <ListItemText
+                        primary={transformUtils.extractCompanyName(entry.holding.subject)}
+                        secondary={`${formatShare(entry.normalizedWeight)} of weight · scores ${Math.round(entry.esgMetrics.overallPercentage)}%`}
+                      />
+                      <GradeChip grade={entry.esgMetrics.overallGrade} size="small" sx={{ mr: 2 }} />
+                      <Typography variant="body2" sx={{ fontWeight: 600, color: 'error.main', minWidth: 72, textAlign: 'right' }}>
+                        {entry.impact.toFixed(1)} pts
+                      </Typography>
+                    </ListItemButton>
+                  ))}
+                </List>
+              )}
+            </CardContent>
+          </Card>
+        </Grid>
+      </Grid>
+    </Box>
+  );
+};
+
+export default PortfolioSummary;
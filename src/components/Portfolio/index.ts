@@ -0,0 +1,3 @@
+// Export portfolio components
+export { default as PortfolioHoldingsEditor } from './PortfolioHoldingsEditor';
+export { default as PortfolioSummary } from './PortfolioSummary';
@@ -0,0 +1,184 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Box,
+  Button,
+  Alert,
+  Chip,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  CircularProgress,
+  Link,
+} from '@mui/material';
+import { Upload, Download, CheckCircle, ErrorOutline } from '@mui/icons-material';
+import type { Claim, Node } from '../../types';
+import { useMethodology } from '../../hooks';
+import { GradeChip } from '../Common';
+import {
+  BATCH_FILE_ACCEPT,
+  parseBatchFile,
+  resolveBatch,
+  exportBatchReport,
+  type BatchInputRow,
+} from '../../services/batchLookup';
+import { buildCompanyPath } from '../../services/companyResolver';
+
+interface BatchUploadProps {
+  nodes: Node[];
+  claims: Claim[];
+  disabled?: boolean;
+}
+
+const BatchUpload: React.FC<BatchUploadProps> = ({ nodes, claims, disabled = false }) => {
+  const navigate = useNavigate();
+  const { profile } = useMethodology();
+  const [fileName, setFileName] = React.useState<string | null>(null);
+  const [inputRows, setInputRows] = React.useState<BatchInputRow[]>([]);
+  const [parsing, setParsing] = React.useState(false);
+  const [parseError, setParseError] = React.useState<string | null>(null);
+
+  // Re-resolve whenever the data or methodology changes
+  const results = React.useMemo(
+    () => resolveBatch(inputRows, nodes, claims, profile),
+    [inputRows, nodes, claims, profile]
+  );
+  const unmatchedCount = results.filter(result => result.status === 'unmatched').length;
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setParsing(true);
+    setParseError(null);
+    try {
+      setInputRows(await parseBatchFile(file));
+      setFileName(file.name);
+    } catch (err) {
+      console.error('Failed to read batch file:', err);
+      setInputRows([]);
+      setFileName(null);
+      setParseError(err instanceof Error ? err.message : 'Failed to read the uploaded file');
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap', mb: 2 }}>
+        <Button
+          component="label"
+          variant="contained"
+          startIcon={parsing ? <CircularProgress size={18} color="inherit" /> : <Upload />}
+          disabled={disabled || parsing}
+        >
+          {parsing ? 'Reading File...' : 'Upload CSV or XLSX'}
+          <input type="file" accept={BATCH_FILE_ACCEPT} hidden onChange={handleFileChange} />
+        </Button>
+
+        {results.length > 0 && (
+          <>
+            <Button variant="outlined" startIcon={<Download />} onClick={() => exportBatchReport(results, 'csv')}>
+              Download CSV
+            </Button>
+            <Button variant="outlined" startIcon={<Download />} onClick={() => exportBatchReport(results, 'xlsx')}>
+              Download XLSX
+            </Button>
+          </>
+        )}
+      </Box>
+
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 2 }}>
+        One identifier per row: ISIN, ticker, barcode, product link or company name. A header row such as
+        "identifier", "isin", "ticker" or "name" selects that column; otherwise the first column is used.
+      </Typography>
+
+      {parseError && (
+        <Alert severity="error" sx={{ mb: 2, borderRadius: 2 }}>
+          {parseError}
+        </Alert>
+      )}
+
+      {fileName && results.length > 0 && (
+        <>
+          <Alert severity={unmatchedCount > 0 ? 'warning' : 'success'} sx={{ mb: 2, borderRadius: 2 }}>
+            {fileName}: {results.length - unmatchedCount} of {results.length} rows matched
+            {unmatchedCount > 0 && ` — ${unmatchedCount} unmatched ${unmatchedCount === 1 ? 'row is' : 'rows are'} flagged below`}
+            {' '}(scored with {profile.name} v{profile.version})
+          </Alert>
+
+          <TableContainer component={Paper} variant="outlined" sx={{ maxHeight: 480 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Row</TableCell>
+                  <TableCell>Identifier</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell>Company</TableCell>
+                  <TableCell align="center">Score</TableCell>
+                  <TableCell align="center">Grade</TableCell>
+                  <TableCell align="center">E / S / G</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {results.map(result => (
+                  <TableRow
+                    key={result.row}
+                    sx={{ bgcolor: result.status === 'unmatched' ? 'rgba(239, 68, 68, 0.06)' : 'transparent' }}
+                  >
+                    <TableCell>{result.row}</TableCell>
+                    <TableCell>
+                      <Typography variant="body2" sx={{ fontWeight: 500 }}>{result.identifier}</Typography>
+                      <Typography variant="caption" color="text.secondary">{result.identifierType}</Typography>
+                    </TableCell>
+                    <TableCell>
+                      {result.status === 'matched' ? (
+                        <Chip icon={<CheckCircle />} label="Matched" color="success" size="small" variant="outlined" />
+                      ) : (
+                        <Chip icon={<ErrorOutline />} label="Unmatched" color="error" size="small" variant="outlined" />
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {result.subject && result.companySlug ? (
+                        <Link component="button" variant="body2" onClick={() => navigate(buildCompanyPath(result.companySlug as string))}>
+                          {result.subject}
+                        </Link>
+                      ) : (
+                        <Typography variant="body2" color="text.secondary">{result.reason}</Typography>
+                      )}
+                      {result.matchedNode && result.subject && (
+                        <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                          via {result.matchedNode}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell align="center">
+                      {result.esgMetrics ? `${Math.round(result.esgMetrics.overallPercentage)}%` : '—'}
+                    </TableCell>
+                    <TableCell align="center">
+                      {result.esgMetrics ? <GradeChip grade={result.esgMetrics.overallGrade} size="small" /> : '—'}
+                    </TableCell>
+                    <TableCell align="center">
+                      {result.esgMetrics
+                        ? `${Math.round(result.esgMetrics.environmentalScore)} / ${Math.round(result.esgMetrics.socialScore)} / ${Math.round(result.esgMetrics.governanceScore)}`
+                        : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default BatchUpload;
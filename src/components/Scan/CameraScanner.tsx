@@ -0,0 +1,158 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Box,
+  Button,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Alert,
+  Typography,
+} from '@mui/material';
+import { PhotoCamera, Stop } from '@mui/icons-material';
+import { BrowserMultiFormatReader, type IScannerControls } from '@zxing/browser';
+import { createBarcodeReader } from '../../services/scanService';
+
+interface CameraScannerProps {
+  onDetected: (code: string) => void;
+}
+
+const CameraScanner: React.FC<CameraScannerProps> = ({ onDetected }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const controlsRef = useRef<IScannerControls | null>(null);
+  const cancelledRef = useRef(false);
+  const scanAttemptRef = useRef(0);   // bumped by every start and stop so a stale start can tell
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState<string>('');
+  const [scanning, setScanning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Stop the camera when the scanner unmounts
+  useEffect(() => {
+    cancelledRef.current = false;
+    return () => {
+      cancelledRef.current = true;
+      controlsRef.current?.stop();
+      controlsRef.current = null;
+    };
+  }, []);
+
+  const stopScanning = () => {
+    scanAttemptRef.current += 1;
+    controlsRef.current?.stop();
+    controlsRef.current = null;
+    setScanning(false);
+  };
+
+  const startScanning = async () => {
+    if (!videoRef.current) return;
+    setError(null);
+
+    const attempt = ++scanAttemptRef.current;
+    try {
+      const reader = createBarcodeReader();
+      setScanning(true);
+      const controls = await reader.decodeFromVideoDevice(
+        deviceId || undefined,
+        videoRef.current,
+        (result, _err, controls) => {
+          if (result) {
+            controls.stop();
+            controlsRef.current = null;
+            setScanning(false);
+            onDetected(result.getText());
+          }
+        }
+      );
+
+      // Unmounted or stopped while the camera was starting: nothing else will stop it
+      if (cancelledRef.current || attempt !== scanAttemptRef.current) {
+        controls.stop();
+        return;
+      }
+      controlsRef.current = controls;
+
+      // Device labels are only available once camera permission is granted
+      if (devices.length === 0) {
+        setDevices(await BrowserMultiFormatReader.listVideoInputDevices());
+      }
+    } catch (err) {
+      if (cancelledRef.current) return;
+      console.error('Camera scanning failed:', err);
+      setScanning(false);
+      setError(err instanceof Error && err.name === 'NotAllowedError'
+        ? 'Camera access was denied. Allow camera access or upload an image instead.'
+        : 'No camera could be started on this device. Try uploading an image instead.');
+    }
+  };
+
+  return (
+    <Box>
+      <Box
+        sx={{
+          position: 'relative',
+          width: '100%',
+          aspectRatio: '4 / 3',
+          bgcolor: 'grey.900',
+          borderRadius: 2,
+          overflow: 'hidden',
+          mb: 2,
+        }}
+      >
+        <video
+          ref={videoRef}
+          muted
+          playsInline
+          style={{ width: '100%', height: '100%', objectFit: 'cover', display: scanning ? 'block' : 'none' }}
+        />
+        {!scanning && (
+          <Box sx={{ position: 'absolute', inset: 0, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+            <Typography variant="body2" sx={{ color: 'grey.400' }}>
+              Camera preview appears here
+            </Typography>
+          </Box>
+        )}
+      </Box>
+
+      {error && (
+        <Alert severity="warning" sx={{ mb: 2, borderRadius: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+        {devices.length > 1 && (
+          <FormControl size="small" sx={{ minWidth: 200 }}>
+            <InputLabel id="camera-select-label">Camera</InputLabel>
+            <Select
+              labelId="camera-select-label"
+              label="Camera"
+              value={deviceId}
+              onChange={(e) => setDeviceId(e.target.value)}
+              disabled={scanning}
+            >
+              <MenuItem value="">Default camera</MenuItem>
+              {devices.map((device, index) => (
+                <MenuItem key={device.deviceId} value={device.deviceId}>
+                  {device.label || `Camera ${index + 1}`}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        )}
+
+        {scanning ? (
+          <Button variant="outlined" color="error" startIcon={<Stop />} onClick={stopScanning}>
+            Stop Camera
+          </Button>
+        ) : (
+          <Button variant="contained" startIcon={<PhotoCamera />} onClick={startScanning}>
+            Start Camera
+          </Button>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+export default CameraScanner;
@@ -0,0 +1,3 @@
+// Export scan components
+export { default as CameraScanner } from './CameraScanner';
+export { default as BatchUpload } from './BatchUpload';
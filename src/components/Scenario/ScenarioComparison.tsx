@@ -0,0 +1,135 @@
+import React from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Rating,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import { ArrowForward } from '@mui/icons-material';
+import { GradeChip } from '../Common';
+import type { ScenarioComparison as ScenarioComparisonData } from '../../services/scenario';
+import type { ESGMetrics } from '../../services/esgCalculations';
+
+interface ScenarioComparisonProps {
+  comparison: ScenarioComparisonData;
+}
+
+const ROWS: Array<{ key: keyof ESGMetrics; label: string; scale: number; unit: string }> = [
+  { key: 'overallPercentage', label: 'Overall score', scale: 1, unit: '%' },
+  { key: 'environmentalScore', label: 'Environmental', scale: 1, unit: '' },
+  { key: 'socialScore', label: 'Social', scale: 1, unit: '' },
+  { key: 'governanceScore', label: 'Governance', scale: 1, unit: '' },
+  { key: 'confidenceLevel', label: 'Confidence', scale: 100, unit: '%' },
+];
+
+const formatDelta = (value: number, unit: string = '') => {
+  const rounded = Math.round(value * 10) / 10;
+  if (rounded === 0) return '±0';
+  return `${rounded > 0 ? '+' : ''}${rounded}${unit}`;
+};
+
+const deltaColor = (value: number) => {
+  if (Math.round(value * 10) === 0) return 'text.secondary';
+  return value > 0 ? 'success.main' : 'error.main';
+};
+
+const ScenarioComparison: React.FC<ScenarioComparisonProps> = ({ comparison }) => {
+  const { baseline, scenario, delta } = comparison;
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography variant="h6" sx={{ fontWeight: 600, mb: 2 }}>
+          Baseline vs Scenario
+        </Typography>
+
+        {/* Grade and stars */}
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 3, mb: 3, flexWrap: 'wrap' }}>
+          <Box sx={{ textAlign: 'center' }}>
+            <Typography variant="caption" color="text.secondary">Baseline</Typography>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, justifyContent: 'center' }}>
+              <Typography variant="h4" sx={{ fontWeight: 700 }}>{Math.round(baseline.overallPercentage)}%</Typography>
+              <GradeChip grade={baseline.overallGrade} />
+            </Box>
+            <Rating value={baseline.overallStars} readOnly size="small" />
+          </Box>
+          <ArrowForward color="action" />
+          <Box sx={{ textAlign: 'center' }}>
+            <Typography variant="caption" color="text.secondary">Scenario</Typography>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, justifyContent: 'center' }}>
+              <Typography variant="h4" sx={{ fontWeight: 700 }}>{Math.round(scenario.overallPercentage)}%</Typography>
+              <GradeChip grade={scenario.overallGrade} />
+            </Box>
+            <Rating value={scenario.overallStars} readOnly size="small" />
+          </Box>
+        </Box>
+
+        <Box sx={{ display: 'flex', gap: 1, justifyContent: 'center', mb: 3 }}>
+          <Chip
+            label={delta.gradeSteps === 0 ? 'Grade unchanged' : `Grade ${formatDelta(delta.gradeSteps)} step${Math.abs(delta.gradeSteps) === 1 ? '' : 's'}`}
+            color={delta.gradeSteps > 0 ? 'success' : delta.gradeSteps < 0 ? 'error' : 'default'}
+            size="small"
+          />
+          <Chip
+            label={delta.stars === 0 ? 'Stars unchanged' : `${formatDelta(delta.stars)} star${Math.abs(delta.stars) === 1 ? '' : 's'}`}
+            color={delta.stars > 0 ? 'success' : delta.stars < 0 ? 'error' : 'default'}
+            size="small"
+          />
+        </Box>
+
+        {/* Metric table */}
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ fontWeight: 600 }}>Metric</TableCell>
+              <TableCell align="right" sx={{ fontWeight: 600 }}>Baseline</TableCell>
+              <TableCell align="right" sx={{ fontWeight: 600 }}>Scenario</TableCell>
+              <TableCell align="right" sx={{ fontWeight: 600 }}>Change</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {ROWS.map(row => {
+              const before = (baseline[row.key] as number) * row.scale;
+              const after = (scenario[row.key] as number) * row.scale;
+              return (
+                <TableRow key={row.key}>
+                  <TableCell>{row.label}</TableCell>
+                  <TableCell align="right">{before.toFixed(1)}{row.unit}</TableCell>
+                  <TableCell align="right">{after.toFixed(1)}{row.unit}</TableCell>
+                  <TableCell align="right" sx={{ fontWeight: 600, color: deltaColor(after - before) }}>
+                    {formatDelta(after - before, row.unit)}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            <TableRow>
+              <TableCell>Grade</TableCell>
+              <TableCell align="right">{baseline.overallGrade}</TableCell>
+              <TableCell align="right">{scenario.overallGrade}</TableCell>
+              <TableCell align="right" sx={{ fontWeight: 600, color: deltaColor(delta.gradeSteps) }}>
+                {formatDelta(delta.gradeSteps)}
+              </TableCell>
+            </TableRow>
+            <TableRow>
+              <TableCell>Stars</TableCell>
+              <TableCell align="right">{baseline.overallStars}</TableCell>
+              <TableCell align="right">{scenario.overallStars}</TableCell>
+              <TableCell align="right" sx={{ fontWeight: 600, color: deltaColor(delta.stars) }}>
+                {formatDelta(delta.stars)}
+              </TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ScenarioComparison;
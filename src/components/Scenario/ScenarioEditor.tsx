@@ -0,0 +1,313 @@
+import React from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Slider,
+  Button,
+  Checkbox,
+  TextField,
+  MenuItem,
+  IconButton,
+  Tooltip,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Grid,
+} from '@mui/material';
+import { Add, Delete, RestartAlt } from '@mui/icons-material';
+import type { Claim, ESGCategoryKey } from '../../types';
+import type { MethodologyProfile } from '../../services/methodology';
+import { transformUtils } from '../../services/utils';
+import {
+  SCENARIO_ASPECTS,
+  createHypotheticalClaim,
+  type HypotheticalClaimInput,
+  type Scenario,
+  type ScenarioClaimOverride,
+} from '../../services/scenario';
+
+interface ScenarioEditorProps {
+  subject: string;
+  claims: Claim[];
+  scenario: Scenario;
+  profile: MethodologyProfile;
+  onChange: (scenario: Scenario) => void;
+}
+
+const PILLARS: Array<{ key: ESGCategoryKey; label: string }> = [
+  { key: 'environmental', label: 'Environmental' },
+  { key: 'social', label: 'Social' },
+  { key: 'governance', label: 'Governance' },
+];
+
+const DEFAULT_HYPOTHETICAL: HypotheticalClaimInput = { aspect: 'governance', score: 0.5, confidence: 0.8, statement: '' };
+
+const parseNumber = (value: string, min: number, max: number): number | undefined => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? Math.max(min, Math.min(max, parsed)) : undefined;
+};
+
+const ScenarioEditor: React.FC<ScenarioEditorProps> = ({ subject, claims, scenario, profile, onChange }) => {
+  const [draft, setDraft] = React.useState<HypotheticalClaimInput>(DEFAULT_HYPOTHETICAL);
+
+  const weights = scenario.weights ?? profile.weights;
+  const scoredClaims = claims.filter(claim => claim.score !== undefined && claim.score !== null);
+
+  const setWeight = (pillar: ESGCategoryKey, value: number) => {
+    onChange({ ...scenario, weights: { ...weights, [pillar]: value / 100 } });
+  };
+
+  const setShift = (pillar: ESGCategoryKey, value: number) => {
+    onChange({ ...scenario, pillarShifts: { ...scenario.pillarShifts, [pillar]: value } });
+  };
+
+  const toggleClaim = (claimId: number) => {
+    const excluded = scenario.excludedClaimIds.includes(claimId)
+      ? scenario.excludedClaimIds.filter(id => id !== claimId)
+      : [...scenario.excludedClaimIds, claimId];
+    onChange({ ...scenario, excludedClaimIds: excluded });
+  };
+
+  const setOverride = (claim: Claim, changes: ScenarioClaimOverride) => {
+    const override = { ...scenario.overrides[claim.id], ...changes };
+    const overrides = { ...scenario.overrides };
+    // Drop overrides that are back to the claim's own values
+    if ((override.score ?? claim.score) === claim.score && (override.confidence ?? claim.confidence) === claim.confidence) {
+      delete overrides[claim.id];
+    } else {
+      overrides[claim.id] = override;
+    }
+    onChange({ ...scenario, overrides });
+  };
+
+  const updateHypothetical = (claimId: number, changes: Partial<Claim>) => {
+    onChange({
+      ...scenario,
+      hypotheticals: scenario.hypotheticals.map(claim => claim.id === claimId ? { ...claim, ...changes } : claim),
+    });
+  };
+
+  const addHypothetical = () => {
+    const claim = createHypotheticalClaim(subject, draft, [...claims, ...scenario.hypotheticals]);
+    onChange({ ...scenario, hypotheticals: [...scenario.hypotheticals, claim] });
+    setDraft(DEFAULT_HYPOTHETICAL);
+  };
+
+  const removeHypothetical = (claimId: number) => {
+    onChange({ ...scenario, hypotheticals: scenario.hypotheticals.filter(claim => claim.id !== claimId) });
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+      {/* Pillar weights and shifts */}
+      <Card>
+        <CardContent>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+            <Typography variant="h6" sx={{ fontWeight: 600 }}>Pillars</Typography>
+            <Button
+              size="small"
+              startIcon={<RestartAlt />}
+              disabled={scenario.weights === null}
+              onClick={() => onChange({ ...scenario, weights: null })}
+              sx={{ textTransform: 'none' }}
+            >
+              Methodology weights
+            </Button>
+          </Box>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Weights are rescaled to add up to 100%. Shifts move a pillar's score on the claim scale (−1 to 1),
+            e.g. +0.2 for "governance improves by 0.2".
+          </Typography>
+          <Grid container spacing={3}>
+            {PILLARS.map(pillar => (
+              <Grid item xs={12} md={4} key={pillar.key}>
+                <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>{pillar.label}</Typography>
+                <Typography variant="caption" color="text.secondary">
+                  Weight {Math.round(weights[pillar.key] * 100)}
+                </Typography>
+                <Slider
+                  size="small"
+                  min={0}
+                  max={100}
+                  value={Math.round(weights[pillar.key] * 100)}
+                  onChange={(_, value) => setWeight(pillar.key, value as number)}
+                  aria-label={`${pillar.label} weight`}
+                />
+                <Typography variant="caption" color="text.secondary">
+                  Shift {scenario.pillarShifts[pillar.key] > 0 ? '+' : ''}{scenario.pillarShifts[pillar.key].toFixed(2)}
+                </Typography>
+                <Slider
+                  size="small"
+                  min={-1}
+                  max={1}
+                  step={0.05}
+                  marks={[{ value: 0 }]}
+                  value={scenario.pillarShifts[pillar.key]}
+                  onChange={(_, value) => setShift(pillar.key, value as number)}
+                  aria-label={`${pillar.label} shift`}
+                />
+              </Grid>
+            ))}
+          </Grid>
+        </CardContent>
+      </Card>
+
+      {/* Claims */}
+      <Card>
+        <CardContent>
+          <Typography variant="h6" sx={{ fontWeight: 600, mb: 1 }}>Claims</Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Untick a claim to see the score as if it were retracted, or edit its score (−1 to 1) and confidence (0 to 1).
+          </Typography>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell padding="checkbox" />
+                <TableCell sx={{ fontWeight: 600 }}>Claim</TableCell>
+                <TableCell sx={{ fontWeight: 600, width: 110 }}>Score</TableCell>
+                <TableCell sx={{ fontWeight: 600, width: 110 }}>Confidence</TableCell>
+                <TableCell sx={{ width: 48 }} />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {scoredClaims.map(claim => {
+                const included = !scenario.excludedClaimIds.includes(claim.id);
+                const override = scenario.overrides[claim.id];
+                return (
+                  <TableRow key={claim.id} sx={{ opacity: included ? 1 : 0.5 }}>
+                    <TableCell padding="checkbox">
+                      <Checkbox
+                        checked={included}
+                        onChange={() => toggleClaim(claim.id)}
+                        inputProps={{ 'aria-label': `Include claim ${claim.id}` }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2" sx={{ fontWeight: 500 }}>
+                        {claim.aspect || claim.claim}
+                        {override && <Chip label="edited" size="small" color="warning" variant="outlined" sx={{ ml: 1, height: 20 }} />}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {[claim.author, transformUtils.formatDate(claim.createdAt)].filter(Boolean).join(' · ')}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        type="number"
+                        size="small"
+                        disabled={!included}
+                        value={override?.score ?? claim.score}
+                        onChange={(e) => setOverride(claim, { score: parseNumber(e.target.value, -1, 1) })}
+                        slotProps={{ htmlInput: { min: -1, max: 1, step: 0.05 } }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        type="number"
+                        size="small"
+                        disabled={!included}
+                        value={override?.confidence ?? claim.confidence ?? ''}
+                        onChange={(e) => setOverride(claim, { confidence: parseNumber(e.target.value, 0, 1) })}
+                        slotProps={{ htmlInput: { min: 0, max: 1, step: 0.05 } }}
+                      />
+                    </TableCell>
+                    <TableCell />
+                  </TableRow>
+                );
+              })}
+
+              {scenario.hypotheticals.map(claim => (
+                <TableRow key={claim.id} sx={{ bgcolor: 'rgba(37, 99, 235, 0.04)' }}>
+                  <TableCell padding="checkbox" />
+                  <TableCell>
+                    <Typography variant="body2" sx={{ fontWeight: 500 }}>
+                      {claim.aspect}
+                      <Chip label="hypothetical" size="small" color="primary" variant="outlined" sx={{ ml: 1, height: 20 }} />
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">{claim.statement}</Typography>
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      type="number"
+                      size="small"
+                      value={claim.score}
+                      onChange={(e) => updateHypothetical(claim.id, { score: parseNumber(e.target.value, -1, 1) ?? 0 })}
+                      slotProps={{ htmlInput: { min: -1, max: 1, step: 0.05 } }}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      type="number"
+                      size="small"
+                      value={claim.confidence}
+                      onChange={(e) => updateHypothetical(claim.id, { confidence: parseNumber(e.target.value, 0.01, 1) ?? 0.5 })}
+                      slotProps={{ htmlInput: { min: 0, max: 1, step: 0.05 } }}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Tooltip title="Remove hypothetical claim">
+                      <IconButton size="small" onClick={() => removeHypothetical(claim.id)}>
+                        <Delete fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {/* New hypothetical claim */}
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap', mt: 3 }}>
+            <TextField
+              select
+              size="small"
+              label="Aspect"
+              value={draft.aspect}
+              onChange={(e) => setDraft({ ...draft, aspect: e.target.value })}
+              sx={{ minWidth: 160 }}
+            >
+              {SCENARIO_ASPECTS.map(aspect => (
+                <MenuItem key={aspect.value} value={aspect.value}>{aspect.label}</MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              type="number"
+              size="small"
+              label="Score"
+              value={draft.score}
+              onChange={(e) => setDraft({ ...draft, score: parseNumber(e.target.value, -1, 1) ?? 0 })}
+              slotProps={{ htmlInput: { min: -1, max: 1, step: 0.05 } }}
+              sx={{ width: 110 }}
+            />
+            <TextField
+              type="number"
+              size="small"
+              label="Confidence"
+              value={draft.confidence}
+              onChange={(e) => setDraft({ ...draft, confidence: parseNumber(e.target.value, 0.01, 1) ?? 0.5 })}
+              slotProps={{ htmlInput: { min: 0, max: 1, step: 0.05 } }}
+              sx={{ width: 110 }}
+            />
+            <TextField
+              size="small"
+              label="Statement"
+              value={draft.statement}
+              onChange={(e) => setDraft({ ...draft, statement: e.target.value })}
+              sx={{ flexGrow: 1, minWidth: 200 }}
+            />
+            <Button variant="outlined" startIcon={<Add />} onClick={addHypothetical} sx={{ textTransform: 'none' }}>
+              Add hypothetical claim
+            </Button>
+          </Box>
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
+
+export default ScenarioEditor;
@@ -0,0 +1,3 @@
+// Export scenario components
+export { default as ScenarioEditor } from './ScenarioEditor';
+export { default as ScenarioComparison } from './ScenarioComparison';
@@ -2,3 +2,6 @@
 export * from './Layout';
 export * from './Common';
 export * from './Company';
+export * from './Scan';
+export * from './Portfolio';
+export * from './Scenario';
@@ -1,5 +1,19 @@
 // Export all custom hooks from a single entry point
 export { useCompanies } from './useCompanies';
-export { useClaim } from './useClaim';
+export { useCompany } from './useCompany';
 export { useNotification } from './useNotification';
-export { useESGMetrics, useAllESGMetrics, useRealTimeESGMetrics } from './useESGMetrics';
+export { useESGMetrics, useCompaniesESGMetrics, useRealTimeESGMetrics } from './useESGMetrics';
+export { useMethodology } from './useMethodology';
+export { useProductLookup } from './useProductLookup';
+export { useCreateClaim } from './useCreateClaim';
+export { useAddValidation } from './useAddValidation';
+export { useCredentialImport } from './useCredentialImport';
+export { useGlobalSearch } from './useGlobalSearch';
+export { useCompanyResolver } from './useCompanyResolver';
+export { usePortfolios } from './usePortfolios';
+export { useDataQuality } from './useDataQuality';
+export { useSyncStatus } from './useSyncStatus';
+export { useDataSource } from './useDataSource';
+export { useRejectionReport } from './useRejectionReport';
+export { useRatedClaimPages } from './useRatedClaimPages';
+export { useLiveUpdates } from './useLiveUpdates';
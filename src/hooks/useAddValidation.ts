@@ -0,0 +1,61 @@
+import { useState, useCallback } from 'react';
+import type { NewValidation, Validator, LoadingState, ApiError } from '../types';
+import { apiService } from '../services/api';
+import { errorUtils } from '../services/utils';
+import { allowsMockFallback, usesMockData } from '../services/dataSource';
+
+// Custom hook for endorsing or disputing a claim
+export const useAddValidation = () => {
+  const [loading, setLoading] = useState<LoadingState>('idle');
+  const [error, setError] = useState<ApiError | null>(null);
+
+  const addValidation = useCallback(async (claimId: number, validation: NewValidation): Promise<Validator | null> => {
+    setLoading('loading');
+    setError(null);
+
+    try {
+      // Mock mode never touches the backend
+      const validator = usesMockData()
+        ? await (await import('../services/mockService')).default.addValidation(claimId, validation)
+        : (await apiService.addValidation(claimId, validation)).data;
+      setLoading('success');
+      return validator;
+    } catch (err) {
+      console.error('Error adding validation:', err);
+      const apiError = errorUtils.handleApiError(err);
+
+      // Hybrid mode only falls back to mock data when the backend is unreachable; rejected validations surface as errors
+      if (allowsMockFallback() && errorUtils.isNetworkError(apiError)) {
+        try {
+          const mockService = await import('../services/mockService');
+          const mockValidator = await mockService.default.addValidation(claimId, validation);
+          setLoading('success');
+          return mockValidator;
+        } catch (mockErr) {
+          console.error('Mock data fallback also failed:', mockErr);
+        }
+      }
+
+      setError(apiError);
+      setLoading('error');
+      return null;
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    setError(null);
+    setLoading('idle');
+  }, []);
+
+  return {
+    addValidation,
+    loading,
+    error,
+    reset,
+    isLoading: loading === 'loading',
+    isSuccess: loading === 'success',
+    isError: loading === 'error',
+  };
+};
+
+export default useAddValidation;
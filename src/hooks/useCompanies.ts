@@ -1,111 +1,96 @@
-import { useState, useEffect } from 'react';
-import type { CompanyCardData, LoadingState, ApiError } from '../types';
-import { apiService } from '../services/api';
-import { ESGCalculationEngine } from '../services/esgCalculations';
-import { errorUtils } from '../services/utils';
+import { useEffect, useMemo, useState } from 'react';
+import { keepPreviousData, skipToken, useQueries, useQuery, type UseQueryOptions } from '@tanstack/react-query';
+import type { Claim } from '../types';
+import { fetchSearchResults, queryKeys } from '../services/queries';
+import { buildCompanyListEntries, type CompanyListEntry } from '../services/companyFilters';
+import { createCompanyResolver } from '../services/companyResolver';
+import { MIN_SEARCH_LENGTH } from '../services/globalSearch';
+import { useMethodology } from './useMethodology';
+import { useRatedClaimPages } from './useRatedClaimPages';
 
-// Custom hook for fetching company data with real ESG calculations
-export const useCompanies = () => {
-  const [companies, setCompanies] = useState<CompanyCardData[]>([]);
-  const [loading, setLoading] = useState<LoadingState>('idle');
-  const [error, setError] = useState<ApiError | null>(null);
+const SEARCH_DEBOUNCE_MS = 300;
 
-  const fetchCompanies = async () => {
-    setLoading('loading');
-    setError(null);
+// A company's full claim list, cached once its details page has loaded it; read without fetching
+const cachedCompanyClaims = (companyKey: string): UseQueryOptions<Claim[]> => ({
+  queryKey: queryKeys.companyClaims(companyKey),
+  queryFn: skipToken,
+});
 
-    try {
-      // Fetch all rated claims from real API
-      const response = await apiService.getRatedClaims();
-      const claims = response.data;
+const cachedData = (results: Array<{ data?: Claim[] }>): Array<Claim[] | undefined> =>
+  results.map(result => result.data);
 
-      // Group claims by company subject
-      const companiesBySubject = claims.reduce((acc, claim) => {
-        const subject = claim.subject;
-        if (!acc[subject]) {
-          acc[subject] = [];
-        }
-        acc[subject].push(claim);
-        return acc;
-      }, {} as Record<string, typeof claims>);
-
-      // Calculate ESG metrics for each company using SAME logic as company details
-      const companiesData: CompanyCardData[] = Object.entries(companiesBySubject).map(([subject, companyClaims]) => {
-        const esgMetrics = ESGCalculationEngine.calculateESGMetrics(companyClaims);
-        const firstClaim = companyClaims[0];
-        
-        return {
-          id: firstClaim.id,
-          subject: subject,
-          stars: esgMetrics.overallStars,
-          score: esgMetrics.overallScore, // This is the raw score (-1 to 1)
-          grade: esgMetrics.overallGrade,
-        };
-      });
-
-      // Sort by overall score (highest first)
-      companiesData.sort((a, b) => b.score - a.score);
-
-      setCompanies(companiesData);
-      setLoading('success');
-    } catch (err) {
-      console.error('Error fetching companies:', err);
-      
-      // Fallback to mock data if API fails - use SAME logic as main path
-      try {
-        const mockService = await import('../services/mockService');
-        const mockClaims = await mockService.default.getRatedClaims();
+// Companies from the rated claim pages loaded so far, filling in as more pages arrive;
+// a search term also pulls in matching companies from pages that are not loaded yet
+export const useCompanies = (search = '') => {
+  const { profile } = useMethodology();
+  const {
+    claims,
+    nodes,
+    loadedClaims,
+    totalClaims,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+    loading,
+    error,
+    refetch,
+  } = useRatedClaimPages();
 
-        // Group claims by company subject (SAME as main path)
-        const companiesBySubject = mockClaims.reduce((acc, claim) => {
-          const subject = claim.subject;
-          if (!acc[subject]) {
-            acc[subject] = [];
-          }
-          acc[subject].push(claim);
-          return acc;
-        }, {} as Record<string, typeof mockClaims>);
+  // Only query once typing pauses
+  const [debouncedSearch, setDebouncedSearch] = useState(search.trim());
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
 
-        // Calculate ESG metrics for each company (SAME as main path)
-        const companiesData: CompanyCardData[] = Object.entries(companiesBySubject).map(([subject, companyClaims]) => {
-          const esgMetrics = ESGCalculationEngine.calculateESGMetrics(companyClaims);
-          const firstClaim = companyClaims[0];
-          
-          return {
-            id: firstClaim.id,
-            subject: subject,
-            stars: esgMetrics.overallStars,
-            score: esgMetrics.overallScore, // This is the raw score (-1 to 1)
-            grade: esgMetrics.overallGrade,
-          };
-        });
+  // Once every page is loaded the list already holds every match
+  const searchEnabled = hasMore && debouncedSearch.length >= MIN_SEARCH_LENGTH;
+  const searchQuery = useQuery({
+    queryKey: queryKeys.search(debouncedSearch),
+    queryFn: () => fetchSearchResults(debouncedSearch),
+    enabled: searchEnabled,
+    placeholderData: keepPreviousData,
+  });
+  const found = searchEnabled ? searchQuery.data : undefined;
 
-        // Sort by overall score (highest first)
-        companiesData.sort((a, b) => b.score - a.score);
+  // Group claims by canonical company so aliases of one company are scored together
+  const groups = useMemo(() => {
+    const loadedIds = new Set(claims.map(claim => claim.id));
+    const foundClaims = (found?.claims ?? []).filter(claim => claim.claim === 'rated' && !loadedIds.has(claim.id));
+    const allClaims = [...claims, ...foundClaims];
+    return createCompanyResolver(allClaims, [...nodes, ...(found?.nodes ?? [])]).groupClaims(allClaims);
+  }, [claims, nodes, found]);
 
-        setCompanies(companiesData);
-        setLoading('success');
-        
-        // Clear any previous errors since we have working data
-        setError(null);
-      } catch (mockErr) {
-        const apiError = errorUtils.handleApiError(err);
-        setError(apiError);
-        setLoading('error');
-      }
-    }
-  };
+  const fullClaims = useQueries({
+    queries: groups.map(({ identity }) => cachedCompanyClaims(identity.key)),
+    combine: cachedData,
+  });
 
-  useEffect(() => {
-    fetchCompanies();
-  }, []);
+  // Score every company with the active methodology; while pages remain, companies
+  // without a full claim list may be missing claims and are flagged as partial
+  const entries = useMemo((): CompanyListEntry[] => {
+    const partialKeys = new Set<string>();
+    const scored = groups.map(({ identity, claims: loaded }, index) => {
+      const full = fullClaims[index];
+      if (hasMore && !full) partialKeys.add(identity.key);
+      return { identity, claims: full && full.length > 0 ? full : loaded };
+    });
+    return buildCompanyListEntries(scored, profile, partialKeys);
+  }, [groups, fullClaims, hasMore, profile]);
 
-  const refetch = () => {
-    fetchCompanies();
-  };
+  const companies = useMemo(() => entries.map(entry => entry.company), [entries]);
 
   return {
     companies,
+    entries,
+    methodology: profile,
+    loadedClaims,
+    totalClaims,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+    // Still typing or waiting on the server's search
+    isSearching: search.trim() !== debouncedSearch || (searchEnabled && searchQuery.isFetching),
     loading,
     error,
     refetch,
@@ -0,0 +1,120 @@
+import { useMemo, useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { Claim, Validator, LoadingState } from '../types';
+import { ESGCalculationEngine } from '../services/esgCalculations';
+import { errorUtils } from '../services/utils';
+import { applyValidationToCache, fetchCompanyClaims, fetchSearchResults, queryKeys, toLoadingState } from '../services/queries';
+import { companySearchTerm, createCompanyResolver } from '../services/companyResolver';
+import { useMethodology } from './useMethodology';
+import { useCompanyResolver } from './useCompanyResolver';
+
+// The claim shown as the company's headline rating: its latest overall rating, else its latest claim
+const selectHeadlineClaim = (claims: Claim[]): Claim | null => {
+  const byRecency = [...claims].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  return byRecency.find(claim => claim.claim === 'rated' && claim.aspect === 'esg-overall')
+    ?? byRecency.find(claim => claim.claim === 'rated')
+    ?? byRecency[0]
+    ?? null;
+};
+
+// Custom hook for loading a company by slug, ISIN, ticker or nodeUri with ESG calculations
+export const useCompany = (companyKey: string | undefined) => {
+  const { profile } = useMethodology();
+  const { resolver, isReady } = useCompanyResolver();
+
+  const known = useMemo(
+    () => companyKey && isReady ? resolver.find(companyKey) : undefined,
+    [companyKey, isReady, resolver]
+  );
+
+  // Companies on claim pages that are not loaded yet are looked up through the server's search
+  const lookupTerm = companyKey && isReady && !known ? companySearchTerm(companyKey) : '';
+  const lookupQuery = useQuery({
+    queryKey: queryKeys.search(lookupTerm),
+    queryFn: () => fetchSearchResults(lookupTerm),
+    enabled: lookupTerm !== '',
+  });
+  const companyResolver = useMemo(
+    () => !known && lookupQuery.data
+      ? createCompanyResolver(lookupQuery.data.claims, lookupQuery.data.nodes)
+      : resolver,
+    [known, lookupQuery.data, resolver]
+  );
+  const lookingUp = lookupTerm !== '' && lookupQuery.isPending;
+
+  // Known companies resolve through the resolver; anything else is tried as a claim subject
+  const company = useMemo(() => {
+    if (!companyKey || !isReady || lookingUp) return null;
+    return known ?? companyResolver.find(companyKey) ?? resolver.resolve(companyKey);
+  }, [companyKey, isReady, lookingUp, known, companyResolver, resolver]);
+
+  // Only slugs the resolver can map back to this company are safe to link to
+  const canonicalSlug = company && companyResolver.find(company.slug)?.key === company.key ? company.slug : null;
+
+  // Load the company's full claim set directly
+  const query = useQuery({
+    queryKey: queryKeys.companyClaims(company?.key ?? ''),
+    queryFn: () => fetchCompanyClaims(company!),
+    enabled: company !== null,
+  });
+  const allCompanyClaims = useMemo(() => query.data ?? [], [query.data]);
+
+  const { refetch: refetchClaims } = query;
+  const refetch = useCallback(() => {
+    refetchClaims();
+  }, [refetchClaims]);
+
+  // Add a newly submitted validation locally so metrics recompute without waiting for a refetch
+  const applyValidation = useCallback((claimId: number, validator: Validator) => {
+    applyValidationToCache(claimId, validator);
+  }, []);
+
+  // Calculate comprehensive ESG metrics for the company
+  const esgMetrics = useMemo(() => {
+    if (allCompanyClaims.length === 0) return null;
+    return ESGCalculationEngine.calculateESGMetrics(allCompanyClaims, profile);
+  }, [allCompanyClaims, profile]);
+
+  // Enhance the headline claim with calculated metrics to ensure accuracy
+  const claim = useMemo((): Claim | null => {
+    const headline = selectHeadlineClaim(allCompanyClaims);
+    if (!headline || !esgMetrics) return headline;
+    return {
+      ...headline,
+      score: esgMetrics.overallScore,
+      stars: esgMetrics.overallStars,
+      confidence: esgMetrics.confidenceLevel,
+    };
+  }, [allCompanyClaims, esgMetrics]);
+
+  // Calculate validation metrics
+  const validationMetrics = useMemo(() => {
+    if (allCompanyClaims.length === 0) return null;
+    return ESGCalculationEngine.calculateValidationMetrics(allCompanyClaims);
+  }, [allCompanyClaims]);
+
+  // The page is loading until the company is resolved and its claims have settled
+  const loading: LoadingState = companyKey && (!isReady || lookingUp) ? 'loading' : toLoadingState(query);
+  const error = useMemo(() => query.error ? errorUtils.handleApiError(query.error) : null, [query.error]);
+
+  return {
+    company,
+    canonicalSlug,
+    claim,
+    esgMetrics,
+    validationMetrics,
+    allCompanyClaims,
+    methodology: profile,
+    loading,
+    error,
+    refetch,
+    applyValidation,
+    isLoading: loading === 'loading',
+    isSuccess: loading === 'success',
+    isError: loading === 'error',
+    isNotFound: loading === 'success' && allCompanyClaims.length === 0,
+    hasESGData: esgMetrics !== null,
+  };
+};
+
+export default useCompany;
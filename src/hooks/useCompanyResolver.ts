@@ -0,0 +1,18 @@
+import { useMemo } from 'react';
+import { createCompanyResolver } from '../services/companyResolver';
+import { useRatedClaimPages } from './useRatedClaimPages';
+
+// Hook exposing the canonical company resolver built from the rated claim and node pages loaded so far;
+// subjects it does not know yet resolve on their own and their claims are looked up on the server
+export const useCompanyResolver = () => {
+  const { claims, nodes, isSettled } = useRatedClaimPages();
+
+  const resolver = useMemo(() => createCompanyResolver(claims, nodes), [claims, nodes]);
+
+  return {
+    resolver,
+    isReady: isSettled,
+  };
+};
+
+export default useCompanyResolver;
@@ -0,0 +1,69 @@
+import { useState, useCallback } from 'react';
+import type { Claim, NewClaim, LoadingState, ApiError } from '../types';
+import { apiService } from '../services/api';
+import { errorUtils } from '../services/utils';
+import { invalidateClaims } from '../services/queries';
+import { allowsMockFallback, usesMockData } from '../services/dataSource';
+
+// Custom hook for publishing a new claim
+export const useCreateClaim = () => {
+  const [createdClaim, setCreatedClaim] = useState<Claim | null>(null);
+  const [loading, setLoading] = useState<LoadingState>('idle');
+  const [error, setError] = useState<ApiError | null>(null);
+
+  const createClaim = useCallback(async (newClaim: NewClaim): Promise<Claim | null> => {
+    setLoading('loading');
+    setError(null);
+
+    try {
+      // Mock mode never touches the backend
+      const claim = usesMockData()
+        ? await (await import('../services/mockService')).default.createClaim(newClaim)
+        : (await apiService.createClaim(newClaim)).data;
+      setCreatedClaim(claim);
+      setLoading('success');
+      invalidateClaims();
+      return claim;
+    } catch (err) {
+      console.error('Error creating claim:', err);
+      const apiError = errorUtils.handleApiError(err);
+
+      // Hybrid mode only falls back to mock data when the backend is unreachable; rejected claims surface as errors
+      if (allowsMockFallback() && errorUtils.isNetworkError(apiError)) {
+        try {
+          const mockService = await import('../services/mockService');
+          const mockClaim = await mockService.default.createClaim(newClaim);
+          setCreatedClaim(mockClaim);
+          setLoading('success');
+          invalidateClaims();
+          return mockClaim;
+        } catch (mockErr) {
+          console.error('Mock data fallback also failed:', mockErr);
+        }
+      }
+
+      setError(apiError);
+      setLoading('error');
+      return null;
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    setCreatedClaim(null);
+    setError(null);
+    setLoading('idle');
+  }, []);
+
+  return {
+    createClaim,
+    createdClaim,
+    loading,
+    error,
+    reset,
+    isLoading: loading === 'loading',
+    isSuccess: loading === 'success',
+    isError: loading === 'error',
+  };
+};
+
+export default useCreateClaim;
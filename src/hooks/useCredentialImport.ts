@@ -0,0 +1,114 @@
+import { useState, useCallback } from 'react';
+import type { Claim, LoadingState, ApiError } from '../types';
+import { apiService } from '../services/api';
+import { errorUtils } from '../services/utils';
+import { invalidateClaims } from '../services/queries';
+import { allowsMockFallback, usesMockData } from '../services/dataSource';
+import type { ImportedCredential } from '../services/verifiableCredentials';
+
+export interface PublishedCredential {
+  credential: ImportedCredential;
+  claim: Claim;
+}
+
+// A claim that was published but lost some of its endorsements
+export interface ValidationFailure {
+  claim: Claim;
+  message: string;
+}
+
+export interface CredentialImportOutcome {
+  published: PublishedCredential[];
+  validationFailures: ValidationFailure[];
+}
+
+// Custom hook for publishing claims imported from Verifiable Credentials
+export const useCredentialImport = () => {
+  const [importedClaims, setImportedClaims] = useState<Claim[]>([]);
+  const [validationFailures, setValidationFailures] = useState<ValidationFailure[]>([]);
+  const [loading, setLoading] = useState<LoadingState>('idle');
+  const [error, setError] = useState<ApiError | null>(null);
+
+  const importCredentials = useCallback(async (credentials: ImportedCredential[]): Promise<CredentialImportOutcome> => {
+    setLoading('loading');
+    setError(null);
+
+    const published: PublishedCredential[] = [];
+    const failures: ValidationFailure[] = [];
+    let useMock = usesMockData();
+
+    try {
+      for (const credential of credentials) {
+        let createdClaim: Claim | null = null;
+
+        if (!useMock) {
+          try {
+            createdClaim = (await apiService.createClaim(credential.claim)).data;
+          } catch (err) {
+            // Hybrid mode only falls back to mock data when the backend is unreachable
+            if (!allowsMockFallback() || !errorUtils.isNetworkError(errorUtils.handleApiError(err))) {
+              throw err;
+            }
+            useMock = true;
+          }
+        }
+
+        const mockService = useMock ? (await import('../services/mockService')).default : null;
+        if (mockService) {
+          createdClaim = await mockService.createClaim(credential.claim);
+        }
+        if (!createdClaim) continue;
+
+        // The claim exists from here on, so a failed endorsement is reported against it instead of failing the import
+        published.push({ credential, claim: createdClaim });
+        try {
+          for (const validation of credential.validators) {
+            if (mockService) {
+              await mockService.addValidation(createdClaim.id, validation);
+            } else {
+              await apiService.addValidation(createdClaim.id, validation);
+            }
+          }
+        } catch (err) {
+          failures.push({ claim: createdClaim, message: errorUtils.handleApiError(err).message });
+        }
+      }
+
+      setLoading('success');
+    } catch (err) {
+      console.error('Error importing credentials:', err);
+      setError(errorUtils.handleApiError(err));
+      setLoading('error');
+    } finally {
+      setImportedClaims(published.map(entry => entry.claim));
+      setValidationFailures(failures);
+      // Claims published before a failure are still new data
+      if (published.length > 0) {
+        invalidateClaims();
+      }
+    }
+
+    return { published, validationFailures: failures };
+  }, []);
+
+  const reset = useCallback(() => {
+    setImportedClaims([]);
+    setValidationFailures([]);
+    setError(null);
+    setLoading('idle');
+  }, []);
+
+  return {
+    importCredentials,
+    importedClaims,
+    validationFailures,
+    loading,
+    error,
+    reset,
+    isLoading: loading === 'loading',
+    isSuccess: loading === 'success',
+    isError: loading === 'error',
+  };
+};
+
+export default useCredentialImport;
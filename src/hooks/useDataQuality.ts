@@ -0,0 +1,40 @@
+import { useMemo } from 'react';
+import { buildDataQualityReport, type DataQualityReport } from '../services/dataQuality';
+import type { CompanyIdentity } from '../services/companyResolver';
+import { useCompanyResolver } from './useCompanyResolver';
+import { useRatedClaimPages } from './useRatedClaimPages';
+
+export interface CompanyDataQuality {
+  identity: CompanyIdentity;
+  report: DataQualityReport;
+}
+
+// Data-quality checks across the rated claims loaded so far, overall and per company
+export const useDataQuality = () => {
+  const { claims, loading, error, refetch } = useRatedClaimPages();
+  const { resolver } = useCompanyResolver();
+
+  const report = useMemo(() => buildDataQualityReport(claims), [claims]);
+
+  // Companies with flagged claims, most errors and warnings first
+  const companies = useMemo((): CompanyDataQuality[] => {
+    const flagged = new Set(report.flaggedClaimIds);
+    return resolver.groupClaims(claims)
+      .filter(({ claims }) => claims.some(claim => flagged.has(claim.id)))
+      .map(({ identity, claims }) => ({ identity, report: buildDataQualityReport(claims) }))
+      .sort((a, b) => b.report.flaggedClaimIds.length - a.report.flaggedClaimIds.length);
+  }, [resolver, claims, report]);
+
+  return {
+    report,
+    companies,
+    loading,
+    error,
+    refetch,
+    isLoading: loading === 'loading',
+    isSuccess: loading === 'success',
+    isError: loading === 'error',
+  };
+};
+
+export default useDataQuality;
@@ -0,0 +1,25 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import {
+  DATA_SOURCE_MODES,
+  getDataSourceMode,
+  getDataSourceModeOption,
+  subscribeDataSourceMode,
+  type DataSourceMode,
+} from '../services/dataSource';
+import { switchDataSourceMode } from '../services/queries';
+
+// Hook for reading and switching the data-source mode (shared across all views)
+export const useDataSource = () => {
+  const mode = useSyncExternalStore(subscribeDataSourceMode, getDataSourceMode);
+
+  const setMode = useCallback((next: DataSourceMode) => switchDataSourceMode(next), []);
+
+  return {
+    mode,
+    option: getDataSourceModeOption(mode),
+    modes: DATA_SOURCE_MODES,
+    setMode,
+  };
+};
+
+export default useDataSource;
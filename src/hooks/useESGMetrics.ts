@@ -1,124 +1,47 @@
-import { useState, useEffect, useMemo, useCallback } from 'react';
-import type { Claim, LoadingState, ApiError } from '../types';
+import { useMemo, useCallback } from 'react';
+import { useQueries, useQuery, useQueryClient, type UseQueryResult } from '@tanstack/react-query';
+import type { Claim, Validator } from '../types';
 import { ESGCalculationEngine, type ESGMetrics, type ValidationMetrics } from '../services/esgCalculations';
-import { apiService } from '../services/api';
+import type { CompanyIdentity } from '../services/companyResolver';
 import { errorUtils } from '../services/utils';
+import { applyValidationToCache, fetchCompanyClaims, queryKeys, toLoadingState } from '../services/queries';
+import { useMethodology } from './useMethodology';
+import { useCompanyResolver } from './useCompanyResolver';
+import { useLiveUpdates } from './useLiveUpdates';
 
 // Hook for fetching and calculating ESG metrics for a specific company
 export const useESGMetrics = (companyUri?: string, companySubject?: string) => {
-  const [claims, setClaims] = useState<Claim[]>([]);
-  const [loading, setLoading] = useState<LoadingState>('idle');
-  const [error, setError] = useState<ApiError | null>(null);
-  const [lastFetched, setLastFetched] = useState<Date | null>(null);
-
-  // Fetch claims data from backend API
-  const fetchClaims = useCallback(async () => {
-    if (!companyUri && !companySubject) {
-      setError(errorUtils.createError('Company identifier is required'));
-      return;
-    }
-
-    setLoading('loading');
-    setError(null);
-
-    try {
-      let response;
-      
-      // Try different API endpoints based on available data
-      if (companyUri) {
-        // Use subject-specific endpoint (preferred)
-        response = await apiService.getClaimsBySubject(companyUri);
-      } else if (companySubject) {
-        // Use general claims endpoint with subject filter
-        response = await apiService.getCompanyClaims(companySubject);
-      }
-
-      if (!response) {
-        throw new Error('No valid API endpoint available');
-      }
-
-      let claimsData: any = response.data;
-      
-      // Handle different response formats
-      if (!Array.isArray(claimsData)) {
-        // If response is not an array, try to extract claims from nested structure
-        if (claimsData && claimsData.claims && Array.isArray(claimsData.claims)) {
-          claimsData = claimsData.claims;
-        } else if (claimsData && typeof claimsData === 'object') {
-          // If it's a single claim object, wrap it in an array
-          claimsData = [claimsData];
-        } else {
-          // If we can't parse the data, throw an error to trigger fallback
-          throw new Error('Invalid response format: expected array of claims');
-        }
-      }
-      
-      // Validate and process claims data
-      const validClaims = claimsData.filter((claim: any) => 
-        claim && 
-        typeof claim.id === 'number' && 
-        typeof claim.subject === 'string'
-      );
-
-      setClaims(validClaims);
-      setLastFetched(new Date());
-      setLoading('success');
-    } catch (err) {
-      console.error('Error fetching claims:', err);
-      
-      // Automatically fall back to mock data when API fails
-      try {
-        console.log('Falling back to mock data...');
-        const mockService = await import('../services/mockService');
-        
-        let mockClaims;
-        if (companySubject) {
-          mockClaims = await mockService.default.getCompanyClaims(companySubject);
-        } else {
-          // If no specific company, get all claims and filter
-          const allClaims = await mockService.default.getClaims();
-          mockClaims = companyUri ? allClaims.filter(claim => 
-            claim.subject.toLowerCase().includes(companyUri.toLowerCase())
-          ) : allClaims;
-        }
-        
-        setClaims(mockClaims);
-        setLastFetched(new Date());
-        setLoading('success');
-        
-        // Clear any previous errors since we have working data
-        setError(null);
-      } catch (mockErr) {
-        console.error('Mock data fallback also failed:', mockErr);
-        const apiError = errorUtils.handleApiError(err);
-        setError(apiError);
-        setLoading('error');
-      }
-    }
-  }, [companyUri, companySubject]);
-
-  // Auto-fetch on mount and when identifiers change
-  useEffect(() => {
-    if (companyUri || companySubject) {
-      fetchClaims();
-    }
-  }, [fetchClaims]);
+  const { profile } = useMethodology();
+  const subject = companyUri || companySubject;
+  const { resolver, isReady } = useCompanyResolver();
+  const identity = useMemo(() => subject ? resolver.resolve(subject) : null, [resolver, subject]);
+
+  // Claims come from the shared query cache, keyed by canonical company
+  const query = useQuery({
+    queryKey: queryKeys.companyClaims(identity?.key ?? ''),
+    queryFn: () => fetchCompanyClaims(identity!),
+    enabled: identity !== null && isReady,
+  });
+  const claims = useMemo(() => query.data ?? [], [query.data]);
+  const loading = toLoadingState(query);
+  const error = useMemo(() => query.error ? errorUtils.handleApiError(query.error) : null, [query.error]);
+  const lastFetched = query.dataUpdatedAt ? new Date(query.dataUpdatedAt) : null;
 
   // Calculate ESG metrics from claims data
   const esgMetrics = useMemo((): ESGMetrics => {
     if (claims.length === 0) {
-      return ESGCalculationEngine.calculateESGMetrics([]);
+      return ESGCalculationEngine.calculateESGMetrics([], profile);
     }
 
-    const metrics = ESGCalculationEngine.calculateESGMetrics(claims);
+    const metrics = ESGCalculationEngine.calculateESGMetrics(claims, profile);
     
     // Validate calculated metrics
-    if (!ESGCalculationEngine.validateMetrics(metrics)) {
+    if (!ESGCalculationEngine.validateMetrics(metrics, profile)) {
       console.warn('Invalid ESG metrics calculated:', metrics);
     }
 
     return metrics;
-  }, [claims]);
+  }, [claims, profile]);
 
   // Calculate validation metrics separately for detailed analysis
   const validationMetrics = useMemo((): ValidationMetrics => {
@@ -126,16 +49,18 @@ export const useESGMetrics = (companyUri?: string, companySubject?: string) => {
   }, [claims]);
 
   // Refresh data (manual trigger)
+  const { refetch } = query;
   const refresh = useCallback(() => {
-    fetchClaims();
-  }, [fetchClaims]);
+    refetch();
+  }, [refetch]);
+
+  // Add a newly submitted validation locally so metrics recompute without waiting for a refetch
+  const applyValidation = useCallback((claimId: number, validator: Validator) => {
+    applyValidationToCache(claimId, validator);
+  }, []);
 
-  // Check if data is stale (older than 5 minutes)
-  const isStale = useMemo(() => {
-    if (!lastFetched) return true;
-    const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
-    return lastFetched < fiveMinutesAgo;
-  }, [lastFetched]);
+  // Stale data is still shown while it is revalidated in the background
+  const isStale = query.isStale;
 
   return {
     // Raw data
@@ -144,6 +69,7 @@ export const useESGMetrics = (companyUri?: string, companySubject?: string) => {
     // Calculated metrics
     esgMetrics,
     validationMetrics,
+    methodology: profile,
     
     // State management
     loading,
@@ -153,6 +79,7 @@ export const useESGMetrics = (companyUri?: string, companySubject?: string) => {
     
     // Actions
     refresh,
+    applyValidation,
     
     // Convenience flags
     isLoading: loading === 'loading',
@@ -183,112 +110,89 @@ export const useESGMetrics = (companyUri?: string, companySubject?: string) => {
   };
 };
 
-// Hook for fetching all companies with calculated ESG metrics
-export const useAllESGMetrics = () => {
-  const [companiesData, setCompaniesData] = useState<Array<{
-    id: number;
-    subject: string;
-    uri?: string;
-    esgMetrics: ESGMetrics;
-  }>>([]);
-  const [loading, setLoading] = useState<LoadingState>('idle');
-  const [error, setError] = useState<ApiError | null>(null);
-
-  const fetchAllCompanies = useCallback(async () => {
-    setLoading('loading');
-    setError(null);
-
-    try {
-      // Get all rated claims
-      const response = await apiService.getRatedClaims();
-      const claims = response.data;
-
-      // Group claims by company
-      const companiesBySubject = claims.reduce((acc, claim) => {
-        const subject = claim.subject;
-        if (!acc[subject]) {
-          acc[subject] = [];
-        }
-        acc[subject].push(claim);
-        return acc;
-      }, {} as Record<string, Claim[]>);
-
-      // Calculate ESG metrics for each company
-      const companiesWithMetrics = Object.entries(companiesBySubject).map(([subject, companyClaims]) => {
-        const esgMetrics = ESGCalculationEngine.calculateESGMetrics(companyClaims);
-        const firstClaim = companyClaims[0];
-        
-        return {
-          id: firstClaim.id,
-          subject,
-          uri: firstClaim.subject, // Use subject as URI for API calls
-          esgMetrics
-        };
-      });
-
-      // Sort by overall score (highest first)
-      companiesWithMetrics.sort((a, b) => b.esgMetrics.overallScore - a.esgMetrics.overallScore);
-
-      setCompaniesData(companiesWithMetrics);
-      setLoading('success');
-    } catch (err) {
-      console.error('Error fetching all companies:', err);
-      
-      // Fallback to mock data
-      try {
-        console.log('Falling back to mock data for all companies...');
-        const mockService = await import('../services/mockService');
-        const mockClaims = await mockService.default.getRatedClaims();
-
-        // Group claims by company
-        const companiesBySubject = mockClaims.reduce((acc, claim) => {
-          const subject = claim.subject;
-          if (!acc[subject]) {
-            acc[subject] = [];
-          }
-          acc[subject].push(claim);
-          return acc;
-        }, {} as Record<string, typeof mockClaims>);
-
-        // Calculate ESG metrics for each company
-        const companiesWithMetrics = Object.entries(companiesBySubject).map(([subject, companyClaims]) => {
-          const esgMetrics = ESGCalculationEngine.calculateESGMetrics(companyClaims);
-          const firstClaim = companyClaims[0];
-          
-          return {
-            id: firstClaim.id,
-            subject,
-            uri: firstClaim.subject,
-            esgMetrics
-          };
-        });
-
-        // Sort by overall score (highest first)
-        companiesWithMetrics.sort((a, b) => b.esgMetrics.overallScore - a.esgMetrics.overallScore);
-
-        setCompaniesData(companiesWithMetrics);
-        setLoading('success');
-        
-        // Clear any previous errors since we have working data
-        setError(null);
-      } catch (mockErr) {
-        console.error('Mock data fallback also failed:', mockErr);
-        const apiError = errorUtils.handleApiError(err);
-        setError(apiError);
-        setLoading('error');
-      }
-    }
-  }, []);
-
-  useEffect(() => {
-    fetchAllCompanies();
-  }, [fetchAllCompanies]);
+export interface CompanyESGMetrics {
+  id: number;
+  key: string;
+  subject: string;
+  uri?: string;
+  identity: CompanyIdentity;
+  esgMetrics: ESGMetrics;
+  claims: Claim[];
+}
+
+// Collapse the per-company queries into one status; the result is structurally shared between renders
+const combineCompanyClaims = (results: UseQueryResult<Claim[]>[]) => ({
+  claims: results.map(result => result.data),
+  status: results.some(result => result.status === 'error')
+    ? 'error' as const
+    : results.some(result => result.status === 'pending') ? 'pending' as const : 'success' as const,
+  fetchStatus: results.some(result => result.fetchStatus === 'fetching') ? 'fetching' as const : 'idle' as const,
+  error: results.find(result => result.error)?.error ?? null,
+});
+
+// Hook for ESG metrics of a chosen set of companies, each company's claims looked up on its own
+export const useCompaniesESGMetrics = (subjects: string[]) => {
+  const { profile } = useMethodology();
+  const queryClient = useQueryClient();
+  const { resolver, isReady } = useCompanyResolver();
+
+  // One identity per company, however many of its spellings were asked for
+  const identities = useMemo(
+    () => Array.from(new Map(subjects.map(subject => {
+      const identity = resolver.resolve(subject);
+      return [identity.key, identity] as const;
+    })).values()),
+    [resolver, subjects]
+  );
+
+  const query = useQueries({
+    queries: identities.map(identity => ({
+      queryKey: queryKeys.companyClaims(identity.key),
+      queryFn: () => fetchCompanyClaims(identity),
+      enabled: isReady,
+    })),
+    combine: combineCompanyClaims,
+  });
+
+  // Waiting on the resolver counts as loading, not idle
+  const loading = isReady ? toLoadingState(query) : 'loading';
+  const error = useMemo(() => query.error ? errorUtils.handleApiError(query.error) : null, [query.error]);
+  const refresh = useCallback(() => {
+    identities.forEach(identity => {
+      queryClient.refetchQueries({ queryKey: queryKeys.companyClaims(identity.key) });
+    });
+  }, [identities, queryClient]);
+
+  // Calculate ESG metrics for each company with claims under the active methodology profile
+  const companiesData = useMemo((): CompanyESGMetrics[] => {
+    const companiesWithMetrics = identities.flatMap((identity, index) => {
+      const companyClaims = query.claims[index] ?? [];
+      if (companyClaims.length === 0) return [];
+
+      return [{
+        id: companyClaims[0].id,
+        key: identity.key,
+        subject: identity.subject,
+        uri: identity.subject, // Use the canonical subject as URI for API calls
+        identity,
+        esgMetrics: ESGCalculationEngine.calculateESGMetrics(companyClaims, profile),
+        claims: companyClaims,
+      }];
+    });
+
+    // Sort by overall score (highest first)
+    companiesWithMetrics.sort((a, b) => b.esgMetrics.overallScore - a.esgMetrics.overallScore);
+
+    return companiesWithMetrics;
+  }, [identities, query.claims, profile]);
 
   return {
     companies: companiesData,
+    resolveKey: resolver.keyOf,
+    methodology: profile,
     loading,
     error,
-    refresh: fetchAllCompanies,
+    refresh,
     isLoading: loading === 'loading',
     isSuccess: loading === 'success',
     isError: loading === 'error',
@@ -296,30 +200,16 @@ export const useAllESGMetrics = () => {
   };
 };
 
-// Hook for real-time polling of ESG data
-export const useRealTimeESGMetrics = (companyUri?: string, companySubject?: string, pollInterval = 30000) => {
+// Company metrics kept current by the live-update stream; pushed changes land in the shared cache,
+// so this only adds whether the stream is connected and when it last delivered a change
+export const useRealTimeESGMetrics = (companyUri?: string, companySubject?: string) => {
   const esgData = useESGMetrics(companyUri, companySubject);
-  const [isPolling, setIsPolling] = useState(false);
-
-  useEffect(() => {
-    if (!companyUri && !companySubject) return;
-
-    setIsPolling(true);
-    const interval = setInterval(() => {
-      if (!esgData.isLoading) {
-        esgData.refresh();
-      }
-    }, pollInterval);
-
-    return () => {
-      clearInterval(interval);
-      setIsPolling(false);
-    };
-  }, [companyUri, companySubject, pollInterval, esgData]);
+  const { isLive, lastEventAt } = useLiveUpdates();
 
   return {
     ...esgData,
-    isPolling,
+    isLive,
+    lastEventAt,
   };
 };
 
@@ -0,0 +1,46 @@
+import { useEffect, useMemo, useState } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { errorUtils } from '../services/utils';
+import { fetchSearchResults, queryKeys } from '../services/queries';
+import { MIN_SEARCH_LENGTH, groupSearchResults } from '../services/globalSearch';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Hook for searching claims and nodes together as the user types
+export const useGlobalSearch = () => {
+  const [term, setTerm] = useState('');
+  const [debouncedTerm, setDebouncedTerm] = useState('');
+
+  // Only query once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedTerm(term.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [term]);
+
+  const enabled = debouncedTerm.length >= MIN_SEARCH_LENGTH;
+  const query = useQuery({
+    queryKey: queryKeys.search(debouncedTerm),
+    queryFn: () => fetchSearchResults(debouncedTerm),
+    enabled,
+    placeholderData: keepPreviousData,
+  });
+
+  const results = useMemo(
+    () => enabled && query.data ? groupSearchResults(debouncedTerm, query.data.claims, query.data.nodes) : [],
+    [enabled, debouncedTerm, query.data]
+  );
+  const error = useMemo(() => query.error ? errorUtils.handleApiError(query.error) : null, [query.error]);
+
+  return {
+    term,
+    setTerm,
+    results,
+    error,
+    // Still typing or waiting on the server
+    isSearching: term.trim() !== debouncedTerm || (enabled && query.isFetching),
+    hasQuery: enabled,
+    isError: query.isError,
+  };
+};
+
+export default useGlobalSearch;
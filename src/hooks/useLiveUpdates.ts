@@ -0,0 +1,14 @@
+import { useSyncExternalStore } from 'react';
+import { getLiveUpdateStatus, subscribeLiveUpdateStatus } from '../services/liveUpdates';
+
+// Hook for the state of the live-update stream that keeps cached claims current
+export const useLiveUpdates = () => {
+  const status = useSyncExternalStore(subscribeLiveUpdateStatus, getLiveUpdateStatus);
+
+  return {
+    ...status,
+    isLive: status.connection === 'open',
+  };
+};
+
+export default useLiveUpdates;
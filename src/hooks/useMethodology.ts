@@ -0,0 +1,33 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import {
+  DEFAULT_METHODOLOGY_ID,
+  getMethodologyProfile,
+  listMethodologyProfiles,
+  type MethodologyProfile,
+} from '../services/methodology';
+import { createPersistedStore } from '../services/persistedStore';
+
+const selectedIdStore = createPersistedStore<string>({
+  key: 'linkedtrust.methodologyProfile',
+  fallback: DEFAULT_METHODOLOGY_ID,
+  parse: stored => stored || undefined,
+  serialize: id => id,
+});
+
+// Hook for reading and switching the active scoring methodology (shared across all views)
+export const useMethodology = () => {
+  const profileId = useSyncExternalStore(selectedIdStore.subscribe, selectedIdStore.get);
+  const profile: MethodologyProfile = getMethodologyProfile(profileId);
+
+  const setProfile = useCallback((id: string) => {
+    selectedIdStore.set(getMethodologyProfile(id).id);
+  }, []);
+
+  return {
+    profile,
+    profiles: listMethodologyProfiles(),
+    setProfile,
+  };
+};
+
+export default useMethodology;
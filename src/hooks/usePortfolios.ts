@@ -0,0 +1,54 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import {
+  createPortfolio,
+  portfolioStore,
+  type Portfolio,
+  type PortfolioHolding,
+} from '../services/portfolio';
+
+const updatePortfolio = (id: string, changes: Partial<Pick<Portfolio, 'name' | 'holdings'>>) => {
+  portfolioStore.set(portfolioStore.get().map(portfolio => portfolio.id === id
+    ? { ...portfolio, ...changes, updatedAt: new Date().toISOString() }
+    : portfolio
+  ));
+};
+
+// Hook for reading and editing the portfolios saved in this browser (shared across all views)
+export const usePortfolios = () => {
+  const current = useSyncExternalStore(portfolioStore.subscribe, portfolioStore.get);
+
+  const create = useCallback((name: string, holdings?: PortfolioHolding[]): Portfolio => {
+    const portfolio = createPortfolio(name, holdings);
+    portfolioStore.set([...portfolioStore.get(), portfolio]);
+    return portfolio;
+  }, []);
+
+  const rename = useCallback((id: string, name: string) => {
+    if (!name.trim()) return;
+    updatePortfolio(id, { name: name.trim() });
+  }, []);
+
+  const setHoldings = useCallback((id: string, holdings: PortfolioHolding[]) => {
+    updatePortfolio(id, { holdings });
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    portfolioStore.set(portfolioStore.get().filter(portfolio => portfolio.id !== id));
+  }, []);
+
+  const getPortfolio = useCallback(
+    (id: string | undefined) => current.find(portfolio => portfolio.id === id) ?? null,
+    [current]
+  );
+
+  return {
+    portfolios: current,
+    getPortfolio,
+    create,
+    rename,
+    setHoldings,
+    remove,
+  };
+};
+
+export default usePortfolios;
@@ -0,0 +1,49 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { errorUtils } from '../services/utils';
+import { fetchNodes, fetchRatedClaims, queryKeys, toLoadingState } from '../services/queries';
+import { lookupScannedCode, type ScanMatch } from '../services/scanService';
+
+// Hook that loads nodes and rated claims so scanned codes can be resolved to companies
+export const useProductLookup = () => {
+  const nodesQuery = useQuery({ queryKey: queryKeys.nodes, queryFn: fetchNodes });
+  const claimsQuery = useQuery({ queryKey: queryKeys.ratedClaims(), queryFn: fetchRatedClaims });
+
+  const nodes = useMemo(() => nodesQuery.data ?? [], [nodesQuery.data]);
+  const claims = useMemo(() => claimsQuery.data ?? [], [claimsQuery.data]);
+
+  // Lookups need both data sets, so report the less advanced of the two states
+  const nodesState = toLoadingState(nodesQuery);
+  const claimsState = toLoadingState(claimsQuery);
+  const loading = nodesState === 'error' || claimsState === 'error'
+    ? 'error'
+    : nodesState === 'success' && claimsState === 'success' ? 'success' : 'loading';
+
+  const queryError = nodesQuery.error ?? claimsQuery.error;
+  const error = useMemo(() => queryError ? errorUtils.handleApiError(queryError) : null, [queryError]);
+
+  const { refetch: refetchNodes } = nodesQuery;
+  const { refetch: refetchClaims } = claimsQuery;
+  const refetch = useCallback(() => {
+    refetchNodes();
+    refetchClaims();
+  }, [refetchNodes, refetchClaims]);
+
+  const lookup = useCallback((code: string): ScanMatch | null => {
+    return lookupScannedCode(code, nodes, claims);
+  }, [nodes, claims]);
+
+  return {
+    nodes,
+    claims,
+    lookup,
+    loading,
+    error,
+    refetch,
+    isLoading: loading === 'loading',
+    isReady: loading === 'success',
+    isError: loading === 'error',
+  };
+};
+
+export default useProductLookup;
@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import type { Claim, Node } from '../types';
+import { errorUtils } from '../services/utils';
+import { fetchNodesPage, fetchRatedClaimsPage, queryKeys, toLoadingState } from '../services/queries';
+
+// Records can shift between pages while paging, so keep the latest copy of each id
+const dedupeById = <T extends { id: number }>(records: T[]): T[] =>
+  Array.from(new Map(records.map(record => [record.id, record])).values());
+
+// Rated claims and organization nodes loaded page by page; every caller shares the same cached pages
+export const useRatedClaimPages = () => {
+  const claimsQuery = useInfiniteQuery({
+    queryKey: queryKeys.ratedClaimPages(),
+    queryFn: ({ pageParam }) => fetchRatedClaimsPage(pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: lastPage => lastPage.nextCursor,
+  });
+
+  const nodesQuery = useInfiniteQuery({
+    queryKey: queryKeys.nodePages(),
+    queryFn: ({ pageParam }) => fetchNodesPage(pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: lastPage => lastPage.nextCursor,
+  });
+
+  // Nodes only disambiguate company aliases, so page through them in the background
+  const { hasNextPage: moreNodes, isFetching: fetchingNodes, isFetchNextPageError, fetchNextPage: fetchNextNodes } = nodesQuery;
+  useEffect(() => {
+    if (moreNodes && !fetchingNodes && !isFetchNextPageError) fetchNextNodes();
+  }, [moreNodes, fetchingNodes, isFetchNextPageError, fetchNextNodes]);
+
+  const claims = useMemo(
+    (): Claim[] => dedupeById(claimsQuery.data?.pages.flatMap(page => page.items) ?? []),
+    [claimsQuery.data]
+  );
+  const nodes = useMemo(
+    (): Node[] => dedupeById(nodesQuery.data?.pages.flatMap(page => page.items) ?? []),
+    [nodesQuery.data]
+  );
+
+  const pages = claimsQuery.data?.pages ?? [];
+  const totalClaims = pages.length > 0 ? pages[pages.length - 1].total : 0;
+
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = claimsQuery;
+  const loadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const loading = toLoadingState(claimsQuery);
+  const error = useMemo(
+    () => claimsQuery.error ? errorUtils.handleApiError(claimsQuery.error) : null,
+    [claimsQuery.error]
+  );
+
+  return {
+    claims,
+    nodes,
+    loadedClaims: claims.length,
+    totalClaims: Math.max(totalClaims, claims.length),
+    hasMore: Boolean(hasNextPage),
+    isLoadingMore: isFetchingNextPage,
+    loadMore,
+    // Identities are stable once the first claim page and every node page have settled, even after a failure
+    isSettled: !claimsQuery.isPending && !nodesQuery.isPending && !(moreNodes && !isFetchNextPageError),
+    loading,
+    error,
+    refetch: () => { claimsQuery.refetch(); nodesQuery.refetch(); },
+    isLoading: loading === 'loading',
+    isSuccess: loading === 'success',
+    isError: loading === 'error',
+  };
+};
+
+export default useRatedClaimPages;
@@ -0,0 +1,15 @@
+import { useSyncExternalStore } from 'react';
+import { clearRejections, getRejections, subscribeRejections } from '../services/rejectionReport';
+
+// Hook for the records rejected by schema validation during this session
+export const useRejectionReport = () => {
+  const rejections = useSyncExternalStore(subscribeRejections, getRejections);
+
+  return {
+    rejections,
+    count: rejections.length,
+    clear: clearRejections,
+  };
+};
+
+export default useRejectionReport;
@@ -0,0 +1,17 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { getSyncStatus, subscribeSyncStatus } from '../services/syncStatus';
+import { syncOfflineStore } from '../services/queries';
+
+// Hook for the connection / offline-store state shown in the layout, with a manual sync trigger
+export const useSyncStatus = () => {
+  const status = useSyncExternalStore(subscribeSyncStatus, getSyncStatus);
+
+  const sync = useCallback(() => syncOfflineStore(), []);
+
+  return {
+    ...status,
+    sync,
+  };
+};
+
+export default useSyncStatus;
@@ -2,15 +2,25 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import { ThemeProvider } from '@mui/material/styles'
 import { CssBaseline } from '@mui/material'
+import { QueryClientProvider } from '@tanstack/react-query'
 import './index.css'
 import App from './App.tsx'
 import { linkedTrustTheme } from './theme/theme.ts'
+import { queryClient, startOfflineSync } from './services/queries.ts'
+import { registerServiceWorker } from './services/serviceWorker.ts'
+import { startLiveUpdates } from './services/liveUpdates.ts'
+
+startOfflineSync()
+registerServiceWorker()
+startLiveUpdates()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <ThemeProvider theme={linkedTrustTheme}>
-      <CssBaseline />
-      <App />
-    </ThemeProvider>
+    <QueryClientProvider client={queryClient}>
+      <ThemeProvider theme={linkedTrustTheme}>
+        <CssBaseline />
+        <App />
+      </ThemeProvider>
+    </QueryClientProvider>
   </StrictMode>,
 )
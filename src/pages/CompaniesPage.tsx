@@ -1,4 +1,5 @@
 import React from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import {
   Box,
   Typography,
@@ -9,31 +10,96 @@ import {
   Grid,
   Chip,
   Alert,
+  Badge,
+  Collapse,
+  Divider,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  IconButton,
+  Tooltip,
+  LinearProgress,
+  ToggleButton,
+  ToggleButtonGroup,
 } from '@mui/material';
+import type { SelectChangeEvent } from '@mui/material';
 import {
   Search,
   FilterList,
   Business,
   Refresh,
+  CompareArrows,
+  ArrowUpward,
+  ArrowDownward,
+  GridView,
+  TableRows,
 } from '@mui/icons-material';
 import { useCompanies } from '../hooks';
-import { CompanyGrid } from '../components/Company';
-import { LoadingSpinner, ErrorMessage } from '../components/Common';
+import { CompanyGrid, CompanyFilterPanel, CompanyTable } from '../components/Company';
+import { LoadingSpinner, ErrorMessage, ExportMenu } from '../components/Common';
+import type { CompanyCardData } from '../types';
+import { MAX_COMPARE_COMPANIES, MIN_COMPARE_COMPANIES, buildComparisonPath } from '../services/comparison';
+import {
+  DEFAULT_COMPANY_FILTERS,
+  SORT_FIELD_LABELS,
+  applyCompanyFilters,
+  collectSources,
+  countActiveFilters,
+  parseCompanyFilters,
+  serializeCompanyFilters,
+  type CompanyFilters,
+  type CompanySortField,
+} from '../services/companyFilters';
+import { COMPANY_COLUMNS, exportTables, type ExportFormat } from '../services/tableExport';
 
 const CompaniesPage: React.FC = () => {
-  const { companies, error, refetch, isLoading, isError } = useCompanies();
-  const [searchTerm, setSearchTerm] = React.useState('');
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = React.useMemo(() => parseCompanyFilters(searchParams), [searchParams]);
+  const activeFilterCount = countActiveFilters(filters);
+  const [filtersOpen, setFiltersOpen] = React.useState(activeFilterCount > 0);
+  const searchTerm = filters.search;
+  const [compareSelection, setCompareSelection] = React.useState<string[]>([]);
+  const [view, setView] = React.useState<'grid' | 'table'>('grid');
+  const {
+    companies,
+    entries,
+    loadedClaims,
+    totalClaims,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+    isSearching,
+    error,
+    refetch,
+    isLoading,
+    isError,
+  } = useCompanies(searchTerm);
+
+  // A short filtered list keeps the end of the grid in view, so scrolling would page through everything;
+  // while narrowed, further pages load only on request
+  const narrowed = Boolean(searchTerm) || activeFilterCount > 0;
+  const hasPartial = companies.some(company => company.partial);
+
+  const handleToggleCompare = React.useCallback((company: CompanyCardData) => {
+    setCompareSelection(prev => {
+      if (prev.includes(company.subject)) {
+        return prev.filter(subject => subject !== company.subject);
+      }
+      return prev.length >= MAX_COMPARE_COMPANIES ? prev : [...prev, company.subject];
+    });
+  }, []);
+
+  // Every filter lives in the URL so a filtered view can be bookmarked or shared
+  const setFilters = React.useCallback((next: CompanyFilters) => {
+    setSearchParams(serializeCompanyFilters(next), { replace: true });
+  }, [setSearchParams]);
 
-  // Filter companies based on search term
-  const filteredCompanies = React.useMemo(() => {
-    if (!searchTerm.trim()) return companies;
-    
-    const term = searchTerm.toLowerCase();
-    return companies.filter(company =>
-      company.subject.toLowerCase().includes(term) ||
-      company.grade.toLowerCase().includes(term)
-    );
-  }, [companies, searchTerm]);
+  // Filter and sort companies on search term and facets
+  const filteredEntries = React.useMemo(() => applyCompanyFilters(entries, filters), [entries, filters]);
+  const filteredCompanies = React.useMemo(() => filteredEntries.map(entry => entry.company), [filteredEntries]);
+  const availableSources = React.useMemo(() => collectSources(entries), [entries]);
 
   // Statistics
   const totalCompanies = companies.length;
@@ -48,11 +114,29 @@ const CompaniesPage: React.FC = () => {
   }, {} as Record<string, number>);
 
   const handleSearchChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    setSearchTerm(event.target.value);
+    setFilters({ ...filters, search: event.target.value });
   };
 
   const clearSearch = () => {
-    setSearchTerm('');
+    setFilters({ ...filters, search: '' });
+  };
+
+  // Clear search and facets but keep the chosen sort order
+  const clearFilters = () => {
+    setFilters({ ...DEFAULT_COMPANY_FILTERS, sortBy: filters.sortBy, sortDirection: filters.sortDirection });
+  };
+
+  const handleSortChange = (event: SelectChangeEvent<string>) => {
+    setFilters({ ...filters, sortBy: event.target.value as CompanySortField });
+  };
+
+  const toggleSortDirection = () => {
+    setFilters({ ...filters, sortDirection: filters.sortDirection === 'asc' ? 'desc' : 'asc' });
+  };
+
+  // Export exactly the filtered, sorted list on screen
+  const handleExport = (format: ExportFormat) => {
+    exportTables([{ name: 'Companies', rows: filteredEntries, columns: COMPANY_COLUMNS }], format, 'esg-companies');
   };
 
   return (
@@ -69,7 +153,7 @@ const CompaniesPage: React.FC = () => {
         {/* Search and Filters */}
         <Paper elevation={1} sx={{ p: 3, mb: 3 }}>
           <Grid container spacing={3} alignItems="center">
-            <Grid item xs={12} md={8}>
+            <Grid item xs={12} md={5}>
               <TextField
                 fullWidth
                 placeholder="Search for companies by name, ticker, or ESG grade..."
@@ -90,16 +174,43 @@ const CompaniesPage: React.FC = () => {
               />
             </Grid>
             
+            <Grid item xs={12} md={3}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <FormControl size="small" fullWidth>
+                  <InputLabel id="company-sort-label">Sort by</InputLabel>
+                  <Select
+                    labelId="company-sort-label"
+                    value={filters.sortBy}
+                    label="Sort by"
+                    onChange={handleSortChange}
+                  >
+                    {(Object.keys(SORT_FIELD_LABELS) as CompanySortField[]).map(field => (
+                      <MenuItem key={field} value={field}>
+                        {SORT_FIELD_LABELS[field]}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <Tooltip title={filters.sortDirection === 'asc' ? 'Ascending' : 'Descending'}>
+                  <IconButton onClick={toggleSortDirection} aria-label="Toggle sort direction">
+                    {filters.sortDirection === 'asc' ? <ArrowUpward /> : <ArrowDownward />}
+                  </IconButton>
+                </Tooltip>
+              </Box>
+            </Grid>
+
             <Grid item xs={12} md={4}>
               <Box sx={{ display: 'flex', gap: 1, justifyContent: { xs: 'flex-start', md: 'flex-end' } }}>
-                <Button
-                  variant="outlined"
-                  startIcon={<FilterList />}
-                  sx={{ textTransform: 'none' }}
-                  disabled // Placeholder for future filter functionality
-                >
-                  Filters
-                </Button>
+                <Badge badgeContent={activeFilterCount} color="primary">
+                  <Button
+                    variant={filtersOpen ? 'contained' : 'outlined'}
+                    startIcon={<FilterList />}
+                    onClick={() => setFiltersOpen(open => !open)}
+                    sx={{ textTransform: 'none' }}
+                  >
+                    Filters
+                  </Button>
+                </Badge>
                 
                 {!isLoading && (
                   <Button
@@ -111,23 +222,56 @@ const CompaniesPage: React.FC = () => {
                     Refresh
                   </Button>
                 )}
+
+                <Button
+                  variant="contained"
+                  startIcon={<CompareArrows />}
+                  disabled={compareSelection.length < MIN_COMPARE_COMPANIES}
+                  onClick={() => navigate(buildComparisonPath(compareSelection))}
+                  sx={{ textTransform: 'none' }}
+                >
+                  Compare ({compareSelection.length})
+                </Button>
               </Box>
             </Grid>
           </Grid>
 
+          {/* Facet Filters */}
+          <Collapse in={filtersOpen} unmountOnExit>
+            <Divider sx={{ my: 3 }} />
+            <CompanyFilterPanel
+              filters={filters}
+              availableSources={availableSources}
+              onChange={setFilters}
+              onReset={clearFilters}
+            />
+          </Collapse>
+
           {/* Search Results Info */}
-          {searchTerm && (
+          {(searchTerm || activeFilterCount > 0) && (
             <Box sx={{ mt: 2, display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
               <Typography variant="body2" color="text.secondary">
-                Showing {filteredCount} of {totalCompanies} companies
+                {isSearching ? 'Searching...' : `Showing ${filteredCount} of ${totalCompanies} companies`}
+                {hasMore && activeFilterCount > 0 && ' (filters apply to the companies loaded so far)'}
               </Typography>
-              <Chip
-                label={`"${searchTerm}"`}
-                size="small"
-                onDelete={clearSearch}
-                color="primary"
-                variant="outlined"
-              />
+              {searchTerm && (
+                <Chip
+                  label={`"${searchTerm}"`}
+                  size="small"
+                  onDelete={clearSearch}
+                  color="primary"
+                  variant="outlined"
+                />
+              )}
+              {activeFilterCount > 0 && (
+                <Chip
+                  label={`${activeFilterCount} filter${activeFilterCount === 1 ? '' : 's'}`}
+                  size="small"
+                  onDelete={clearFilters}
+                  color="primary"
+                  variant="outlined"
+                />
+              )}
             </Box>
           )}
         </Paper>
@@ -182,8 +326,9 @@ const CompaniesPage: React.FC = () => {
         {/* Info Alert */}
         <Alert severity="info" sx={{ mb: 4, borderRadius: 2 }}>
           <Typography variant="body2">
-            <strong>Real-time Data:</strong> Company ratings are updated regularly based on the latest ESG assessments 
-            from verified sources. Click on any company card to view detailed ESG information.
+            <strong>Company ratings</strong> are calculated from the latest ESG assessments; the banner at the top
+            shows whether they come from the live backend, a saved offline copy or sample data.
+            Click on any company card to view detailed ESG information.
           </Typography>
         </Alert>
       </Box>
@@ -204,13 +349,63 @@ const CompaniesPage: React.FC = () => {
           />
         )}
 
-        {/* Companies Grid */}
+        {/* View and Export */}
         {!isLoading && !isError && filteredCompanies.length > 0 && (
-          <CompanyGrid companies={filteredCompanies} />
+          <Box sx={{ display: 'flex', justifyContent: 'flex-end', alignItems: 'center', gap: 2, mb: 2 }}>
+            <ExportMenu onExport={handleExport} />
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={view}
+              onChange={(_, next: 'grid' | 'table' | null) => next && setView(next)}
+              aria-label="Company view"
+            >
+              <ToggleButton value="grid" aria-label="Card view">
+                <GridView fontSize="small" />
+              </ToggleButton>
+              <ToggleButton value="table" aria-label="Table view">
+                <TableRows fontSize="small" />
+              </ToggleButton>
+            </ToggleButtonGroup>
+          </Box>
+        )}
+
+        {/* Companies Grid */}
+        {!isLoading && !isError && filteredCompanies.length > 0 && view === 'grid' && (
+          <CompanyGrid
+            companies={filteredCompanies}
+            compareSelection={compareSelection}
+            onToggleCompare={handleToggleCompare}
+            onEndReached={narrowed ? undefined : loadMore}
+          />
+        )}
+
+        {/* Companies Table */}
+        {!isLoading && !isError && filteredCompanies.length > 0 && view === 'table' && (
+          <CompanyTable entries={filteredEntries} />
+        )}
+
+        {/* Incremental Loading */}
+        {!isLoading && !isError && (hasMore || isLoadingMore) && (
+          <Box sx={{ mt: 3, textAlign: 'center' }}>
+            {isLoadingMore && <LinearProgress sx={{ mb: 2, borderRadius: 1 }} />}
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              Loaded {loadedClaims} of {totalClaims} rated claims
+              {hasPartial && '; companies marked "Partial" may have more claims on pages not loaded yet'}
+            </Typography>
+            <Button
+              variant="outlined"
+              onClick={loadMore}
+              disabled={isLoadingMore}
+              sx={{ textTransform: 'none' }}
+            >
+              {isLoadingMore ? 'Loading...' : 'Load more'}
+            </Button>
+          </Box>
         )}
 
         {/* No Results State */}
-        {!isLoading && !isError && companies.length > 0 && filteredCompanies.length === 0 && (
+        {!isLoading && !isError && companies.length > 0 && filteredCompanies.length === 0 && !hasMore && (
           <Paper
             sx={{
               p: 6,
@@ -223,14 +418,14 @@ const CompaniesPage: React.FC = () => {
               No Companies Found
             </Typography>
             <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
-              No companies match your search criteria. Try adjusting your search terms.
+              No companies match your search criteria. Try adjusting your search terms or filters.
             </Typography>
             <Button
               variant="outlined"
-              onClick={clearSearch}
+              onClick={clearFilters}
               sx={{ textTransform: 'none' }}
             >
-              Clear Search
+              Clear Filters
             </Button>
           </Paper>
         )}
@@ -0,0 +1,234 @@
+import React from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Paper,
+  Autocomplete,
+  TextField,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Alert,
+  FormControlLabel,
+  Switch,
+  Link,
+} from '@mui/material';
+import { CompareArrows } from '@mui/icons-material';
+import { useCompanies, useCompaniesESGMetrics } from '../hooks';
+import { LoadingSpinner, ErrorMessage, GradeChip, MethodologySelector } from '../components/Common';
+import ESGCalculationEngine from '../services/esgCalculations';
+import { transformUtils } from '../services/utils';
+import { buildCompanyPath } from '../services/companyResolver';
+import {
+  MIN_COMPARE_COMPANIES,
+  MAX_COMPARE_COMPANIES,
+  buildComparisonRows,
+  formatComparisonValue,
+  parseComparisonSubjects,
+  type ComparisonCompany,
+} from '../services/comparison';
+
+const CompanyComparisonPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [differencesOnly, setDifferencesOnly] = React.useState(false);
+
+  // Selection lives in the URL so comparisons can be shared
+  const selectedSubjects = React.useMemo(() => parseComparisonSubjects(searchParams), [searchParams]);
+
+  // Only the selected companies are looked up; the picker offers the companies loaded so far and accepts any name
+  const { companies, resolveKey, methodology, error, refresh, isLoading, isError } = useCompaniesESGMetrics(selectedSubjects);
+  const { companies: loadedCompanies } = useCompanies();
+
+  const handleSelectionChange = (_: React.SyntheticEvent, subjects: string[]) => {
+    const params = new URLSearchParams();
+    subjects.slice(0, MAX_COMPARE_COMPANIES).forEach(subject => params.append('company', subject));
+    setSearchParams(params);
+  };
+
+  const comparedCompanies = React.useMemo((): ComparisonCompany[] => {
+    return selectedSubjects
+      .map(subject => companies.find(company => company.key === resolveKey(subject)))
+      .filter((company): company is NonNullable<typeof company> => Boolean(company))
+      .map(company => ({
+        subject: company.subject,
+        esgMetrics: company.esgMetrics,
+        validationMetrics: ESGCalculationEngine.calculateValidationMetrics(company.claims),
+        categoryDetails: ESGCalculationEngine.getCategoryAttributeDetails(company.claims, methodology),
+      }));
+  }, [selectedSubjects, companies, resolveKey, methodology]);
+
+  const rows = React.useMemo(() => buildComparisonRows(comparedCompanies), [comparedCompanies]);
+  const visibleRows = differencesOnly ? rows.filter(row => row.differs) : rows;
+
+  const unknownSubjects = isLoading
+    ? []
+    : selectedSubjects.filter(subject => !companies.some(company => company.key === resolveKey(subject)));
+
+  const canCompare = comparedCompanies.length >= MIN_COMPARE_COMPANIES;
+
+  return (
+    <Box>
+      {/* Header Section */}
+      <Box sx={{ mb: 4 }}>
+        <Typography variant="h3" component="h1" gutterBottom sx={{ fontWeight: 600 }}>
+          Compare Companies
+        </Typography>
+        <Typography variant="subtitle1" color="text.secondary" sx={{ mb: 3 }}>
+          Compare ESG pillars, attributes, validator consensus and confidence side by side
+        </Typography>
+
+        <Paper elevation={1} sx={{ p: 3, mb: 3 }}>
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+            <Autocomplete
+              multiple
+              freeSolo
+              sx={{ flexGrow: 1, minWidth: 300 }}
+              options={loadedCompanies.map(company => company.subject)}
+              value={selectedSubjects}
+              onChange={handleSelectionChange}
+              getOptionDisabled={option =>
+                selectedSubjects.length >= MAX_COMPARE_COMPANIES && !selectedSubjects.includes(option)
+              }
+              renderInput={(params) => (
+                <TextField
+                  {...params}
+                  label={`Companies (${MIN_COMPARE_COMPANIES}-${MAX_COMPARE_COMPANIES})`}
+                  placeholder="Add a company..."
+                />
+              )}
+            />
+            <MethodologySelector />
+            <FormControlLabel
+              control={<Switch checked={differencesOnly} onChange={(e) => setDifferencesOnly(e.target.checked)} />}
+              label="Only show differences"
+            />
+          </Box>
+        </Paper>
+
+        {unknownSubjects.length > 0 && (
+          <Alert severity="warning" sx={{ mb: 3, borderRadius: 2 }}>
+            No ESG data found for: {unknownSubjects.join(', ')}
+          </Alert>
+        )}
+      </Box>
+
+      {/* Loading State */}
+      {isLoading && (
+        <LoadingSpinner message="Loading companies..." />
+      )}
+
+      {/* Error State */}
+      {isError && error && (
+        <ErrorMessage
+          error={error}
+          onRetry={refresh}
+          title="Failed to Load Companies"
+        />
+      )}
+
+      {/* Not enough companies selected */}
+      {!isLoading && !isError && !canCompare && (
+        <Paper
+          sx={{
+            p: 6,
+            textAlign: 'center',
+            backgroundColor: 'grey.50',
+          }}
+        >
+          <CompareArrows sx={{ fontSize: 64, color: 'grey.400', mb: 2 }} />
+          <Typography variant="h6" gutterBottom color="text.secondary">
+            Select at least {MIN_COMPARE_COMPANIES} companies
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Pick up to {MAX_COMPARE_COMPANIES} companies above, or select them from the Search page.
+          </Typography>
+        </Paper>
+      )}
+
+      {/* Comparison Table */}
+      {!isLoading && !isError && canCompare && (
+        <TableContainer component={Paper} elevation={2}>
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ fontWeight: 600, minWidth: 200 }}>Metric</TableCell>
+                {comparedCompanies.map(company => (
+                  <TableCell key={company.subject} align="center" sx={{ minWidth: 160 }}>
+                    <Link
+                      component="button"
+                      variant="subtitle2"
+                      onClick={() => {
+                        const entry = companies.find(c => c.subject === company.subject);
+                        if (entry) navigate(buildCompanyPath(entry.identity.slug));
+                      }}
+                      sx={{ fontWeight: 600 }}
+                    >
+                      {transformUtils.extractCompanyName(company.subject)}
+                    </Link>
+                    <Box sx={{ mt: 0.5 }}>
+                      <GradeChip grade={company.esgMetrics.overallGrade} size="small" />
+                    </Box>
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {visibleRows.map((row, index) => {
+                const startsSection = index === 0 || visibleRows[index - 1].section !== row.section;
+                return (
+                  <React.Fragment key={row.id}>
+                    {startsSection && (
+                      <TableRow>
+                        <TableCell
+                          colSpan={comparedCompanies.length + 1}
+                          sx={{ bgcolor: 'grey.50', fontWeight: 700, color: 'text.secondary' }}
+                        >
+                          {row.section}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    <TableRow hover>
+                      <TableCell>
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          {row.label}
+                          {row.differs && (
+                            <Chip label="differs" size="small" color="warning" variant="outlined" sx={{ height: 20, fontSize: '0.65rem' }} />
+                          )}
+                        </Box>
+                      </TableCell>
+                      {row.values.map((value, column) => {
+                        const isBest = row.best.includes(column);
+                        const isWorst = row.worst.includes(column);
+                        return (
+                          <TableCell
+                            key={column}
+                            align="center"
+                            sx={{
+                              fontWeight: isBest || isWorst ? 700 : 400,
+                              color: isBest ? 'success.dark' : isWorst ? 'error.dark' : 'text.primary',
+                              bgcolor: isBest ? 'rgba(16, 185, 129, 0.08)' : isWorst ? 'rgba(239, 68, 68, 0.08)' : 'transparent',
+                            }}
+                          >
+                            {formatComparisonValue(value, row.format)}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  </React.Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Box>
+  );
+};
+
+export default CompanyComparisonPage;
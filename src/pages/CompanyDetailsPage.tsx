@@ -13,18 +13,62 @@ import {
   ArrowBack,
   Home,
   Business,
+  RateReview,
+  Download,
+  UploadFile,
+  PictureAsPdf,
+  Science,
 } from '@mui/icons-material';
-import { useClaim } from '../hooks';
+import type { Claim } from '../types';
+import { useCompany, useNotification, useSyncStatus } from '../hooks';
 import ESGCalculationEngine from '../services/esgCalculations';
-import { CompanyDetails } from '../components/Company';
-import { LoadingSpinner, ErrorMessage } from '../components/Common';
+import { downloadCredentials } from '../services/verifiableCredentials';
+import { buildCompanyPath } from '../services/companyResolver';
+import { buildCompanyReportPath } from '../services/companyReport';
+import { DATA_SOURCE_DESCRIPTIONS } from '../services/dataSource';
+import { CLAIM_COLUMNS, VALIDATOR_COLUMNS, exportTables, toValidatorRows, type ExportFormat } from '../services/tableExport';
+import { CompanyDetails, CredentialImportDialog } from '../components/Company';
+import { LoadingSpinner, ErrorMessage, MethodologySelector, NotificationSnackbar, ExportMenu } from '../components/Common';
 
 const CompanyDetailsPage: React.FC = () => {
-  const { id } = useParams<{ id: string }>();
+  const { companyKey } = useParams<{ companyKey: string }>();
   const navigate = useNavigate();
-  const claimId = id ? parseInt(id, 10) : undefined;
 
-  const { claim, esgMetrics, validationMetrics, error, refetch, isLoading, isError, hasESGData, allCompanyClaims } = useClaim(claimId);
+  const { company, canonicalSlug, claim, esgMetrics, validationMetrics, methodology, error, refetch, isLoading, isError, hasESGData, allCompanyClaims, applyValidation } = useCompany(companyKey);
+  const { notification, showSuccess, hideNotification } = useNotification();
+  const { source } = useSyncStatus();
+  const [importOpen, setImportOpen] = React.useState(false);
+
+  // Companies reached by ISIN, ticker, nodeUri or an alias settle on their canonical slug
+  React.useEffect(() => {
+    if (claim && canonicalSlug && canonicalSlug !== companyKey) {
+      navigate(buildCompanyPath(canonicalSlug), { replace: true });
+    }
+  }, [claim, canonicalSlug, companyKey, navigate]);
+
+  const handleExportCredentials = () => {
+    if (!claim) return;
+    downloadCredentials(allCompanyClaims.length > 0 ? allCompanyClaims : [claim], `${company?.slug || 'company'}-credentials.jsonld`);
+  };
+
+  // Raw claims and their validators, one table each
+  const handleExportData = (format: ExportFormat) => {
+    exportTables([
+      { name: 'Claims', rows: allCompanyClaims, columns: CLAIM_COLUMNS },
+      { name: 'Validators', rows: toValidatorRows(allCompanyClaims), columns: VALIDATOR_COLUMNS },
+    ], format, `${company?.slug || 'company'}-claims`);
+  };
+
+  const handleCredentialsImported = (claims: Claim[]) => {
+    const otherCompanies = claims.filter(imported => imported.subject !== claim?.subject).length;
+    showSuccess(
+      otherCompanies > 0
+        ? `${claims.length} claim(s) imported, ${otherCompanies} for other companies`
+        : `${claims.length} claim(s) imported`,
+      'Credentials Imported'
+    );
+    refetch();
+  };
 
   const handleBack = () => {
     navigate(-1);
@@ -146,23 +190,74 @@ const CompanyDetailsPage: React.FC = () => {
           </Typography>
         </Breadcrumbs>
 
-        <Button
-          variant="outlined"
-          startIcon={<ArrowBack />}
-          onClick={handleBack}
-          sx={{ textTransform: 'none' }}
-        >
-          Back
-        </Button>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <MethodologySelector />
+          <Button
+            variant="outlined"
+            startIcon={<PictureAsPdf />}
+            onClick={() => navigate(buildCompanyReportPath(canonicalSlug ?? companyKey ?? '', true))}
+            disabled={!hasESGData}
+            sx={{ textTransform: 'none' }}
+          >
+            Export report
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<Science />}
+            onClick={() => navigate(`${buildCompanyPath(canonicalSlug ?? companyKey ?? '')}/scenario`)}
+            disabled={!hasESGData}
+            sx={{ textTransform: 'none' }}
+          >
+            What-if
+          </Button>
+          <ExportMenu
+            label="Export data"
+            onExport={handleExportData}
+            disabled={allCompanyClaims.length === 0}
+          />
+          <Button
+            variant="outlined"
+            startIcon={<Download />}
+            onClick={handleExportCredentials}
+            sx={{ textTransform: 'none' }}
+          >
+            Export VC
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<UploadFile />}
+            onClick={() => setImportOpen(true)}
+            sx={{ textTransform: 'none' }}
+          >
+            Import VC
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<RateReview />}
+            onClick={() => navigate(`/rate?subject=${encodeURIComponent(claim.subject)}`)}
+            sx={{ textTransform: 'none' }}
+          >
+            Rate
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<ArrowBack />}
+            onClick={handleBack}
+            sx={{ textTransform: 'none' }}
+          >
+            Back
+          </Button>
+        </Box>
       </Box>
 
       {/* Info Alert */}
-      <Alert severity="info" sx={{ mb: 4, borderRadius: 2 }}>
-        <Typography variant="body2">
-          <strong>Data Source:</strong> This information is sourced from verified ESG rating agencies and 
-          continuously updated to ensure accuracy and transparency.
-        </Typography>
-      </Alert>
+      {source && (
+        <Alert severity={source === 'network' ? 'info' : 'warning'} sx={{ mb: 4, borderRadius: 2 }}>
+          <Typography variant="body2">
+            <strong>Data Source:</strong> {DATA_SOURCE_DESCRIPTIONS[source]}
+          </Typography>
+        </Alert>
+      )}
 
 
       {/* Company Details */}
@@ -171,7 +266,23 @@ const CompanyDetailsPage: React.FC = () => {
         esgMetrics={esgMetrics}
         validationMetrics={validationMetrics}
         hasESGData={hasESGData}
-        categoryDetails={hasESGData && allCompanyClaims && allCompanyClaims.length > 0 ? ESGCalculationEngine.getCategoryAttributeDetails(allCompanyClaims) : null}
+        categoryDetails={hasESGData && allCompanyClaims && allCompanyClaims.length > 0 ? ESGCalculationEngine.getCategoryAttributeDetails(allCompanyClaims, methodology) : null}
+        claims={allCompanyClaims}
+        onValidationAdded={applyValidation}
+      />
+
+      <CredentialImportDialog
+        open={importOpen}
+        onClose={() => setImportOpen(false)}
+        onImported={handleCredentialsImported}
+      />
+
+      <NotificationSnackbar
+        open={notification.open}
+        message={notification.message}
+        severity={notification.severity}
+        title={notification.title}
+        onClose={hideNotification}
       />
     </Box>
   );
@@ -0,0 +1,95 @@
+import React from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { Box, Button, GlobalStyles, Paper, Typography } from '@mui/material';
+import { ArrowBack, Business, Print } from '@mui/icons-material';
+import { useCompany } from '../hooks';
+import { CompanyReport } from '../components/Company';
+import { LoadingSpinner, ErrorMessage, MethodologySelector } from '../components/Common';
+import { buildCompanyPath } from '../services/companyResolver';
+import { buildCompanyReport, buildCompanyReportPath } from '../services/companyReport';
+
+const CompanyReportPage: React.FC = () => {
+  const { companyKey } = useParams<{ companyKey: string }>();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { company, canonicalSlug, claim, esgMetrics, allCompanyClaims, methodology, error, refetch, isLoading, isError } = useCompany(companyKey);
+
+  const report = React.useMemo(() => {
+    if (!claim || !esgMetrics) return null;
+    return buildCompanyReport(claim.subject, allCompanyClaims, esgMetrics, methodology);
+  }, [claim, esgMetrics, allCompanyClaims, methodology]);
+
+  const shouldPrint = searchParams.get('print') === '1';
+  const slug = canonicalSlug ?? companyKey ?? '';
+
+  // Open the print dialog once the report has rendered, then drop the flag so reloads don't re-print
+  React.useEffect(() => {
+    if (!report || !shouldPrint) return;
+    const timer = window.setTimeout(() => {
+      window.print();
+      navigate(buildCompanyReportPath(slug), { replace: true });
+    }, 0);
+    return () => window.clearTimeout(timer);
+  }, [report, shouldPrint, slug, navigate]);
+
+  if (isLoading) {
+    return <LoadingSpinner message="Preparing report..." />;
+  }
+
+  if (isError && error) {
+    return (
+      <ErrorMessage
+        error={error}
+        onRetry={refetch}
+        title="Failed to Load Company Report"
+      />
+    );
+  }
+
+  if (!report) {
+    return (
+      <Paper sx={{ p: 6, textAlign: 'center', backgroundColor: 'grey.50' }}>
+        <Business sx={{ fontSize: 64, color: 'grey.400', mb: 2 }} />
+        <Typography variant="h6" gutterBottom color="text.secondary">
+          No ESG Data to Report
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          {company ? `${company.name} has no rated claims yet.` : 'The requested company could not be found.'}
+        </Typography>
+      </Paper>
+    );
+  }
+
+  return (
+    <Box>
+      <GlobalStyles styles={{ '@page': { size: 'A4', margin: '12mm' } }} />
+
+      {/* Actions (not printed) */}
+      <Box sx={{ mb: 3, display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 2, displayPrint: 'none' }}>
+        <Button
+          variant="outlined"
+          startIcon={<ArrowBack />}
+          onClick={() => navigate(buildCompanyPath(slug))}
+          sx={{ textTransform: 'none' }}
+        >
+          Back to company
+        </Button>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <MethodologySelector />
+          <Button
+            variant="contained"
+            startIcon={<Print />}
+            onClick={() => window.print()}
+            sx={{ textTransform: 'none' }}
+          >
+            Print / Save as PDF
+          </Button>
+        </Box>
+      </Box>
+
+      <CompanyReport report={report} />
+    </Box>
+  );
+};
+
+export default CompanyReportPage;
@@ -0,0 +1,105 @@
+import React from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Box, Button, Grid, Paper, Typography } from '@mui/material';
+import { ArrowBack, Business, RestartAlt } from '@mui/icons-material';
+import { useCompany } from '../hooks';
+import { LoadingSpinner, ErrorMessage, MethodologySelector } from '../components/Common';
+import { ScenarioEditor, ScenarioComparison } from '../components/Scenario';
+import { buildCompanyPath } from '../services/companyResolver';
+import { EMPTY_SCENARIO, compareScenario, isScenarioEmpty, type Scenario } from '../services/scenario';
+
+const CompanyScenarioPage: React.FC = () => {
+  const { companyKey } = useParams<{ companyKey: string }>();
+  const navigate = useNavigate();
+  const { company, canonicalSlug, claim, allCompanyClaims, methodology, error, refetch, isLoading, isError, hasESGData } = useCompany(companyKey);
+  const [scenario, setScenario] = React.useState<Scenario>(EMPTY_SCENARIO);
+
+  const comparison = React.useMemo(
+    () => hasESGData ? compareScenario(allCompanyClaims, scenario, methodology) : null,
+    [hasESGData, allCompanyClaims, scenario, methodology]
+  );
+
+  if (isLoading) {
+    return <LoadingSpinner message="Loading company claims..." />;
+  }
+
+  if (isError && error) {
+    return (
+      <ErrorMessage
+        error={error}
+        onRetry={refetch}
+        title="Failed to Load Company"
+      />
+    );
+  }
+
+  if (!claim || !comparison) {
+    return (
+      <Paper sx={{ p: 6, textAlign: 'center', backgroundColor: 'grey.50' }}>
+        <Business sx={{ fontSize: 64, color: 'grey.400', mb: 2 }} />
+        <Typography variant="h6" gutterBottom color="text.secondary">
+          No ESG Data to Simulate
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          {company ? `${company.name} has no rated claims yet.` : 'The requested company could not be found.'}
+        </Typography>
+      </Paper>
+    );
+  }
+
+  return (
+    <Box>
+      {/* Header Section */}
+      <Box sx={{ mb: 4, display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 2, flexWrap: 'wrap' }}>
+        <Box>
+          <Typography variant="h3" component="h1" gutterBottom sx={{ fontWeight: 600 }}>
+            What-if Scenario
+          </Typography>
+          <Typography variant="subtitle1" color="text.secondary">
+            {claim.subject}: explore how hypothetical claims, retractions and pillar weights would change the rating.
+            Nothing here is saved or published.
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <MethodologySelector />
+          <Button
+            variant="outlined"
+            startIcon={<RestartAlt />}
+            disabled={isScenarioEmpty(scenario)}
+            onClick={() => setScenario(EMPTY_SCENARIO)}
+            sx={{ textTransform: 'none' }}
+          >
+            Reset
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<ArrowBack />}
+            onClick={() => navigate(buildCompanyPath(canonicalSlug ?? companyKey ?? ''))}
+            sx={{ textTransform: 'none' }}
+          >
+            Back to company
+          </Button>
+        </Box>
+      </Box>
+
+      <Grid container spacing={3}>
+        <Grid item xs={12} md={7}>
+          <ScenarioEditor
+            subject={claim.subject}
+            claims={allCompanyClaims}
+            scenario={scenario}
+            profile={methodology}
+            onChange={setScenario}
+          />
+        </Grid>
+        <Grid item xs={12} md={5}>
+          <Box sx={{ position: { md: 'sticky' }, top: { md: 24 } }}>
+            <ScenarioComparison comparison={comparison} />
+          </Box>
+        </Grid>
+      </Grid>
+    </Box>
+  );
+};
+
+export default CompanyScenarioPage;
@@ -1,4 +1,5 @@
 import React from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
   Box,
   Typography,
@@ -13,14 +14,35 @@ import {
   Business,
   Assessment,
   Refresh,
+  FactCheck,
 } from '@mui/icons-material';
-import { useCompanies } from '../hooks';
+import { useCompanies, useDataQuality, useLiveUpdates, useSyncStatus } from '../hooks';
 import { CompanyGrid } from '../components/Company';
-import { LoadingSpinner, ErrorMessage } from '../components/Common';
+import { LoadingSpinner, ErrorMessage, MethodologySelector, ExportMenu, AnimatedNumber } from '../components/Common';
 import { validationUtils } from '../services/utils';
+import { formatMethodologyLabel } from '../services/methodology';
+import { COMPANY_COLUMNS, exportTables } from '../services/tableExport';
+import { buildCompanyPath } from '../services/companyResolver';
+import { DATA_SOURCE_DESCRIPTIONS, DATA_SOURCE_LABELS } from '../services/dataSource';
 
 const Dashboard: React.FC = () => {
-  const { companies, error, refetch, isLoading, isError } = useCompanies();
+  const navigate = useNavigate();
+  const {
+    companies,
+    entries,
+    methodology,
+    loadedClaims,
+    totalClaims,
+    hasMore,
+    loadMore,
+    error,
+    refetch,
+    isLoading,
+    isError,
+  } = useCompanies();
+  const { report: dataQuality, companies: flaggedCompanies } = useDataQuality();
+  const { source } = useSyncStatus();
+  const { connection, isLive, lastEventAt } = useLiveUpdates();
 
   // Calculate dashboard stats using same logic as company details
   const totalCompanies = companies.length;
@@ -85,25 +107,39 @@ const Dashboard: React.FC = () => {
     });
   }
 
+  const dataQualityColor = dataQuality.counts.error > 0
+    ? 'error.main'
+    : dataQuality.counts.warning > 0 ? 'warning.main' : 'success.main';
+
+  const formatPercent = (value: number) => `${Math.round(value)}%`;
+
   const stats = [
     {
       title: 'Total Companies',
-      value: totalCompanies.toString(),
+      value: totalCompanies,
       icon: <Business sx={{ fontSize: 40, color: 'primary.main' }} />,
       color: 'primary.main',
     },
     {
       title: 'Average ESG Score',
-      value: `${Math.round(avgScore)}%`,
+      value: avgScore,
+      format: formatPercent,
       icon: <Assessment sx={{ fontSize: 40, color: 'secondary.main' }} />,
       color: 'secondary.main',
     },
     {
       title: 'A-Grade Companies',
-      value: highPerformers.toString(),
+      value: highPerformers,
       icon: <TrendingUp sx={{ fontSize: 40, color: 'success.main' }} />,
       color: 'success.main',
     },
+    {
+      title: 'Claims Passing Data Checks',
+      value: dataQuality.cleanPercentage,
+      format: formatPercent,
+      icon: <FactCheck sx={{ fontSize: 40, color: dataQualityColor }} />,
+      color: dataQualityColor,
+    },
   ];
 
   return (
@@ -121,7 +157,7 @@ const Dashboard: React.FC = () => {
         {/* Stats Cards */}
         <Grid container spacing={3} sx={{ mb: 4 }}>
           {stats.map((stat, index) => (
-            <Grid item xs={12} sm={6} md={4} key={index}>
+            <Grid item xs={12} sm={6} md={3} key={index}>
               <Paper
                 elevation={2}
                 sx={{
@@ -138,7 +174,7 @@ const Dashboard: React.FC = () => {
                 </Box>
                 <Box sx={{ flexGrow: 1 }}>
                   <Typography variant="h4" sx={{ fontWeight: 700, color: stat.color, mb: 0.5 }}>
-                    {stat.value}
+                    <AnimatedNumber value={stat.value} format={stat.format} />
                   </Typography>
                   <Typography variant="body2" color="text.secondary">
                     {stat.title}
@@ -149,13 +185,36 @@ const Dashboard: React.FC = () => {
           ))}
         </Grid>
 
+        {/* Data Quality Alert */}
+        {flaggedCompanies.length > 0 && (
+          <Alert severity={dataQuality.counts.error > 0 ? 'error' : 'warning'} sx={{ mb: 2, borderRadius: 2 }}>
+            <Typography variant="body2" sx={{ mb: 1 }}>
+              <strong>Data quality:</strong> {dataQuality.flaggedClaimIds.length} of {dataQuality.claimCount}{hasMore ? ' loaded' : ''} claims
+              have {dataQuality.counts.error > 0 ? `${dataQuality.counts.error} errors and ` : ''}{dataQuality.counts.warning} warnings.
+              Open a company to see its data-quality report.
+            </Typography>
+            <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+              {flaggedCompanies.slice(0, 8).map(({ identity, report }) => (
+                <Chip
+                  key={identity.key}
+                  label={`${identity.subject} (${report.flaggedClaimIds.length})`}
+                  size="small"
+                  variant="outlined"
+                  onClick={() => navigate(buildCompanyPath(identity.slug))}
+                />
+              ))}
+            </Box>
+          </Alert>
+        )}
+
         {/* Info Alert */}
-        <Alert severity="info" sx={{ mb: 4, borderRadius: 2 }}>
-          <Typography variant="body2">
-            <strong>LinkedTrust Platform:</strong> Displaying ESG ratings and attestations from verified sources. 
-            Data is continuously updated to ensure transparency and accuracy.
-          </Typography>
-        </Alert>
+        {source && (
+          <Alert severity={source === 'network' ? 'info' : 'warning'} sx={{ mb: 4, borderRadius: 2 }}>
+            <Typography variant="body2">
+              <strong>LinkedTrust Platform:</strong> {DATA_SOURCE_DESCRIPTIONS[source]}
+            </Typography>
+          </Alert>
+        )}
       </Box>
 
       {/* Companies Section */}
@@ -167,21 +226,51 @@ const Dashboard: React.FC = () => {
             </Typography>
             <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
               <Chip label={`${totalCompanies} Companies`} size="small" />
-              <Chip label="ESG Verified" color="success" size="small" />
-              <Chip label="Real-time Data" color="primary" size="small" />
+              {hasMore && (
+                <Chip
+                  label={`${loadedClaims} of ${totalClaims} claims loaded`}
+                  title="Scroll down to load more companies; ratings marked Partial may change as pages load"
+                  variant="outlined"
+                  size="small"
+                />
+              )}
+              {source && (
+                <Chip
+                  label={DATA_SOURCE_LABELS[source]}
+                  color={source === 'network' ? 'primary' : source === 'mock' ? 'error' : 'warning'}
+                  size="small"
+                />
+              )}
+              {connection !== 'disabled' && (
+                <Chip
+                  label={isLive ? 'Live updates' : connection === 'unavailable' ? 'Live updates unavailable' : 'Connecting to live updates'}
+                  title={lastEventAt ? `Last change received ${lastEventAt.toLocaleTimeString('en-US')}` : undefined}
+                  color={isLive ? 'success' : 'default'}
+                  variant={isLive ? 'filled' : 'outlined'}
+                  size="small"
+                />
+              )}
+              <Chip label={`Methodology: ${formatMethodologyLabel(methodology)}`} variant="outlined" size="small" />
             </Box>
           </Box>
           
-          {!isLoading && (
-            <Button
-              variant="outlined"
-              startIcon={<Refresh />}
-              onClick={refetch}
-              sx={{ textTransform: 'none' }}
-            >
-              Refresh
-            </Button>
-          )}
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+            <MethodologySelector />
+            <ExportMenu
+              disabled={isLoading || entries.length === 0}
+              onExport={(format) => exportTables([{ name: 'Companies', rows: entries, columns: COMPANY_COLUMNS }], format, 'esg-dashboard')}
+            />
+            {!isLoading && (
+              <Button
+                variant="outlined"
+                startIcon={<Refresh />}
+                onClick={refetch}
+                sx={{ textTransform: 'none' }}
+              >
+                Refresh
+              </Button>
+            )}
+          </Box>
         </Box>
 
         {/* Loading State */}
@@ -200,7 +289,7 @@ const Dashboard: React.FC = () => {
 
         {/* Companies Grid */}
         {!isLoading && !isError && (
-          <CompanyGrid companies={companies} />
+          <CompanyGrid companies={companies} onEndReached={loadMore} />
         )}
 
         {/* Empty State */}
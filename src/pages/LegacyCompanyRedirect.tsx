@@ -0,0 +1,52 @@
+import React from 'react';
+import { Navigate, useParams } from 'react-router-dom';
+import { Box } from '@mui/material';
+import { useQuery } from '@tanstack/react-query';
+import { useCompanyResolver } from '../hooks';
+import { buildCompanyPath } from '../services/companyResolver';
+import { fetchClaim, queryKeys } from '../services/queries';
+import { errorUtils } from '../services/utils';
+import { LoadingSpinner, ErrorMessage } from '../components/Common';
+
+// Old /company/:claimId links resolve the claim to its company and redirect to the stable company route
+const LegacyCompanyRedirect: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const claimId = id ? parseInt(id, 10) : NaN;
+  const { resolver, isReady } = useCompanyResolver();
+
+  const claimQuery = useQuery({
+    queryKey: queryKeys.claim(claimId),
+    queryFn: () => fetchClaim(claimId),
+    enabled: !isNaN(claimId),
+  });
+
+  if (isNaN(claimId)) {
+    return <Navigate to="/companies" replace />;
+  }
+
+  if (claimQuery.isError) {
+    return (
+      <Box>
+        <ErrorMessage
+          error={errorUtils.handleApiError(claimQuery.error)}
+          onRetry={() => claimQuery.refetch()}
+          title="Failed to Load Company Details"
+        />
+      </Box>
+    );
+  }
+
+  if (!claimQuery.data || !isReady) {
+    return (
+      <Box>
+        <LoadingSpinner message="Loading company details..." />
+      </Box>
+    );
+  }
+
+  // Subjects the resolver does not know yet are routed by the subject itself
+  const { subject } = claimQuery.data;
+  return <Navigate to={buildCompanyPath(resolver.find(subject)?.slug ?? subject)} replace />;
+};
+
+export default LegacyCompanyRedirect;
@@ -0,0 +1,200 @@
+import React from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Paper,
+  Grid,
+  TextField,
+  Button,
+  List,
+  ListItemButton,
+  ListItemText,
+  IconButton,
+  Tooltip,
+  Divider,
+  Alert,
+} from '@mui/material';
+import { Add, Delete, PieChart } from '@mui/icons-material';
+import { useCompanies, useCompaniesESGMetrics, useCompanyResolver, usePortfolios } from '../hooks';
+import { LoadingSpinner, ErrorMessage, MethodologySelector } from '../components/Common';
+import { PortfolioHoldingsEditor, PortfolioSummary } from '../components/Portfolio';
+import { calculatePortfolioMetrics, reconcileHoldingKeys } from '../services/portfolio';
+
+const PortfoliosPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { portfolioId } = useParams<{ portfolioId: string }>();
+  const { portfolios, getPortfolio, create, rename, setHoldings, remove } = usePortfolios();
+  const { resolver, isReady } = useCompanyResolver();
+  const [newName, setNewName] = React.useState('');
+
+  const portfolio = getPortfolio(portfolioId);
+
+  // Only the holdings are looked up; new holdings are picked from the companies loaded so far
+  const holdingSubjects = React.useMemo(
+    () => portfolio?.holdings.map(holding => holding.subject) ?? [],
+    [portfolio?.holdings]
+  );
+  const { companies, methodology, error, refresh, isLoading, isError } = useCompaniesESGMetrics(holdingSubjects);
+  const { companies: loadedCompanies } = useCompanies();
+  const pickerCompanies = React.useMemo(
+    () => loadedCompanies.map(company => ({ key: company.companyKey, subject: company.subject })),
+    [loadedCompanies]
+  );
+  const [nameDraft, setNameDraft] = React.useState(portfolio?.name ?? '');
+  React.useEffect(() => {
+    setNameDraft(portfolio?.name ?? '');
+  }, [portfolio?.id, portfolio?.name]);
+
+  const metrics = React.useMemo(
+    () => portfolio ? calculatePortfolioMetrics(portfolio.holdings, companies, methodology, resolver) : null,
+    [portfolio, companies, methodology, resolver]
+  );
+
+  // Save holdings under their company's current key once it has changed, e.g. after a new ISIN claim
+  React.useEffect(() => {
+    if (!portfolio || !isReady || companies.length === 0) return;
+    const reconciled = reconcileHoldingKeys(portfolio.holdings, companies, resolver);
+    if (reconciled !== portfolio.holdings) setHoldings(portfolio.id, reconciled);
+  }, [portfolio, companies, resolver, isReady, setHoldings]);
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault();
+    const created = create(newName);
+    setNewName('');
+    navigate(`/portfolios/${created.id}`);
+  };
+
+  const handleDelete = () => {
+    if (!portfolio || !window.confirm(`Delete portfolio "${portfolio.name}"?`)) return;
+    remove(portfolio.id);
+    navigate('/portfolios');
+  };
+
+  return (
+    <Box>
+      {/* Header Section */}
+      <Box sx={{ mb: 4 }}>
+        <Typography variant="h3" component="h1" gutterBottom sx={{ fontWeight: 600 }}>
+          Portfolios
+        </Typography>
+        <Typography variant="subtitle1" color="text.secondary">
+          Build weighted portfolios of companies and see their aggregate ESG profile. Portfolios are saved in this browser.
+        </Typography>
+      </Box>
+
+      <Grid container spacing={3}>
+        {/* Portfolio list */}
+        <Grid item xs={12} md={3}>
+          <Paper elevation={1} sx={{ p: 2 }}>
+            <Box component="form" onSubmit={handleCreate} sx={{ display: 'flex', gap: 1, mb: 2 }}>
+              <TextField
+                size="small"
+                fullWidth
+                placeholder="New portfolio name"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+              />
+              <Tooltip title="Create portfolio">
+                <IconButton type="submit" color="primary">
+                  <Add />
+                </IconButton>
+              </Tooltip>
+            </Box>
+            <Divider />
+            {portfolios.length === 0 ? (
+              <Typography variant="body2" color="text.secondary" sx={{ pt: 2 }}>
+                No portfolios yet.
+              </Typography>
+            ) : (
+              <List dense disablePadding>
+                {portfolios.map(entry => (
+                  <ListItemButton
+                    key={entry.id}
+                    selected={entry.id === portfolio?.id}
+                    onClick={() => navigate(`/portfolios/${entry.id}`)}
+                  >
+                    <ListItemText
+                      primary={entry.name}
+                      secondary={`${entry.holdings.length} holding${entry.holdings.length === 1 ? '' : 's'}`}
+                    />
+                  </ListItemButton>
+                ))}
+              </List>
+            )}
+          </Paper>
+        </Grid>
+
+        {/* Selected portfolio */}
+        <Grid item xs={12} md={9}>
+          {portfolioId && !portfolio && (
+            <Alert severity="warning" sx={{ mb: 3, borderRadius: 2 }}>
+              This portfolio does not exist in this browser.
+            </Alert>
+          )}
+
+          {!portfolio ? (
+            <Paper sx={{ p: 6, textAlign: 'center', backgroundColor: 'grey.50' }}>
+              <PieChart sx={{ fontSize: 64, color: 'grey.400', mb: 2 }} />
+              <Typography variant="h6" gutterBottom color="text.secondary">
+                Select or create a portfolio
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                Add holdings by hand or import them from a CSV of identifiers and weights.
+              </Typography>
+            </Paper>
+          ) : (
+            <>
+              <Paper elevation={1} sx={{ p: 3, mb: 3 }}>
+                <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap', mb: 3 }}>
+                  <TextField
+                    label="Portfolio name"
+                    size="small"
+                    value={nameDraft}
+                    onChange={(e) => setNameDraft(e.target.value)}
+                    onBlur={() => rename(portfolio.id, nameDraft)}
+                    sx={{ flexGrow: 1, minWidth: 240 }}
+                  />
+                  <MethodologySelector />
+                  <Button color="error" startIcon={<Delete />} onClick={handleDelete}>
+                    Delete
+                  </Button>
+                </Box>
+                <PortfolioHoldingsEditor
+                  holdings={portfolio.holdings}
+                  companies={pickerCompanies}
+                  resolver={resolver}
+                  onChange={(holdings) => setHoldings(portfolio.id, holdings)}
+                />
+              </Paper>
+
+              {isLoading && (
+                <LoadingSpinner message="Loading ESG data..." />
+              )}
+
+              {isError && error && (
+                <ErrorMessage
+                  error={error}
+                  onRetry={refresh}
+                  title="Failed to Load Companies"
+                />
+              )}
+
+              {!isLoading && !isError && metrics && (
+                <PortfolioSummary metrics={metrics} resolver={resolver} />
+              )}
+
+              {!isLoading && !isError && !metrics && portfolio.holdings.length > 0 && (
+                <Alert severity="info" sx={{ borderRadius: 2 }}>
+                  None of the holdings with a positive weight have ESG data yet.
+                </Alert>
+              )}
+            </>
+          )}
+        </Grid>
+      </Grid>
+    </Box>
+  );
+};
+
+export default PortfoliosPage;
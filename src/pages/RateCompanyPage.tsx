@@ -0,0 +1,452 @@
+import React from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Paper,
+  Stepper,
+  Step,
+  StepLabel,
+  Button,
+  TextField,
+  Autocomplete,
+  MenuItem,
+  Slider,
+  Rating,
+  Alert,
+  Grid,
+  Divider,
+  CircularProgress,
+} from '@mui/material';
+import { RateReview, CheckCircle } from '@mui/icons-material';
+import type { Claim, NewClaim, ClaimValidationErrors } from '../types';
+import { useCompanies, useCreateClaim } from '../hooks';
+import { validationUtils, transformUtils } from '../services/utils';
+import { buildCompanyPath, companySlugFromSubject } from '../services/companyResolver';
+
+type HowKnown = NonNullable<Claim['howKnown']>;
+
+interface RatingFormState {
+  subject: string;
+  aspect: string;
+  author: string;
+  score: number;
+  stars: number;
+  confidence: number;
+  statement: string;
+  howKnown: HowKnown | '';
+  sourceURI: string;
+  effectiveDate: string;
+  amt: string;
+  unit: string;
+  howMeasured: string;
+}
+
+const STEPS = ['Company', 'Rating', 'Evidence', 'Review'];
+
+// Fields validated before leaving each step
+const STEP_FIELDS: Array<Array<keyof NewClaim>> = [
+  ['subject', 'claim', 'aspect'],
+  ['score', 'stars', 'confidence', 'statement'],
+  ['howKnown', 'sourceURI', 'effectiveDate', 'amt', 'unit'],
+  [],
+];
+
+const ASPECT_OPTIONS = [
+  { value: 'esg-overall', label: 'Overall ESG' },
+  { value: 'environmental', label: 'Environmental' },
+  { value: 'esg-climate', label: 'Climate' },
+  { value: 'social', label: 'Social' },
+  { value: 'governance', label: 'Governance' },
+];
+
+const HOW_KNOWN_OPTIONS: Array<{ value: HowKnown; label: string }> = [
+  { value: 'FIRST_HAND', label: 'First hand' },
+  { value: 'SECOND_HAND', label: 'Second hand' },
+  { value: 'WEB_DOCUMENT', label: 'Web document' },
+  { value: 'RESEARCH', label: 'Research' },
+  { value: 'SIGNED_DOCUMENT', label: 'Signed document' },
+  { value: 'PHYSICAL_DOCUMENT', label: 'Physical document' },
+  { value: 'VERIFIED_LOGIN', label: 'Verified login' },
+  { value: 'BLOCKCHAIN', label: 'Blockchain' },
+  { value: 'INTEGRATION', label: 'Integration' },
+  { value: 'OPINION', label: 'Opinion' },
+  { value: 'OTHER', label: 'Other' },
+];
+
+// Stars that correspond to a -1..1 score, used as the default star rating
+const scoreToStars = (score: number): number => Math.round(((score + 1) / 2) * 5);
+
+const createInitialForm = (subject: string): RatingFormState => ({
+  subject,
+  aspect: 'esg-overall',
+  author: '',
+  score: 0,
+  stars: scoreToStars(0),
+  confidence: 0.7,
+  statement: '',
+  howKnown: '',
+  sourceURI: '',
+  effectiveDate: new Date().toISOString().slice(0, 10),
+  amt: '',
+  unit: '',
+  howMeasured: '',
+});
+
+// Build a well-formed "rated" claim from the form
+const buildClaim = (form: RatingFormState): NewClaim => ({
+  subject: form.subject.trim(),
+  claim: 'rated',
+  aspect: form.aspect,
+  score: form.score,
+  stars: form.stars,
+  confidence: form.confidence,
+  statement: form.statement.trim(),
+  howKnown: form.howKnown || undefined,
+  sourceURI: form.sourceURI.trim() || undefined,
+  effectiveDate: form.effectiveDate ? new Date(form.effectiveDate) : undefined,
+  dateObserved: form.effectiveDate ? new Date(form.effectiveDate) : undefined,
+  author: form.author.trim() || undefined,
+  amt: form.amt.trim() ? Number(form.amt) : undefined,
+  unit: form.unit.trim() || undefined,
+  howMeasured: form.howMeasured.trim() || undefined,
+});
+
+const RateCompanyPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { companies } = useCompanies();
+  const { createClaim, createdClaim, error, reset, isLoading, isSuccess, isError } = useCreateClaim();
+
+  const [activeStep, setActiveStep] = React.useState(0);
+  const [form, setForm] = React.useState<RatingFormState>(() => createInitialForm(searchParams.get('subject') ?? ''));
+  const [errors, setErrors] = React.useState<ClaimValidationErrors>({});
+
+  const claim = buildClaim(form);
+
+  const updateField = <K extends keyof RatingFormState>(field: K, value: RatingFormState[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+    setErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const validateSteps = (steps: number[]): boolean => {
+    const allErrors = validationUtils.validateNewClaim(claim);
+    const fields = steps.flatMap(step => STEP_FIELDS[step]);
+    const stepErrors: ClaimValidationErrors = {};
+    fields.forEach(field => {
+      if (allErrors[field]) stepErrors[field] = allErrors[field];
+    });
+    setErrors(stepErrors);
+    return Object.keys(stepErrors).length === 0;
+  };
+
+  const handleNext = () => {
+    if (validateSteps([activeStep])) {
+      setActiveStep(step => step + 1);
+    }
+  };
+
+  const handleSubmit = async () => {
+    // Re-check every step in case earlier fields were edited
+    if (!validateSteps(STEPS.map((_, index) => index))) {
+      const allErrors = validationUtils.validateNewClaim(claim);
+      const firstInvalid = STEP_FIELDS.findIndex(fields => fields.some(field => allErrors[field]));
+      setActiveStep(Math.max(0, firstInvalid));
+      return;
+    }
+    await createClaim(claim);
+  };
+
+  const handleRateAnother = () => {
+    reset();
+    setForm(createInitialForm(''));
+    setErrors({});
+    setActiveStep(0);
+  };
+
+  if (isSuccess && createdClaim) {
+    return (
+      <Box sx={{ maxWidth: 720, mx: 'auto' }}>
+        <Paper sx={{ p: 6, textAlign: 'center' }}>
+          <CheckCircle sx={{ fontSize: 64, color: 'success.main', mb: 2 }} />
+          <Typography variant="h5" gutterBottom sx={{ fontWeight: 600 }}>
+            Rating Published
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 4 }}>
+            Your {createdClaim.aspect} rating for {transformUtils.extractCompanyName(createdClaim.subject)} was published as claim #{createdClaim.id}.
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 2, justifyContent: 'center' }}>
+            <Button variant="contained" onClick={() => navigate(buildCompanyPath(companySlugFromSubject(createdClaim.subject)))}>
+              View Company
+            </Button>
+            <Button variant="outlined" onClick={handleRateAnother}>
+              Rate Another Company
+            </Button>
+          </Box>
+        </Paper>
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ maxWidth: 900, mx: 'auto' }}>
+      {/* Header Section */}
+      <Box sx={{ mb: 4 }}>
+        <Typography variant="h3" component="h1" gutterBottom sx={{ fontWeight: 600 }}>
+          Rate a Company
+        </Typography>
+        <Typography variant="subtitle1" color="text.secondary">
+          Publish a new ESG rating claim with its evidence so others can review and validate it
+        </Typography>
+      </Box>
+
+      <Paper elevation={1} sx={{ p: 4 }}>
+        <Stepper activeStep={activeStep} sx={{ mb: 4 }}>
+          {STEPS.map(label => (
+            <Step key={label}>
+              <StepLabel>{label}</StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+
+        {/* Step 1: Company */}
+        {activeStep === 0 && (
+          <Grid container spacing={3}>
+            <Grid item xs={12}>
+              <Autocomplete
+                freeSolo
+                options={companies.map(company => company.subject)}
+                value={form.subject}
+                onInputChange={(_, value) => updateField('subject', value)}
+                renderInput={(params) => (
+                  <TextField
+                    {...params}
+                    label="Company"
+                    placeholder="e.g. Apple Inc. (AAPL)"
+                    required
+                    error={Boolean(errors.subject)}
+                    helperText={errors.subject ?? 'Pick an existing company or enter a new name with its ticker'}
+                  />
+                )}
+              />
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <TextField
+                select
+                fullWidth
+                label="Aspect"
+                value={form.aspect}
+                onChange={(e) => updateField('aspect', e.target.value)}
+                error={Boolean(errors.aspect)}
+                helperText={errors.aspect ?? 'Which part of ESG performance this rating covers'}
+              >
+                {ASPECT_OPTIONS.map(option => (
+                  <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <TextField
+                fullWidth
+                label="Author"
+                value={form.author}
+                onChange={(e) => updateField('author', e.target.value)}
+                helperText="Person or organization issuing the rating (optional)"
+              />
+            </Grid>
+          </Grid>
+        )}
+
+        {/* Step 2: Rating */}
+        {activeStep === 1 && (
+          <Grid container spacing={3}>
+            <Grid item xs={12} sm={6}>
+              <Typography variant="subtitle2" gutterBottom>
+                Score: {form.score.toFixed(2)} ({Math.round(((form.score + 1) / 2) * 100)}%)
+              </Typography>
+              <Slider
+                value={form.score}
+                min={-1}
+                max={1}
+                step={0.05}
+                marks={[{ value: -1, label: '-1' }, { value: 0, label: '0' }, { value: 1, label: '1' }]}
+                onChange={(_, value) => {
+                  const score = value as number;
+                  setForm(prev => ({ ...prev, score, stars: scoreToStars(score) }));
+                }}
+              />
+              {errors.score && <Typography variant="caption" color="error">{errors.score}</Typography>}
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <Typography variant="subtitle2" gutterBottom>Stars</Typography>
+              <Rating
+                value={form.stars}
+                onChange={(_, value) => updateField('stars', value ?? 0)}
+              />
+              {errors.stars && <Typography variant="caption" color="error" sx={{ display: 'block' }}>{errors.stars}</Typography>}
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <Typography variant="subtitle2" gutterBottom>
+                Confidence: {Math.round(form.confidence * 100)}%
+              </Typography>
+              <Slider
+                value={form.confidence}
+                min={0}
+                max={1}
+                step={0.05}
+                onChange={(_, value) => updateField('confidence', value as number)}
+              />
+              {errors.confidence && <Typography variant="caption" color="error">{errors.confidence}</Typography>}
+            </Grid>
+            <Grid item xs={12}>
+              <TextField
+                fullWidth
+                multiline
+                minRows={3}
+                required
+                label="Statement"
+                value={form.statement}
+                onChange={(e) => updateField('statement', e.target.value)}
+                error={Boolean(errors.statement)}
+                helperText={errors.statement ?? 'Explain what the rating is based on'}
+              />
+            </Grid>
+          </Grid>
+        )}
+
+        {/* Step 3: Evidence */}
+        {activeStep === 2 && (
+          <Grid container spacing={3}>
+            <Grid item xs={12} sm={6}>
+              <TextField
+                select
+                fullWidth
+                required
+                label="How Known"
+                value={form.howKnown}
+                onChange={(e) => updateField('howKnown', e.target.value as HowKnown)}
+                error={Boolean(errors.howKnown)}
+                helperText={errors.howKnown}
+              >
+                {HOW_KNOWN_OPTIONS.map(option => (
+                  <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <TextField
+                fullWidth
+                type="date"
+                label="Effective Date"
+                value={form.effectiveDate}
+                onChange={(e) => updateField('effectiveDate', e.target.value)}
+                error={Boolean(errors.effectiveDate)}
+                helperText={errors.effectiveDate}
+                slotProps={{ inputLabel: { shrink: true } }}
+              />
+            </Grid>
+            <Grid item xs={12}>
+              <TextField
+                fullWidth
+                label="Source URL"
+                placeholder="https://"
+                value={form.sourceURI}
+                onChange={(e) => updateField('sourceURI', e.target.value)}
+                error={Boolean(errors.sourceURI)}
+                helperText={errors.sourceURI ?? 'Report, filing or page supporting this rating'}
+              />
+            </Grid>
+            <Grid item xs={12} sm={4}>
+              <TextField
+                fullWidth
+                type="number"
+                label="Amount"
+                value={form.amt}
+                onChange={(e) => updateField('amt', e.target.value)}
+                error={Boolean(errors.amt)}
+                helperText={errors.amt ?? 'Optional measured value'}
+              />
+            </Grid>
+            <Grid item xs={12} sm={4}>
+              <TextField
+                fullWidth
+                label="Unit"
+                placeholder="e.g. tCO2e"
+                value={form.unit}
+                onChange={(e) => updateField('unit', e.target.value)}
+                error={Boolean(errors.unit)}
+                helperText={errors.unit}
+              />
+            </Grid>
+            <Grid item xs={12} sm={4}>
+              <TextField
+                fullWidth
+                label="How Measured"
+                value={form.howMeasured}
+                onChange={(e) => updateField('howMeasured', e.target.value)}
+              />
+            </Grid>
+          </Grid>
+        )}
+
+        {/* Step 4: Review */}
+        {activeStep === 3 && (
+          <Box>
+            {isError && error && (
+              <Alert severity="error" sx={{ mb: 3, borderRadius: 2 }}>
+                {error.message}
+              </Alert>
+            )}
+            {[
+              ['Company', claim.subject],
+              ['Aspect', ASPECT_OPTIONS.find(option => option.value === claim.aspect)?.label ?? claim.aspect],
+              ['Score', `${claim.score?.toFixed(2)} (${Math.round((((claim.score ?? 0) + 1) / 2) * 100)}%)`],
+              ['Stars', `${claim.stars}/5`],
+              ['Confidence', `${Math.round((claim.confidence ?? 0) * 100)}%`],
+              ['Statement', claim.statement],
+              ['How Known', HOW_KNOWN_OPTIONS.find(option => option.value === claim.howKnown)?.label],
+              ['Effective Date', transformUtils.formatDate(claim.effectiveDate)],
+              ['Source', claim.sourceURI],
+              ['Measurement', claim.amt !== undefined ? `${claim.amt} ${claim.unit ?? ''}`.trim() : undefined],
+              ['How Measured', claim.howMeasured],
+              ['Author', claim.author],
+            ]
+              .filter(([, value]) => value)
+              .map(([label, value]) => (
+                <Box key={label} sx={{ display: 'flex', py: 1 }}>
+                  <Typography variant="body2" color="text.secondary" sx={{ width: 160, flexShrink: 0 }}>
+                    {label}
+                  </Typography>
+                  <Typography variant="body2" sx={{ wordBreak: 'break-word' }}>{value}</Typography>
+                </Box>
+              ))}
+          </Box>
+        )}
+
+        <Divider sx={{ my: 4 }} />
+
+        <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+          <Button disabled={activeStep === 0 || isLoading} onClick={() => setActiveStep(step => step - 1)}>
+            Back
+          </Button>
+          {activeStep < STEPS.length - 1 ? (
+            <Button variant="contained" onClick={handleNext}>
+              Next
+            </Button>
+          ) : (
+            <Button
+              variant="contained"
+              startIcon={isLoading ? <CircularProgress size={18} color="inherit" /> : <RateReview />}
+              disabled={isLoading}
+              onClick={handleSubmit}
+            >
+              {isLoading ? 'Publishing...' : 'Publish Rating'}
+            </Button>
+          )}
+        </Box>
+      </Paper>
+    </Box>
+  );
+};
+
+export default RateCompanyPage;
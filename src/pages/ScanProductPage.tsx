@@ -1,4 +1,5 @@
 import React from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
   Box,
   Typography,
@@ -6,42 +7,68 @@ import {
   CardContent,
   Grid,
   Alert,
-  Chip,
+  Button,
+  TextField,
+  CircularProgress,
 } from '@mui/material';
 import {
   QrCodeScanner,
-  Search,
   PhotoCamera,
   Upload,
+  Search,
+  ImageSearch,
 } from '@mui/icons-material';
+import { useProductLookup } from '../hooks';
+import { CameraScanner, BatchUpload } from '../components/Scan';
+import { ErrorMessage } from '../components/Common';
+import { decodeImageFile, type ScanMatch } from '../services/scanService';
+import { buildCompanyPath } from '../services/companyResolver';
+
+interface ScanOutcome {
+  value: string;
+  match: ScanMatch | null;
+}
 
 const ScanProductPage: React.FC = () => {
-  const features = [
-    {
-      icon: <QrCodeScanner sx={{ fontSize: 48, color: 'primary.main' }} />,
-      title: 'QR Code Scanning',
-      description: 'Scan product QR codes to instantly access ESG information and supply chain transparency data.',
-      status: 'Coming Soon',
-    },
-    {
-      icon: <PhotoCamera sx={{ fontSize: 48, color: 'secondary.main' }} />,
-      title: 'Image Recognition',
-      description: 'Take photos of products to identify them and retrieve their ESG ratings and sustainability metrics.',
-      status: 'Coming Soon',
-    },
-    {
-      icon: <Search sx={{ fontSize: 48, color: 'success.main' }} />,
-      title: 'Product Search',
-      description: 'Search for products by name, brand, or barcode to discover their environmental and social impact.',
-      status: 'Coming Soon',
-    },
-    {
-      icon: <Upload sx={{ fontSize: 48, color: 'warning.main' }} />,
-      title: 'Batch Upload',
-      description: 'Upload multiple product identifiers at once for comprehensive ESG analysis and reporting.',
-      status: 'Coming Soon',
-    },
-  ];
+  const navigate = useNavigate();
+  const { nodes, claims, lookup, error, refetch, isLoading, isError } = useProductLookup();
+  const [manualCode, setManualCode] = React.useState('');
+  const [decodingImage, setDecodingImage] = React.useState(false);
+  const [imageError, setImageError] = React.useState<string | null>(null);
+  const [outcome, setOutcome] = React.useState<ScanOutcome | null>(null);
+
+  const handleCode = (value: string) => {
+    const match = lookup(value);
+    setOutcome({ value, match });
+
+    // Go straight to the company page when the code resolves to a rated company
+    if (match?.companySlug) {
+      navigate(buildCompanyPath(match.companySlug));
+    }
+  };
+
+  const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setDecodingImage(true);
+    setImageError(null);
+    try {
+      handleCode(await decodeImageFile(file));
+    } catch (err) {
+      setImageError(err instanceof Error ? err.message : 'Failed to read this image');
+    } finally {
+      setDecodingImage(false);
+    }
+  };
+
+  const handleManualSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (manualCode.trim()) {
+      handleCode(manualCode.trim());
+    }
+  };
 
   return (
     <Box>
@@ -54,57 +81,116 @@ const ScanProductPage: React.FC = () => {
           Scan QR codes, barcodes, or upload product images to instantly discover ESG ratings, 
           sustainability metrics, and supply chain transparency information.
         </Typography>
+      </Box>
+
+      {/* Error State */}
+      {isError && error && (
+        <Box sx={{ mb: 4 }}>
+          <ErrorMessage
+            error={error}
+            onRetry={refetch}
+            title="Failed to Load Products"
+          />
+        </Box>
+      )}
 
-        {/* Status Alert */}
-        <Alert severity="info" sx={{ mb: 4, borderRadius: 2, maxWidth: 800, mx: 'auto' }}>
+      {/* Scan Result */}
+      {outcome && !outcome.match?.companySlug && (
+        <Alert severity="warning" sx={{ mb: 4, borderRadius: 2 }} onClose={() => setOutcome(null)}>
           <Typography variant="body2">
-            <strong>Feature in Development:</strong> Our product scanning capabilities are currently being developed. 
-            This feature will be available in a future release of the LinkedTrust platform.
+            {outcome.match
+              ? <>Found <strong>{outcome.match.node.name}</strong>, but no ESG rating is available for {outcome.match.organization?.name ?? 'its company'} yet.</>
+              : <>No product or company matches <strong>{outcome.value}</strong>.</>}
           </Typography>
         </Alert>
-      </Box>
+      )}
 
-      {/* Features Grid */}
       <Grid container spacing={4} sx={{ mb: 6 }}>
-        {features.map((feature, index) => (
-          <Grid item xs={12} sm={6} md={6} key={index}>
-            <Card
-              sx={{
-                height: '100%',
-                display: 'flex',
-                flexDirection: 'column',
-                transition: 'all 0.2s ease-in-out',
-                '&:hover': {
-                  transform: 'translateY(-2px)',
-                  boxShadow: '0 8px 24px rgba(0,0,0,0.12)',
-                },
-              }}
-            >
-              <CardContent sx={{ flexGrow: 1, p: 4, textAlign: 'center' }}>
-                <Box sx={{ mb: 3 }}>
-                  {feature.icon}
-                </Box>
-                
-                <Typography variant="h5" gutterBottom sx={{ fontWeight: 600 }}>
-                  {feature.title}
-                </Typography>
-                
-                <Typography variant="body1" color="text.secondary" sx={{ mb: 3, lineHeight: 1.6 }}>
-                  {feature.description}
-                </Typography>
-                
-                <Chip
-                  label={feature.status}
-                  color="primary"
-                  variant="outlined"
-                  sx={{ fontWeight: 500 }}
+        {/* Camera Scanning */}
+        <Grid item xs={12} md={6}>
+          <Card sx={{ height: '100%' }}>
+            <CardContent sx={{ p: 4 }}>
+              <Typography variant="h5" gutterBottom sx={{ fontWeight: 600, display: 'flex', alignItems: 'center', gap: 1 }}>
+                <QrCodeScanner color="primary" />
+                Scan with Camera
+              </Typography>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+                Point your camera at a product QR code or EAN/UPC barcode. Decoding happens entirely in your browser.
+              </Typography>
+              <CameraScanner onDetected={handleCode} />
+            </CardContent>
+          </Card>
+        </Grid>
+
+        <Grid item xs={12} md={6}>
+          {/* Image Upload */}
+          <Card sx={{ mb: 4 }}>
+            <CardContent sx={{ p: 4 }}>
+              <Typography variant="h5" gutterBottom sx={{ fontWeight: 600, display: 'flex', alignItems: 'center', gap: 1 }}>
+                <PhotoCamera color="secondary" />
+                Upload an Image
+              </Typography>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+                Upload a photo or screenshot that contains a QR code or barcode.
+              </Typography>
+              {imageError && (
+                <Alert severity="warning" sx={{ mb: 2, borderRadius: 2 }}>
+                  {imageError}
+                </Alert>
+              )}
+              <Button
+                component="label"
+                variant="outlined"
+                startIcon={decodingImage ? <CircularProgress size={18} /> : <ImageSearch />}
+                disabled={decodingImage || isLoading}
+              >
+                {decodingImage ? 'Reading Image...' : 'Choose Image'}
+                <input type="file" accept="image/*" hidden onChange={handleImageUpload} />
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* Manual Entry */}
+          <Card>
+            <CardContent sx={{ p: 4 }}>
+              <Typography variant="h5" gutterBottom sx={{ fontWeight: 600, display: 'flex', alignItems: 'center', gap: 1 }}>
+                <Search color="success" />
+                Enter a Code
+              </Typography>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+                Type a barcode number, product link or company name.
+              </Typography>
+              <Box component="form" onSubmit={handleManualSubmit} sx={{ display: 'flex', gap: 2 }}>
+                <TextField
+                  size="small"
+                  fullWidth
+                  placeholder="e.g. 0194253397816"
+                  value={manualCode}
+                  onChange={(e) => setManualCode(e.target.value)}
                 />
-              </CardContent>
-            </Card>
-          </Grid>
-        ))}
+                <Button type="submit" variant="contained" disabled={!manualCode.trim() || isLoading}>
+                  Look Up
+                </Button>
+              </Box>
+            </CardContent>
+          </Card>
+
+        </Grid>
       </Grid>
 
+      {/* Batch Upload */}
+      <Card sx={{ mb: 6 }}>
+        <CardContent sx={{ p: 4 }}>
+          <Typography variant="h5" gutterBottom sx={{ fontWeight: 600, display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Upload color="warning" />
+            Batch Upload
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+            Upload multiple product identifiers at once for comprehensive ESG analysis and reporting.
+          </Typography>
+          <BatchUpload nodes={nodes} claims={claims} disabled={isLoading} />
+        </CardContent>
+      </Card>
     </Box>
   );
 };
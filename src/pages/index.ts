@@ -3,3 +3,9 @@ export { default as Dashboard } from './Dashboard';
 export { default as CompanyDetailsPage } from './CompanyDetailsPage';
 export { default as CompaniesPage } from './CompaniesPage';
 export { default as ScanProductPage } from './ScanProductPage';
+export { default as CompanyComparisonPage } from './CompanyComparisonPage';
+export { default as RateCompanyPage } from './RateCompanyPage';
+export { default as LegacyCompanyRedirect } from './LegacyCompanyRedirect';
+export { default as PortfoliosPage } from './PortfoliosPage';
+export { default as CompanyReportPage } from './CompanyReportPage';
+export { default as CompanyScenarioPage } from './CompanyScenarioPage';
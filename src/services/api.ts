@@ -1,34 +1,58 @@
-import axios from 'axios';
-import type { Claim, Node } from '../types';
+import axios, { type AxiosResponse } from 'axios';
+import type { NewClaim, NewValidation, PageParams } from '../types';
+import { parseClaim, parseClaimList, parseClaimPage, parseNode, parseNodeList, parseNodePage, parseRecord, parseValidator } from './schemas';
+
+export const API_BASE_URL = import.meta.env.VITE_BACKEND_BASE_URL || 'http://localhost:9000';
 
 // Create axios instance with base configuration
 const apiClient = axios.create({
-  baseURL: import.meta.env.VITE_BACKEND_BASE_URL || 'http://localhost:9000',
+  baseURL: API_BASE_URL,
   timeout: 10000,
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
-// API service functions for backend communication
+// Run a response body through its schema; the request is named in the rejection report
+const parsed = <T>(parse: (data: unknown, source: string) => T) =>
+  (response: AxiosResponse<unknown>): AxiosResponse<T> => ({
+    ...response,
+    data: parse(response.data, `${(response.config.method ?? 'get').toUpperCase()} ${response.config.url}`),
+  });
+
+// Query string for a page request; the cursor is opaque and only ever echoed back
+const pageQuery = ({ cursor, limit }: PageParams): string =>
+  `limit=${limit}${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ''}`;
+
+const claimList = parsed(parseClaimList);
+const claimPage = parsed(parseClaimPage);
+const nodePage = parsed(parseNodePage);
+const nodeList = parsed(parseNodeList);
+const claimRecord = parsed((data, source) => parseRecord('Claim', parseClaim, data, source));
+const nodeRecord = parsed((data, source) => parseRecord('Node', parseNode, data, source));
+const validatorRecord = parsed((data, source) => parseRecord('Validator', parseValidator, data, source));
+
+// API service functions for backend communication; every response is validated against its schema
 export const apiService = {
   // Claims endpoints - using v4 API as specified in prompt
-  getClaims: () => apiClient.get<Claim[]>('/api/v4/claims'),
-  getClaimById: (id: number) => apiClient.get<Claim>(`/api/v4/claims/${id}`),
-  getClaimsBySubject: (uri: string) => apiClient.get<Claim[]>(`/api/v4/claims/subject/${encodeURIComponent(uri)}`),
-  getCompanyClaims: (subject: string) => apiClient.get<Claim[]>(`/api/v4/claims?subject=${encodeURIComponent(subject)}`),
-  getRatedClaims: () => apiClient.get<Claim[]>('/api/v4/claims?claim=rated'),
-  
-
+  getClaims: () => apiClient.get<unknown>('/api/v4/claims').then(claimList),
+  getClaimById: (id: number) => apiClient.get<unknown>(`/api/v4/claims/${id}`).then(claimRecord),
+  getClaimsBySubject: (uri: string) => apiClient.get<unknown>(`/api/v4/claims/subject/${encodeURIComponent(uri)}`).then(claimList),
+  getCompanyClaims: (subject: string) => apiClient.get<unknown>(`/api/v4/claims?subject=${encodeURIComponent(subject)}`).then(claimList),
+  getRatedClaims: () => apiClient.get<unknown>('/api/v4/claims?claim=rated').then(claimList),
+  getRatedClaimsPage: (params: PageParams) => apiClient.get<unknown>(`/api/v4/claims?claim=rated&${pageQuery(params)}`).then(claimPage),
+  createClaim: (claim: NewClaim) => apiClient.post<unknown>('/api/v4/claims', claim).then(claimRecord),
+  addValidation: (claimId: number, validation: NewValidation) => apiClient.post<unknown>(`/api/v4/claims/${claimId}/validations`, validation).then(validatorRecord),
   
   // Nodes endpoints
-  getNodes: () => apiClient.get<Node[]>('/nodes'),
-  getNodeById: (id: number) => apiClient.get<Node>(`/nodes/${id}`),
-  getCompanyNodes: () => apiClient.get<Node[]>('/nodes?entType=ORGANIZATION'),
+  getNodes: () => apiClient.get<unknown>('/nodes').then(nodeList),
+  getNodesPage: (params: PageParams) => apiClient.get<unknown>(`/nodes?${pageQuery(params)}`).then(nodePage),
+  getNodeById: (id: number) => apiClient.get<unknown>(`/nodes/${id}`).then(nodeRecord),
+  getCompanyNodes: () => apiClient.get<unknown>('/nodes?entType=ORGANIZATION').then(nodeList),
   
   // Search endpoints
-  searchClaims: (query: string) => apiClient.get<Claim[]>(`/api/v4/claims/search?q=${encodeURIComponent(query)}`),
-  searchNodes: (query: string) => apiClient.get<Node[]>(`/nodes/search?q=${encodeURIComponent(query)}`),
+  searchClaims: (query: string) => apiClient.get<unknown>(`/api/v4/claims/search?q=${encodeURIComponent(query)}`).then(claimList),
+  searchNodes: (query: string) => apiClient.get<unknown>(`/nodes/search?q=${encodeURIComponent(query)}`).then(nodeList),
 };
 
 // Response interceptor for error handling
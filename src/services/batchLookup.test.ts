@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import type { Claim } from '../types';
+import { DEFAULT_METHODOLOGY_PROFILE } from './methodology';
+import { detectIdentifierType, resolveBatch } from './batchLookup';
+
+const createdAt = new Date('2024-01-01T00:00:00Z');
+
+const claim = (id: number, subject: string): Claim => ({
+  id,
+  subject,
+  claim: 'rated',
+  aspect: 'esg-overall',
+  score: 0.5,
+  confidence: 0.9,
+  createdAt,
+  lastUpdatedAt: createdAt,
+});
+
+const claims = [claim(1, 'General Electric (GE)'), claim(2, 'Tesla Motors'), claim(3, 'Microsoft Corporation')];
+
+const lookup = (identifier: string) =>
+  resolveBatch([{ row: 1, identifier }], [], claims, DEFAULT_METHODOLOGY_PROFILE)[0];
+
+describe('detectIdentifierType', () => {
+  it('recognises each identifier type', () => {
+    expect(detectIdentifierType('US0231351067')).toBe('ISIN');
+    expect(detectIdentifierType('4006381333931')).toBe('BARCODE');
+    expect(detectIdentifierType('https://tesla.com')).toBe('URL');
+    expect(detectIdentifierType('AMZN')).toBe('TICKER');
+    expect(detectIdentifierType('Tesla Motors')).toBe('NAME');
+  });
+});
+
+describe('resolveBatch name matching', () => {
+  it('matches an exact name', () => {
+    expect(lookup('Microsoft Corporation')).toMatchObject({ status: 'matched', subject: 'Microsoft Corporation' });
+  });
+
+  it('matches whole words of a name', () => {
+    expect(lookup('Tesla')).toMatchObject({ status: 'matched', subject: 'Tesla Motors' });
+  });
+
+  it('matches longer partial names', () => {
+    expect(lookup('Microsof')).toMatchObject({ status: 'matched', subject: 'Microsoft Corporation' });
+  });
+
+  it('does not match short fragments inside other names', () => {
+    expect(lookup('ele')).toMatchObject({ status: 'unmatched', reason: 'No company found with this name' });
+  });
+
+  it('matches a known ticker', () => {
+    expect(lookup('GE')).toMatchObject({ status: 'matched', companyKey: 'ticker:GE' });
+  });
+
+  it('keeps unmatched rows with a reason', () => {
+    expect(lookup('Globex')).toMatchObject({ row: 1, identifier: 'Globex', status: 'unmatched' });
+  });
+});
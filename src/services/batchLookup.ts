@@ -0,0 +1,206 @@
+import * as XLSX from 'xlsx';
+import type { Claim, Node } from '../types';
+import type { MethodologyProfile } from './methodology';
+import { ESGCalculationEngine, type ESGMetrics } from './esgCalculations';
+import { lookupScannedCode } from './scanService';
+import { escapeSpreadsheetRecords } from './tableExport';
+import { SHEET_FILE_ACCEPT, findSheetColumn, readSheetTable } from './sheetImport';
+import {
+  MIN_PARTIAL_NAME_LENGTH,
+  createCompanyResolver,
+  namesShareWords,
+  normalizeCompanyName,
+  type CompanyIdentity,
+  type CompanyResolver,
+} from './companyResolver';
+
+export type BatchIdentifierType = 'ISIN' | 'TICKER' | 'BARCODE' | 'URL' | 'NAME';
+
+export interface BatchInputRow {
+  row: number;          // 1-based row number in the uploaded sheet
+  identifier: string;
+}
+
+export interface BatchResultRow extends BatchInputRow {
+  identifierType: BatchIdentifierType;
+  status: 'matched' | 'unmatched';
+  reason?: string;      // why an unmatched row could not be resolved
+  subject?: string;
+  companyKey?: string;  // canonical company identity the row resolved to
+  companySlug?: string;
+  claimId?: number;
+  matchedNode?: string; // product or organization node the identifier resolved through
+  esgMetrics?: ESGMetrics;
+}
+
+export type BatchExportFormat = 'csv' | 'xlsx';
+
+export const BATCH_FILE_ACCEPT = SHEET_FILE_ACCEPT;
+
+// Header names recognised as the identifier column, in order of preference
+const IDENTIFIER_HEADERS = ['identifier', 'isin', 'ticker', 'symbol', 'barcode', 'gtin', 'ean', 'upc', 'company', 'name'];
+
+const ISIN_PATTERN = /^[A-Z]{2}[A-Z0-9]{9}\d$/;
+const BARCODE_PATTERN = /^\d{8}$|^\d{12,14}$/;
+const TICKER_PATTERN = /^[A-Z]{1,5}(\.[A-Z]{1,2})?$/;
+
+/**
+ * Read identifiers from the first sheet of a CSV or XLSX file.
+ * Uses a recognised header column when present, otherwise the first column.
+ */
+export const parseBatchFile = async (file: File): Promise<BatchInputRow[]> => {
+  const { header, rows } = await readSheetTable(file, IDENTIFIER_HEADERS);
+  const column = header ? findSheetColumn(header, IDENTIFIER_HEADERS) : 0;
+
+  const inputRows: BatchInputRow[] = [];
+  rows.forEach(({ row, cells }) => {
+    const identifier = (cells[column] ?? '').trim();
+    if (identifier) {
+      inputRows.push({ row, identifier });
+    }
+  });
+
+  if (inputRows.length === 0) {
+    throw new Error('No identifiers were found in the uploaded file');
+  }
+  return inputRows;
+};
+
+/**
+ * Guess what kind of identifier a cell holds
+ */
+export const detectIdentifierType = (identifier: string): BatchIdentifierType => {
+  const value = identifier.trim();
+  if (ISIN_PATTERN.test(value.toUpperCase())) return 'ISIN';
+  if (BARCODE_PATTERN.test(value)) return 'BARCODE';
+  if (/^https?:\/\//i.test(value)) return 'URL';
+  if (TICKER_PATTERN.test(value)) return 'TICKER';
+  return 'NAME';
+};
+
+const substringMatch = (candidate: string, target: string): boolean =>
+  Math.min(candidate.length, target.length) >= MIN_PARTIAL_NAME_LENGTH &&
+  (candidate.includes(target) || target.includes(candidate));
+
+// Exact identifier match first, then whole-word name matches, then (for longer names) substring matches
+const findCompanyByName = (name: string, resolver: CompanyResolver, rated: Set<string>): CompanyIdentity | undefined => {
+  const exact = resolver.find(name);
+  if (exact && rated.has(exact.key)) return exact;
+
+  const target = normalizeCompanyName(name);
+  if (!target) return undefined;
+  const ratedCompanies = resolver.companies.filter(company => rated.has(company.key));
+  const matching = (match: (candidate: string, target: string) => boolean) =>
+    ratedCompanies.find(company => company.names.some(candidate => match(candidate, target)));
+  return matching(namesShareWords) ?? matching(substringMatch);
+};
+
+const resolveCompany = (
+  identifier: string,
+  type: BatchIdentifierType,
+  resolver: CompanyResolver,
+  rated: Set<string>,
+  nodes: Node[],
+  claims: Claim[]
+): { company?: CompanyIdentity; matchedNode?: string; reason?: string } => {
+  switch (type) {
+    case 'ISIN': {
+      const company = resolver.find(identifier.toUpperCase());
+      if (!company) return { reason: 'No company found for this ISIN' };
+      if (rated.has(company.key)) return { company, matchedNode: company.node?.name };
+      return { matchedNode: company.node?.name, reason: `${company.name} has no ESG rating` };
+    }
+
+    case 'BARCODE':
+    case 'URL': {
+      const match = lookupScannedCode(identifier, nodes, claims);
+      if (!match) return { reason: 'No product or company matches this code' };
+      return match.subject
+        ? { company: resolver.resolve(match.subject), matchedNode: match.node.name }
+        : { matchedNode: match.node.name, reason: `${match.node.name} has no ESG rating` };
+    }
+
+    case 'TICKER': {
+      const company = resolver.find(identifier);
+      if (company && rated.has(company.key)) return { company };
+      // Short upper-case values may also be company names (e.g. "IBM")
+      const byName = findCompanyByName(identifier, resolver, rated);
+      return byName ? { company: byName } : { reason: 'No company found for this ticker' };
+    }
+
+    default: {
+      const company = findCompanyByName(identifier, resolver, rated);
+      return company ? { company } : { reason: 'No company found with this name' };
+    }
+  }
+};
+
+/**
+ * Resolve each uploaded identifier to a rated company and score it.
+ * Rows that cannot be resolved are kept and flagged as unmatched.
+ */
+export const resolveBatch = (
+  rows: BatchInputRow[],
+  nodes: Node[],
+  claims: Claim[],
+  profile: MethodologyProfile
+): BatchResultRow[] => {
+  const ratedClaims = claims.filter(claim => claim.claim === 'rated');
+  const resolver = createCompanyResolver(ratedClaims, nodes);
+  const claimsByCompany = new Map(resolver.groupClaims(ratedClaims).map(group => [group.identity.key, group.claims]));
+  const rated = new Set(claimsByCompany.keys());
+  const metricsCache = new Map<string, ESGMetrics>();
+
+  return rows.map(row => {
+    const identifierType = detectIdentifierType(row.identifier);
+    const { company, matchedNode, reason } = resolveCompany(row.identifier, identifierType, resolver, rated, nodes, ratedClaims);
+
+    if (!company) {
+      return { ...row, identifierType, status: 'unmatched', matchedNode, reason };
+    }
+
+    const companyClaims = claimsByCompany.get(company.key) ?? [];
+    if (!metricsCache.has(company.key)) {
+      metricsCache.set(company.key, ESGCalculationEngine.calculateESGMetrics(companyClaims, profile));
+    }
+
+    return {
+      ...row,
+      identifierType,
+      status: 'matched',
+      subject: company.subject,
+      companyKey: company.key,
+      companySlug: company.slug,
+      claimId: companyClaims[0]?.id,
+      matchedNode,
+      esgMetrics: metricsCache.get(company.key),
+    };
+  });
+};
+
+/**
+ * Download the batch results as CSV or XLSX
+ */
+export const exportBatchReport = (results: BatchResultRow[], format: BatchExportFormat): void => {
+  const sheet = XLSX.utils.json_to_sheet(escapeSpreadsheetRecords(results.map(result => ({
+    'Row': result.row,
+    'Identifier': result.identifier,
+    'Identifier Type': result.identifierType,
+    'Status': result.status === 'matched' ? 'Matched' : 'Unmatched',
+    'Company': result.subject ?? '',
+    'Matched Via': result.matchedNode ?? '',
+    'Overall Score (%)': result.esgMetrics ? Math.round(result.esgMetrics.overallPercentage) : '',
+    'Grade': result.esgMetrics?.overallGrade ?? '',
+    'Stars': result.esgMetrics?.overallStars ?? '',
+    'Environmental (%)': result.esgMetrics ? Math.round(result.esgMetrics.environmentalScore) : '',
+    'Social (%)': result.esgMetrics ? Math.round(result.esgMetrics.socialScore) : '',
+    'Governance (%)': result.esgMetrics ? Math.round(result.esgMetrics.governanceScore) : '',
+    'Confidence (%)': result.esgMetrics ? Math.round(result.esgMetrics.confidenceLevel * 100) : '',
+    'Methodology': result.esgMetrics ? `${result.esgMetrics.methodologyId} v${result.esgMetrics.methodologyVersion}` : '',
+    'Notes': result.reason ?? '',
+  }))));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'ESG Report');
+  XLSX.writeFile(workbook, `esg-batch-report.${format}`, { bookType: format });
+};
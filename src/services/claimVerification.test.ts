@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { ed25519 } from '@noble/curves/ed25519';
+import { base58, utf8 } from '@scure/base';
+import type { Claim } from '../types';
+import { canonicalizeClaim, computeClaimDigest, verifyClaim } from './claimVerification';
+
+const baseClaim: Claim = {
+  id: 1,
+  subject: 'Amazon Inc. (AMZN)',
+  claim: 'rated',
+  aspect: 'esg-overall',
+  score: 0.4,
+  confidence: 0.8,
+  effectiveDate: new Date('2024-03-01T00:00:00Z'),
+  createdAt: new Date('2024-03-02T00:00:00Z'),
+  lastUpdatedAt: new Date('2024-03-02T00:00:00Z'),
+};
+
+const signedClaim = (changes: Partial<Claim> = {}): Claim => {
+  const secretKey = ed25519.utils.randomPrivateKey();
+  const did = `did:key:z${base58.encode(new Uint8Array([0xed, 0x01, ...ed25519.getPublicKey(secretKey)]))}`;
+  const claim: Claim = { ...baseClaim, issuerId: did, issuerIdType: 'DID' };
+  const signature = ed25519.sign(utf8.decode(canonicalizeClaim(claim)), secretKey);
+  return { ...claim, proof: `z${base58.encode(signature)}`, ...changes };
+};
+
+describe('canonicalizeClaim', () => {
+  it('sorts the signed fields and drops empty ones', () => {
+    expect(canonicalizeClaim({ ...baseClaim, statement: '' })).toBe(JSON.stringify({
+      aspect: 'esg-overall',
+      claim: 'rated',
+      confidence: 0.8,
+      effectiveDate: '2024-03-01T00:00:00.000Z',
+      score: 0.4,
+      subject: 'Amazon Inc. (AMZN)',
+    }));
+  });
+});
+
+describe('verifyClaim', () => {
+  it('leaves claims without a proof or digest unverified', () => {
+    expect(verifyClaim(baseClaim)).toMatchObject({ status: 'unverified', digest: 'absent', signature: 'absent' });
+  });
+
+  it('matches a digest of the claim content', () => {
+    const claim = { ...baseClaim, digestMultibase: computeClaimDigest(baseClaim) };
+    expect(verifyClaim(claim)).toMatchObject({ status: 'unverified', digest: 'match' });
+  });
+
+  it('flags content that no longer matches its digest', () => {
+    const claim = { ...baseClaim, digestMultibase: computeClaimDigest(baseClaim), score: 0.9 };
+    expect(verifyClaim(claim)).toMatchObject({ status: 'tampered', digest: 'mismatch' });
+  });
+
+  it('verifies an Ed25519 signature from a did:key issuer', () => {
+    expect(verifyClaim(signedClaim())).toMatchObject({ status: 'verified', signature: 'valid', algorithm: 'Ed25519' });
+  });
+
+  it('flags a signed claim whose content changed', () => {
+    expect(verifyClaim(signedClaim({ score: -0.5 }))).toMatchObject({ status: 'tampered', signature: 'invalid' });
+  });
+
+  it('rejects a proof naming a key other than the issuer', () => {
+    const claim = signedClaim();
+    const proof = JSON.stringify({ proofValue: claim.proof, verificationMethod: 'did:key:zSomeoneElse#key-1' });
+    expect(verifyClaim({ ...claim, proof })).toMatchObject({ status: 'tampered', signature: 'invalid', algorithm: undefined });
+  });
+
+  it('cannot resolve URL issuers locally', () => {
+    const claim = signedClaim({ issuerId: 'https://example.com/issuer', issuerIdType: 'URL' });
+    expect(verifyClaim(claim)).toMatchObject({ status: 'unverified', signature: 'unresolved' });
+  });
+});
@@ -0,0 +1,321 @@
+import { ed25519 } from '@noble/curves/ed25519';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { sha256 } from '@noble/hashes/sha2';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { base32nopad, base58, base64urlnopad, hex, utf8 } from '@scure/base';
+import type { Claim } from '../types';
+
+// Cryptographic checks for claim proofs (signatures) and content digests
+export type ClaimVerificationStatus = 'verified' | 'unverified' | 'tampered';
+
+export type SignatureAlgorithm = 'Ed25519' | 'secp256k1' | 'secp256k1-eth';
+
+export type DigestCheck = 'match' | 'mismatch' | 'absent' | 'malformed';
+export type SignatureCheck = 'valid' | 'invalid' | 'absent' | 'unresolved' | 'malformed';
+
+export interface ClaimVerificationResult {
+  claimId: number;
+  status: ClaimVerificationStatus;
+  digest: DigestCheck;
+  signature: SignatureCheck;
+  algorithm?: SignatureAlgorithm;
+  reason: string;
+}
+
+export interface ClaimProof {
+  type?: string;
+  proofValue: string;          // multibase or hex encoded signature
+  verificationMethod?: string; // must name the issuer's own key (same DID as issuerId)
+}
+
+// Claim fields covered by the digest and the signature, in canonical order
+export const SIGNED_CLAIM_FIELDS = [
+  'subject', 'claim', 'object', 'statement', 'effectiveDate',
+  'sourceURI', 'howKnown', 'dateObserved', 'author', 'curator',
+  'aspect', 'score', 'stars', 'amt', 'unit', 'howMeasured',
+  'intendedAudience', 'respondAt', 'confidence', 'issuerId', 'issuerIdType',
+] as const satisfies ReadonlyArray<keyof Claim>;
+
+// Multicodec prefixes for public keys in did:key and multibase PUBKEY identifiers
+const ED25519_PUB_CODEC = [0xed, 0x01];
+const SECP256K1_PUB_CODEC = [0xe7, 0x01];
+
+// Multihash prefix for sha2-256 (code 0x12, 32-byte length)
+const SHA256_MULTIHASH = [0x12, 0x20];
+
+interface ResolvedKey {
+  algorithm: SignatureAlgorithm;
+  publicKey?: Uint8Array;
+  address?: string; // ETH issuers are identified by address, not key
+}
+
+const startsWith = (bytes: Uint8Array, prefix: number[]): boolean =>
+  prefix.every((value, index) => bytes[index] === value);
+
+const bytesEqual = (a: Uint8Array, b: Uint8Array): boolean =>
+  a.length === b.length && a.every((value, index) => value === b[index]);
+
+/**
+ * Decode a multibase string (base58btc "z", base64url "u", base32 "b", hex "f")
+ */
+export const decodeMultibase = (value: string): Uint8Array => {
+  const prefix = value.charAt(0);
+  const body = value.slice(1);
+  switch (prefix) {
+    case 'z':
+      return base58.decode(body);
+    case 'u':
+      return base64urlnopad.decode(body);
+    case 'b':
+      return base32nopad.decode(body.toUpperCase());
+    case 'f':
+      return hex.decode(body.toLowerCase());
+    default:
+      throw new Error(`Unsupported multibase prefix "${prefix}"`);
+  }
+};
+
+const MULTIBASE_PREFIXES = ['z', 'u', 'b', 'f'];
+
+// Decode a signature or key given as multibase, or as plain hex (optionally 0x-prefixed).
+// A multibase prefix wins over hex, since "b…" and "f…" values can be made only of hex characters.
+const decodeBytes = (value: string): Uint8Array => {
+  const trimmed = value.trim();
+  const isHex = (text: string) => /^[0-9a-fA-F]+$/.test(text) && text.length % 2 === 0;
+
+  if (trimmed.startsWith('0x')) {
+    return hex.decode(trimmed.slice(2).toLowerCase());
+  }
+  if (MULTIBASE_PREFIXES.includes(trimmed.charAt(0))) {
+    try {
+      return decodeMultibase(trimmed);
+    } catch (err) {
+      if (!isHex(trimmed)) throw err;
+    }
+  }
+  if (isHex(trimmed)) {
+    return hex.decode(trimmed.toLowerCase());
+  }
+  return decodeMultibase(trimmed);
+};
+
+const normalizeValue = (value: unknown): unknown => {
+  if (value instanceof Date) return value.toISOString();
+  return value;
+};
+
+/**
+ * Canonical payload that issuers sign: the signed fields with sorted keys, no
+ * undefined values and dates as ISO strings.
+ */
+export const canonicalizeClaim = (claim: Claim): string => {
+  const payload: Record<string, unknown> = {};
+  [...SIGNED_CLAIM_FIELDS].sort().forEach(field => {
+    const value = claim[field];
+    if (value !== undefined && value !== null && value !== '') {
+      payload[field] = normalizeValue(value);
+    }
+  });
+  return JSON.stringify(payload);
+};
+
+/**
+ * Multibase (base58btc) sha2-256 multihash of the canonical claim payload
+ */
+export const computeClaimDigest = (claim: Claim): string => {
+  const digest = sha256(utf8.decode(canonicalizeClaim(claim)));
+  return `z${base58.encode(new Uint8Array([...SHA256_MULTIHASH, ...digest]))}`;
+};
+
+const checkDigest = (claim: Claim): DigestCheck => {
+  if (!claim.digestMultibase) return 'absent';
+
+  let decoded: Uint8Array;
+  try {
+    decoded = decodeMultibase(claim.digestMultibase);
+  } catch {
+    return 'malformed';
+  }
+
+  // Accept a sha2-256 multihash or a bare 32-byte digest
+  const expected = sha256(utf8.decode(canonicalizeClaim(claim)));
+  const digest = startsWith(decoded, SHA256_MULTIHASH) ? decoded.slice(SHA256_MULTIHASH.length) : decoded;
+  return bytesEqual(digest, expected) ? 'match' : 'mismatch';
+};
+
+/**
+ * Parse the claim's proof: either a JSON proof object or a bare encoded signature
+ */
+export const parseClaimProof = (proof: string): ClaimProof => {
+  const trimmed = proof.trim();
+  if (trimmed.startsWith('{')) {
+    const parsed = JSON.parse(trimmed) as Partial<ClaimProof>;
+    if (typeof parsed.proofValue !== 'string') {
+      throw new Error('Proof is missing proofValue');
+    }
+    return { type: parsed.type, proofValue: parsed.proofValue, verificationMethod: parsed.verificationMethod };
+  }
+  return { proofValue: trimmed };
+};
+
+// Map a multicodec-prefixed public key to its algorithm
+const resolveMulticodecKey = (bytes: Uint8Array): ResolvedKey | null => {
+  if (startsWith(bytes, ED25519_PUB_CODEC) && bytes.length === 34) {
+    return { algorithm: 'Ed25519', publicKey: bytes.slice(2) };
+  }
+  if (startsWith(bytes, SECP256K1_PUB_CODEC) && bytes.length === 35) {
+    return { algorithm: 'secp256k1', publicKey: bytes.slice(2) };
+  }
+  return null;
+};
+
+/**
+ * Resolve the issuer's signing key from a did:key, public key or Ethereum address.
+ * URL and other DID methods need network resolution and return null.
+ */
+export const resolveIssuerKey = (issuerId: string, issuerIdType?: Claim['issuerIdType']): ResolvedKey | null => {
+  const id = issuerId.split('#')[0].trim();
+
+  if (id.startsWith('did:key:')) {
+    return resolveMulticodecKey(decodeMultibase(id.slice('did:key:'.length)));
+  }
+
+  if (issuerIdType === 'ETH' || /^0x[0-9a-fA-F]{40}$/.test(id)) {
+    return /^0x[0-9a-fA-F]{40}$/.test(id) ? { algorithm: 'secp256k1-eth', address: id.toLowerCase() } : null;
+  }
+
+  if (issuerIdType === 'PUBKEY') {
+    const bytes = decodeBytes(id);
+    const multicodec = resolveMulticodecKey(bytes);
+    if (multicodec) return multicodec;
+    if (bytes.length === 32) return { algorithm: 'Ed25519', publicKey: bytes };
+    if (bytes.length === 33 || bytes.length === 65) return { algorithm: 'secp256k1', publicKey: bytes };
+  }
+
+  return null;
+};
+
+// EIP-191 personal_sign hash of a message
+const ethMessageHash = (message: Uint8Array): Uint8Array =>
+  keccak_256(new Uint8Array([...utf8.decode(`\x19Ethereum Signed Message:\n${message.length}`), ...message]));
+
+const ethAddressFromPublicKey = (uncompressed: Uint8Array): string =>
+  `0x${hex.encode(keccak_256(uncompressed.slice(1)).slice(-20))}`;
+
+const verifySignature = (key: ResolvedKey, signature: Uint8Array, message: Uint8Array): boolean => {
+  switch (key.algorithm) {
+    case 'Ed25519':
+      return key.publicKey !== undefined && ed25519.verify(signature, message, key.publicKey);
+
+    case 'secp256k1':
+      return key.publicKey !== undefined && signature.length === 64 &&
+        secp256k1.verify(signature, sha256(message), key.publicKey, { prehash: false, format: 'compact', lowS: false });
+
+    case 'secp256k1-eth': {
+      // 65-byte r || s || v signature; recover the signer and compare addresses
+      if (signature.length !== 65 || !key.address) return false;
+      const v = signature[64];
+      const recovery = v >= 27 ? v - 27 : v;
+      if (recovery !== 0 && recovery !== 1) return false;
+      const recovered = secp256k1.Signature.fromCompact(signature.slice(0, 64))
+        .addRecoveryBit(recovery)
+        .recoverPublicKey(ethMessageHash(message));
+      return ethAddressFromPublicKey(recovered.toBytes(false)) === key.address;
+    }
+  }
+};
+
+// DID or address without the key fragment; Ethereum addresses compare case-insensitively
+const issuerDid = (id: string): string => {
+  const did = id.split('#')[0].trim();
+  return /^0x[0-9a-fA-F]{40}$/.test(did) ? did.toLowerCase() : did;
+};
+
+const checkSignature = (claim: Claim): { signature: SignatureCheck; algorithm?: SignatureAlgorithm } => {
+  if (!claim.proof) return { signature: 'absent' };
+
+  let proof: ClaimProof;
+  let signatureBytes: Uint8Array;
+  try {
+    proof = parseClaimProof(claim.proof);
+    signatureBytes = decodeBytes(proof.proofValue);
+  } catch {
+    return { signature: 'malformed' };
+  }
+
+  if (!claim.issuerId) return { signature: 'unresolved' };
+
+  // The key always comes from the issuer; a proof naming some other key cannot speak for this issuer
+  if (proof.verificationMethod && issuerDid(proof.verificationMethod) !== issuerDid(claim.issuerId)) {
+    return { signature: 'invalid' };
+  }
+
+  let key: ResolvedKey | null;
+  try {
+    key = resolveIssuerKey(claim.issuerId, claim.issuerIdType);
+  } catch {
+    return { signature: 'malformed' };
+  }
+  if (!key) return { signature: 'unresolved' };
+
+  try {
+    const valid = verifySignature(key, signatureBytes, utf8.decode(canonicalizeClaim(claim)));
+    return { signature: valid ? 'valid' : 'invalid', algorithm: key.algorithm };
+  } catch {
+    // Signatures that do not even decode as curve points cannot belong to this payload
+    return { signature: 'invalid', algorithm: key.algorithm };
+  }
+};
+
+const describeResult = (digest: DigestCheck, signature: SignatureCheck, algorithm?: SignatureAlgorithm): string => {
+  if (digest === 'mismatch') return 'Claim content does not match its recorded digest';
+  if (signature === 'invalid' && !algorithm) return 'Proof names a key that does not belong to the issuer';
+  if (signature === 'invalid') return `${algorithm} signature does not match the claim content or issuer`;
+  if (signature === 'valid') {
+    return digest === 'match'
+      ? `${algorithm} signature and content digest verified`
+      : `${algorithm} signature verified`;
+  }
+  if (signature === 'malformed') return 'Proof could not be decoded';
+  if (signature === 'unresolved') return 'Issuer key could not be resolved locally';
+  if (digest === 'malformed') return 'Digest could not be decoded';
+  if (digest === 'match') return 'Content digest matches, but the claim is not signed';
+  return 'Claim is not signed';
+};
+
+/**
+ * Verify a claim's digest and signature.
+ * - tampered: the digest or a resolvable signature does not match the content
+ * - verified: a valid signature from the issuer key (and no digest mismatch)
+ * - unverified: nothing could be checked cryptographically
+ */
+export const verifyClaim = (claim: Claim): ClaimVerificationResult => {
+  const digest = checkDigest(claim);
+  const { signature, algorithm } = checkSignature(claim);
+
+  let status: ClaimVerificationStatus = 'unverified';
+  if (digest === 'mismatch' || signature === 'invalid') {
+    status = 'tampered';
+  } else if (signature === 'valid') {
+    status = 'verified';
+  }
+
+  return {
+    claimId: claim.id,
+    status,
+    digest,
+    signature,
+    algorithm,
+    reason: describeResult(digest, signature, algorithm),
+  };
+};
+
+/**
+ * Verify a list of claims, keyed by claim ID
+ */
+export const verifyClaims = (claims: Claim[]): Record<number, ClaimVerificationResult> => {
+  return claims.reduce((results, claim) => {
+    results[claim.id] = verifyClaim(claim);
+    return results;
+  }, {} as Record<number, ClaimVerificationResult>);
+};
@@ -0,0 +1,340 @@
+import type { Claim, CompanyCardData } from '../types';
+import { ESGCalculationEngine, type ESGMetrics } from './esgCalculations';
+import type { CompanyClaimGroup } from './companyResolver';
+import type { MethodologyProfile } from './methodology';
+
+// Faceted filtering and sorting for the companies list, serialized to URL query parameters
+export type HowKnownSource = NonNullable<Claim['howKnown']>;
+
+export type GradeBand = 'A' | 'B' | 'C' | 'D' | 'F';
+export type ConfidenceBand = 'low' | 'medium' | 'high';
+export type RecencyWindow = '30d' | '90d' | '1y' | '3y';
+export type PillarKey = 'environmental' | 'social' | 'governance';
+export type SortDirection = 'asc' | 'desc';
+
+// Every numeric ESGMetrics field can be used as a sort key
+export type SortableMetric = {
+  [K in keyof ESGMetrics]: ESGMetrics[K] extends number ? K : never;
+}[keyof ESGMetrics];
+
+export type CompanySortField = SortableMetric | 'subject';
+
+export type ScoreRange = [number, number]; // percentage bounds, inclusive
+
+export interface CompanyFilters {
+  search: string;
+  grades: GradeBand[];
+  stars: number[];
+  pillars: Record<PillarKey, ScoreRange>;
+  confidence: ConfidenceBand[];
+  minValidators: number;
+  sources: HowKnownSource[];
+  recency: RecencyWindow | null;
+  sortBy: CompanySortField;
+  sortDirection: SortDirection;
+}
+
+// A company card with the data its facets are evaluated against
+export interface CompanyListEntry {
+  company: CompanyCardData;
+  esgMetrics: ESGMetrics;
+  sources: HowKnownSource[];
+  lastClaimDate: Date | null;
+}
+
+export const GRADE_BANDS: GradeBand[] = ['A', 'B', 'C', 'D', 'F'];
+export const STAR_COUNTS = [5, 4, 3, 2, 1, 0];
+export const FULL_SCORE_RANGE: ScoreRange = [0, 100];
+
+export const PILLAR_LABELS: Record<PillarKey, string> = {
+  environmental: 'Environmental',
+  social: 'Social',
+  governance: 'Governance',
+};
+
+const PILLAR_METRICS: Record<PillarKey, SortableMetric> = {
+  environmental: 'environmentalScore',
+  social: 'socialScore',
+  governance: 'governanceScore',
+};
+
+// Confidence levels are 0–1; bands are [min, max) except the top band
+export const CONFIDENCE_BANDS: Record<ConfidenceBand, { label: string; min: number; max: number }> = {
+  low: { label: 'Low (< 50%)', min: 0, max: 0.5 },
+  medium: { label: 'Medium (50–75%)', min: 0.5, max: 0.75 },
+  high: { label: 'High (≥ 75%)', min: 0.75, max: Infinity },
+};
+
+export const RECENCY_WINDOWS: Record<RecencyWindow, { label: string; days: number }> = {
+  '30d': { label: 'Last 30 days', days: 30 },
+  '90d': { label: 'Last 90 days', days: 90 },
+  '1y': { label: 'Last year', days: 365 },
+  '3y': { label: 'Last 3 years', days: 3 * 365 },
+};
+
+export const HOW_KNOWN_LABELS: Record<HowKnownSource, string> = {
+  FIRST_HAND: 'First hand',
+  SECOND_HAND: 'Second hand',
+  WEB_DOCUMENT: 'Web document',
+  VERIFIED_LOGIN: 'Verified login',
+  BLOCKCHAIN: 'Blockchain',
+  SIGNED_DOCUMENT: 'Signed document',
+  PHYSICAL_DOCUMENT: 'Physical document',
+  INTEGRATION: 'Integration',
+  RESEARCH: 'Research',
+  OPINION: 'Opinion',
+  OTHER: 'Other',
+};
+
+export const SORT_FIELD_LABELS: Record<CompanySortField, string> = {
+  overallScore: 'Overall score',
+  overallPercentage: 'Overall percentage',
+  overallStars: 'Stars',
+  environmentalScore: 'Environmental score',
+  socialScore: 'Social score',
+  governanceScore: 'Governance score',
+  confidenceLevel: 'Confidence level',
+  industryPercentile: 'Industry percentile',
+  totalValidations: 'Total validations',
+  endorsements: 'Endorsements',
+  rejections: 'Rejections',
+  averageRating: 'Average validator rating',
+  endorsementRate: 'Endorsement rate',
+  consensusPercentage: 'Consensus',
+  subject: 'Company name',
+};
+
+export const DEFAULT_COMPANY_FILTERS: CompanyFilters = {
+  search: '',
+  grades: [],
+  stars: [],
+  pillars: {
+    environmental: FULL_SCORE_RANGE,
+    social: FULL_SCORE_RANGE,
+    governance: FULL_SCORE_RANGE,
+  },
+  confidence: [],
+  minValidators: 0,
+  sources: [],
+  recency: null,
+  sortBy: 'overallScore',
+  sortDirection: 'desc',
+};
+
+// URL parameter names
+const PARAMS = {
+  search: 'q',
+  grades: 'grade',
+  stars: 'stars',
+  confidence: 'confidence',
+  minValidators: 'validators',
+  sources: 'source',
+  recency: 'recency',
+  sortBy: 'sort',
+  sortDirection: 'dir',
+} as const;
+
+const PILLAR_PARAMS: Record<PillarKey, string> = {
+  environmental: 'env',
+  social: 'soc',
+  governance: 'gov',
+};
+
+const isOneOf = <T extends string>(options: readonly T[], value: string): value is T =>
+  (options as readonly string[]).includes(value);
+
+// Comma separated list params, keeping only recognised values
+const parseList = <T extends string>(value: string | null, options: readonly T[]): T[] =>
+  (value ?? '').split(',').map(item => item.trim()).filter((item): item is T => isOneOf(options, item));
+
+const parseRange = (value: string | null): ScoreRange => {
+  const match = value?.match(/^(\d{1,3})-(\d{1,3})$/);
+  if (!match) return FULL_SCORE_RANGE;
+  const min = Math.min(Number(match[1]), 100);
+  const max = Math.min(Number(match[2]), 100);
+  return min <= max ? [min, max] : FULL_SCORE_RANGE;
+};
+
+const isFullRange = (range: ScoreRange): boolean =>
+  range[0] <= FULL_SCORE_RANGE[0] && range[1] >= FULL_SCORE_RANGE[1];
+
+/**
+ * Read filters from URL query parameters, ignoring unknown or malformed values
+ */
+export const parseCompanyFilters = (searchParams: URLSearchParams): CompanyFilters => {
+  const sortBy = searchParams.get(PARAMS.sortBy) ?? '';
+  const minValidators = parseInt(searchParams.get(PARAMS.minValidators) ?? '', 10);
+  const recency = searchParams.get(PARAMS.recency) ?? '';
+
+  return {
+    search: searchParams.get(PARAMS.search) ?? '',
+    grades: parseList(searchParams.get(PARAMS.grades), GRADE_BANDS),
+    stars: (searchParams.get(PARAMS.stars) ?? '')
+      .split(',')
+      .map(value => parseInt(value, 10))
+      .filter(value => STAR_COUNTS.includes(value)),
+    pillars: {
+      environmental: parseRange(searchParams.get(PILLAR_PARAMS.environmental)),
+      social: parseRange(searchParams.get(PILLAR_PARAMS.social)),
+      governance: parseRange(searchParams.get(PILLAR_PARAMS.governance)),
+    },
+    confidence: parseList(searchParams.get(PARAMS.confidence), Object.keys(CONFIDENCE_BANDS) as ConfidenceBand[]),
+    minValidators: Number.isFinite(minValidators) && minValidators > 0 ? minValidators : 0,
+    sources: parseList(searchParams.get(PARAMS.sources), Object.keys(HOW_KNOWN_LABELS) as HowKnownSource[]),
+    recency: isOneOf(Object.keys(RECENCY_WINDOWS) as RecencyWindow[], recency) ? recency : null,
+    sortBy: isOneOf(Object.keys(SORT_FIELD_LABELS) as CompanySortField[], sortBy) ? sortBy : DEFAULT_COMPANY_FILTERS.sortBy,
+    sortDirection: searchParams.get(PARAMS.sortDirection) === 'asc' ? 'asc' : 'desc',
+  };
+};
+
+/**
+ * Write filters to URL query parameters; defaults are omitted to keep links short
+ */
+export const serializeCompanyFilters = (filters: CompanyFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+
+  if (filters.search.trim()) params.set(PARAMS.search, filters.search);
+  if (filters.grades.length > 0) params.set(PARAMS.grades, filters.grades.join(','));
+  if (filters.stars.length > 0) params.set(PARAMS.stars, filters.stars.join(','));
+  (Object.keys(PILLAR_PARAMS) as PillarKey[]).forEach(pillar => {
+    const range = filters.pillars[pillar];
+    if (!isFullRange(range)) params.set(PILLAR_PARAMS[pillar], `${range[0]}-${range[1]}`);
+  });
+  if (filters.confidence.length > 0) params.set(PARAMS.confidence, filters.confidence.join(','));
+  if (filters.minValidators > 0) params.set(PARAMS.minValidators, String(filters.minValidators));
+  if (filters.sources.length > 0) params.set(PARAMS.sources, filters.sources.join(','));
+  if (filters.recency) params.set(PARAMS.recency, filters.recency);
+  if (filters.sortBy !== DEFAULT_COMPANY_FILTERS.sortBy) params.set(PARAMS.sortBy, filters.sortBy);
+  if (filters.sortDirection !== DEFAULT_COMPANY_FILTERS.sortDirection) params.set(PARAMS.sortDirection, filters.sortDirection);
+
+  return params;
+};
+
+/**
+ * Number of facets that narrow the list (search and sorting excluded)
+ */
+export const countActiveFilters = (filters: CompanyFilters): number =>
+  [
+    filters.grades.length > 0,
+    filters.stars.length > 0,
+    ...(Object.keys(PILLAR_PARAMS) as PillarKey[]).map(pillar => !isFullRange(filters.pillars[pillar])),
+    filters.confidence.length > 0,
+    filters.minValidators > 0,
+    filters.sources.length > 0,
+    filters.recency !== null,
+  ].filter(Boolean).length;
+
+// The most recent date a claim was made, observed or updated
+const latestClaimDate = (claims: Claim[]): Date | null => {
+  const times = claims
+    .flatMap(claim => [claim.effectiveDate, claim.dateObserved, claim.lastUpdatedAt, claim.createdAt])
+    .filter((date): date is Date => Boolean(date))
+    .map(date => new Date(date).getTime())
+    .filter(time => !isNaN(time));
+  return times.length > 0 ? new Date(Math.max(...times)) : null;
+};
+
+/**
+ * Collect the facet data for a company from its metrics and claims
+ */
+export const buildCompanyListEntry = (company: CompanyCardData, esgMetrics: ESGMetrics, claims: Claim[]): CompanyListEntry => ({
+  company,
+  esgMetrics,
+  sources: Array.from(new Set(claims.map(claim => claim.howKnown).filter((source): source is HowKnownSource => Boolean(source)))),
+  lastClaimDate: latestClaimDate(claims),
+});
+
+/**
+ * Score every company group with the same logic as company details, best overall score first;
+ * companies in partialKeys are flagged as scored from incomplete claims
+ */
+export const buildCompanyListEntries = (
+  groups: CompanyClaimGroup[],
+  profile: MethodologyProfile,
+  partialKeys: ReadonlySet<string> = new Set()
+): CompanyListEntry[] => {
+  const entries = groups.map(({ identity, claims }) => {
+    const esgMetrics = ESGCalculationEngine.calculateESGMetrics(claims, profile);
+    const company: CompanyCardData = {
+      id: claims[0].id,
+      companyKey: identity.key,
+      slug: identity.slug,
+      subject: identity.subject,
+      stars: esgMetrics.overallStars,
+      score: esgMetrics.overallScore, // This is the raw score (-1 to 1)
+      grade: esgMetrics.overallGrade,
+      partial: partialKeys.has(identity.key),
+    };
+    return buildCompanyListEntry(company, esgMetrics, claims);
+  });
+
+  return entries.sort((a, b) => b.company.score - a.company.score);
+};
+
+const gradeBand = (grade: string): GradeBand => {
+  const letter = grade.charAt(0).toUpperCase();
+  return isOneOf(GRADE_BANDS, letter) ? letter : 'F';
+};
+
+const confidenceBand = (confidenceLevel: number): ConfidenceBand =>
+  (Object.keys(CONFIDENCE_BANDS) as ConfidenceBand[]).find(band =>
+    confidenceLevel >= CONFIDENCE_BANDS[band].min && confidenceLevel < CONFIDENCE_BANDS[band].max
+  ) ?? 'low';
+
+const matchesFilters = (entry: CompanyListEntry, filters: CompanyFilters, now: number): boolean => {
+  const { company, esgMetrics } = entry;
+
+  const term = filters.search.trim().toLowerCase();
+  if (term && !company.subject.toLowerCase().includes(term) && !company.grade.toLowerCase().includes(term)) {
+    return false;
+  }
+
+  if (filters.grades.length > 0 && !filters.grades.includes(gradeBand(company.grade))) return false;
+  if (filters.stars.length > 0 && !filters.stars.includes(company.stars)) return false;
+
+  const outsideRange = (Object.keys(PILLAR_METRICS) as PillarKey[]).some(pillar => {
+    const [min, max] = filters.pillars[pillar];
+    const value = Math.round(esgMetrics[PILLAR_METRICS[pillar]]);
+    return value < min || value > max;
+  });
+  if (outsideRange) return false;
+
+  if (filters.confidence.length > 0 && !filters.confidence.includes(confidenceBand(esgMetrics.confidenceLevel))) return false;
+  if (esgMetrics.totalValidations < filters.minValidators) return false;
+  if (filters.sources.length > 0 && !entry.sources.some(source => filters.sources.includes(source))) return false;
+
+  if (filters.recency) {
+    const cutoff = now - RECENCY_WINDOWS[filters.recency].days * 24 * 60 * 60 * 1000;
+    if (!entry.lastClaimDate || entry.lastClaimDate.getTime() < cutoff) return false;
+  }
+
+  return true;
+};
+
+const compareEntries = (a: CompanyListEntry, b: CompanyListEntry, sortBy: CompanySortField): number => {
+  if (sortBy === 'subject') {
+    return a.company.subject.localeCompare(b.company.subject);
+  }
+  return a.esgMetrics[sortBy] - b.esgMetrics[sortBy];
+};
+
+/**
+ * Apply every facet and sort the remaining companies; ties fall back to company name
+ */
+export const applyCompanyFilters = (entries: CompanyListEntry[], filters: CompanyFilters, now: Date = new Date()): CompanyListEntry[] => {
+  const direction = filters.sortDirection === 'asc' ? 1 : -1;
+  return entries
+    .filter(entry => matchesFilters(entry, filters, now.getTime()))
+    .sort((a, b) =>
+      compareEntries(a, b, filters.sortBy) * direction ||
+      a.company.subject.localeCompare(b.company.subject)
+    );
+};
+
+/**
+ * Source types present in the data, used to offer only facets that can match
+ */
+export const collectSources = (entries: CompanyListEntry[]): HowKnownSource[] => {
+  const present = new Set(entries.flatMap(entry => entry.sources));
+  return (Object.keys(HOW_KNOWN_LABELS) as HowKnownSource[]).filter(source => present.has(source));
+};
@@ -0,0 +1,110 @@
+import type { Claim, ESGCategoryDetails, ESGCategoryKey } from '../types';
+import type { MethodologyProfile } from './methodology';
+import { formatMethodologyLabel } from './methodology';
+import { ESGCalculationEngine, type ESGMetrics, type ValidationEntry } from './esgCalculations';
+import { buildCompanyPath } from './companyResolver';
+
+// One-page ESG summary of a company, rendered client-side for printing or saving as PDF
+export interface ReportSource {
+  uri: string;
+  label: string;   // what the source backs, e.g. a claim aspect or attribute name
+}
+
+export interface CompanyReport {
+  subject: string;
+  generatedAt: Date;
+  methodologyLabel: string;
+  esgMetrics: ESGMetrics;
+  categoryDetails: Record<ESGCategoryKey, ESGCategoryDetails>;
+  breakdown: ReturnType<typeof ESGCalculationEngine.getCalculationBreakdown>;
+  explanation: string[];
+  topValidations: ValidationEntry[];
+  sources: ReportSource[];
+  claimCount: number;
+}
+
+export const REPORT_CATEGORIES: Array<{ key: ESGCategoryKey; label: string }> = [
+  { key: 'environmental', label: 'Environmental' },
+  { key: 'social', label: 'Social' },
+  { key: 'governance', label: 'Governance' },
+];
+
+const TOP_VALIDATION_COUNT = 5;
+
+/**
+ * Report route for a company slug; `print` opens the browser's print dialog once rendered
+ */
+export const buildCompanyReportPath = (slug: string, print: boolean = false): string =>
+  `${buildCompanyPath(slug)}/report${print ? '?print=1' : ''}`;
+
+const formatPercent = (value: number) => `${value.toFixed(1)}%`;
+
+// Plain-language walk through getCalculationBreakdown, one line per step
+const explainBreakdown = (breakdown: CompanyReport['breakdown']): string[] => {
+  const { methodology, pillarBreakdown, overallCalculation } = breakdown;
+  const lines = REPORT_CATEGORIES.map(({ key, label }) => {
+    const pillar = pillarBreakdown[key];
+    return `${label}: ${pillar.claims} claim${pillar.claims === 1 ? '' : 's'} average ${formatPercent(pillar.averageScore)}, ` +
+      `weighted at ${Math.round(methodology.weights[key] * 100)}% → ${formatPercent(pillar.weightedContribution)}`;
+  });
+  lines.push(
+    `Weighted sum ${formatPercent(overallCalculation.weightedSum)} → ` +
+    `${overallCalculation.starRating} star${overallCalculation.starRating === 1 ? '' : 's'}, grade ${overallCalculation.grade} ` +
+    `under ${formatMethodologyLabel(methodology)}`
+  );
+  return lines;
+};
+
+// Verified, highest-rated and most recent statements first
+const selectTopValidations = (history: ValidationEntry[]): ValidationEntry[] =>
+  history
+    .filter(entry => entry.statement.trim().length > 0)
+    .sort((a, b) =>
+      Number(b.verified) - Number(a.verified) ||
+      b.rating - a.rating ||
+      new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+    )
+    .slice(0, TOP_VALIDATION_COUNT);
+
+const collectSources = (claims: Claim[], categoryDetails: CompanyReport['categoryDetails']): ReportSource[] => {
+  const sources = new Map<string, ReportSource>();
+  const add = (uri: string | undefined, label: string) => {
+    const trimmed = uri?.trim();
+    if (trimmed && !sources.has(trimmed)) sources.set(trimmed, { uri: trimmed, label });
+  };
+
+  claims.forEach(claim => add(claim.sourceURI, claim.aspect || claim.claim));
+  REPORT_CATEGORIES.forEach(({ key }) => {
+    categoryDetails[key].attributes.forEach(attribute => {
+      attribute.dataStreams.forEach(stream => add(stream.sourceUri, attribute.name));
+    });
+  });
+  return Array.from(sources.values());
+};
+
+/**
+ * Assemble everything the printable report shows from a company's claims
+ */
+export const buildCompanyReport = (
+  subject: string,
+  claims: Claim[],
+  esgMetrics: ESGMetrics,
+  profile: MethodologyProfile
+): CompanyReport => {
+  const categoryDetails = ESGCalculationEngine.getCategoryAttributeDetails(claims, profile);
+  const breakdown = ESGCalculationEngine.getCalculationBreakdown(claims, profile);
+  const { validationHistory } = ESGCalculationEngine.calculateValidationMetrics(claims);
+
+  return {
+    subject,
+    generatedAt: new Date(),
+    methodologyLabel: formatMethodologyLabel(profile),
+    esgMetrics,
+    categoryDetails,
+    breakdown,
+    explanation: explainBreakdown(breakdown),
+    topValidations: selectTopValidations(validationHistory),
+    sources: collectSources(claims, categoryDetails),
+    claimCount: claims.length,
+  };
+};
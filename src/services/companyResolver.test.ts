@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import type { Claim, Node } from '../types';
+import {
+  createCompanyResolver,
+  namesShareWords,
+  normalizeCompanyName,
+  parseCompanySubject,
+  subjectMatchesIdentity,
+} from './companyResolver';
+
+const createdAt = new Date('2024-01-01T00:00:00Z');
+
+const claim = (id: number, subject: string): Claim => ({
+  id,
+  subject,
+  claim: 'rated',
+  score: 0.5,
+  confidence: 0.9,
+  createdAt,
+  lastUpdatedAt: createdAt,
+});
+
+const organization = (id: number, name: string, nodeUri: string): Node => ({
+  id,
+  name,
+  nodeUri,
+  entType: 'ORGANIZATION',
+  descrip: '',
+});
+
+describe('normalizeCompanyName', () => {
+  it('ignores punctuation and legal suffixes', () => {
+    expect(normalizeCompanyName('Apple, Inc.')).toBe('apple');
+    expect(normalizeCompanyName('Siemens AG')).toBe('siemens');
+    expect(normalizeCompanyName('Amazon.com')).toBe('amazon');
+  });
+});
+
+describe('parseCompanySubject', () => {
+  it('reads a ticker in parentheses', () => {
+    expect(parseCompanySubject('Amazon Inc. (AMZN)')).toMatchObject({ name: 'amazon', ticker: 'AMZN' });
+  });
+
+  it('reads ISINs and URLs', () => {
+    expect(parseCompanySubject('US0231351067')).toMatchObject({ isin: 'US0231351067' });
+    expect(parseCompanySubject('https://www.amazon.com/about')).toEqual({ name: '', domain: 'amazon.com' });
+  });
+
+  it('treats short upper-case subjects as names', () => {
+    expect(parseCompanySubject('IBM')).toMatchObject({ name: 'ibm', ticker: undefined });
+    expect(parseCompanySubject('BP PLC')).toMatchObject({ name: 'bp', ticker: undefined });
+  });
+});
+
+describe('namesShareWords', () => {
+  it('matches whole words only', () => {
+    expect(namesShareWords('tesla motors', 'tesla')).toBe(true);
+    expect(namesShareWords('general electric', 'ge')).toBe(false);
+  });
+});
+
+describe('createCompanyResolver', () => {
+  it('merges aliases of one company', () => {
+    const resolver = createCompanyResolver(
+      [claim(1, 'Amazon Inc. (AMZN)'), claim(2, 'Amazon'), claim(3, 'https://amazon.com')],
+      [organization(10, 'Amazon', 'https://www.amazon.com')]
+    );
+
+    expect(resolver.companies).toHaveLength(1);
+    const [amazon] = resolver.companies;
+    expect(amazon).toMatchObject({ key: 'ticker:AMZN', slug: 'amazon-amzn', name: 'Amazon Inc.' });
+    expect(resolver.keyOf('Amazon')).toBe('ticker:AMZN');
+    expect(resolver.keyOf('https://amazon.com')).toBe('ticker:AMZN');
+  });
+
+  it('keeps companies with different tickers apart even when their names match', () => {
+    const resolver = createCompanyResolver([claim(1, 'Alpha Corp (ALPA)'), claim(2, 'Alpha Corp (ALPB)')]);
+    expect(resolver.companies.map(company => company.key).sort()).toEqual(['ticker:ALPA', 'ticker:ALPB']);
+  });
+
+  it('does not turn short upper-case names into tickers', () => {
+    const resolver = createCompanyResolver([claim(1, 'IBM'), claim(2, 'BP PLC')]);
+    expect(resolver.keyOf('IBM')).toBe('name:ibm');
+    expect(resolver.keyOf('BP')).toBe('name:bp');
+  });
+
+  it('looks up a known ticker typed on its own', () => {
+    const resolver = createCompanyResolver([claim(1, 'Amazon Inc. (AMZN)')]);
+    expect(resolver.find('AMZN')?.key).toBe('ticker:AMZN');
+    expect(resolver.find('MSFT')).toBeUndefined();
+  });
+
+  it('finds companies by slug and resolves unknown subjects on their own', () => {
+    const resolver = createCompanyResolver([claim(1, 'Amazon Inc. (AMZN)')]);
+    expect(resolver.find('amazon-amzn')?.key).toBe('ticker:AMZN');
+    expect(resolver.resolve('Globex Corporation')).toMatchObject({ key: 'name:globex', subjects: ['Globex Corporation'] });
+  });
+
+  it('groups claims by company', () => {
+    const resolver = createCompanyResolver([claim(1, 'Amazon Inc. (AMZN)'), claim(2, 'Amazon'), claim(3, 'Tesla')]);
+    const groups = resolver.groupClaims([claim(1, 'Amazon Inc. (AMZN)'), claim(2, 'Amazon'), claim(3, 'Tesla')]);
+    expect(groups.map(group => [group.identity.key, group.claims.map(grouped => grouped.id)])).toEqual([
+      ['ticker:AMZN', [1, 2]],
+      ['name:tesla', [3]],
+    ]);
+  });
+});
+
+describe('subjectMatchesIdentity', () => {
+  it('compares strong identifiers before names', () => {
+    const [amazon] = createCompanyResolver([claim(1, 'Amazon Inc. (AMZN)')]).companies;
+    expect(subjectMatchesIdentity('Amazon', amazon)).toBe(true);
+    expect(subjectMatchesIdentity('Amazon (AMZX)', amazon)).toBe(false);
+  });
+});
@@ -0,0 +1,342 @@
+import type { Claim, Node } from '../types';
+
+// Canonical company identities shared by claims (free-text subjects) and organization nodes
+export interface CompanyIdentifiers {
+  name: string;       // normalized name, '' when the value has none
+  ticker?: string;
+  isin?: string;
+  domain?: string;
+}
+
+export interface CompanyIdentity {
+  key: string;        // canonical key: isin:…, ticker:…, domain:… or name:…
+  slug: string;       // URL-friendly identifier, e.g. "amazon-amzn"
+  name: string;       // display name without ticker
+  subject: string;    // preferred claim subject for display and API calls
+  subjects: string[]; // every claim subject that resolves to this company
+  tickers: string[];
+  isins: string[];
+  domains: string[];
+  names: string[];    // normalized names and aliases
+  node?: Node;        // organization node, when one is known
+}
+
+export interface CompanyClaimGroup {
+  identity: CompanyIdentity;
+  claims: Claim[];
+}
+
+export interface CompanyResolver {
+  companies: CompanyIdentity[];
+  // Identity for a subject, name, ticker, ISIN or URL; unknown values get a standalone identity
+  resolve: (value: string) => CompanyIdentity;
+  // Identity for a known slug or identifier only
+  find: (value: string) => CompanyIdentity | undefined;
+  resolveNode: (node: Node) => CompanyIdentity | undefined;
+  keyOf: (subject: string) => string;
+  groupClaims: (claims: Claim[]) => CompanyClaimGroup[];
+}
+
+const ISIN_PATTERN = /\b([A-Z]{2}[A-Z0-9]{9}\d)\b/;
+const SUBJECT_TICKER = /\(([A-Z][A-Z0-9.]{0,9})\)\s*$/;
+const BARE_TICKER = /^[A-Z]{1,5}(\.[A-Z]{1,2})?$/;
+
+// Lower-case and strip punctuation and legal suffixes so "Apple, Inc." matches "Apple Inc."
+export const normalizeCompanyName = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/\.(com|net|org|io)\b/g, '')
+    .replace(/[.,]/g, '')
+    .replace(/\b(inc|llc|ltd|plc|corp|corporation|co|company|ag|sa|nv|se|gmbh|holdings?|group)\b/g, '')
+    .replace(/[^a-z0-9&]+/g, ' ')
+    .trim();
+
+// Below this length a partial name is too likely to appear inside another name ("ge", "3m")
+export const MIN_PARTIAL_NAME_LENGTH = 4;
+
+const containsWords = (name: string, words: string): boolean => ` ${name} `.includes(` ${words} `);
+
+/**
+ * Whether one normalized name appears in the other as whole words, e.g. "tesla" in "tesla motors"
+ */
+export const namesShareWords = (a: string, b: string): boolean =>
+  containsWords(a, b) || containsWords(b, a);
+
+const parseDomain = (value: string): string | undefined => {
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:'
+      ? url.hostname.toLowerCase().replace(/^www\./, '')
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Extract the identifiers embedded in a claim subject, e.g. "Amazon Inc. (AMZN)",
+ * "US0231351067" or "https://amazon.com". Only a ticker in parentheses counts as one:
+ * short upper-case subjects such as "IBM" or "BP PLC" are names
+ */
+export const parseCompanySubject = (subject: string): CompanyIdentifiers => {
+  const value = subject.trim();
+
+  const domain = parseDomain(value);
+  if (domain) return { name: '', domain };
+
+  const isin = value.toUpperCase().match(ISIN_PATTERN)?.[1];
+  const ticker = value.match(SUBJECT_TICKER)?.[1];
+  const name = normalizeCompanyName(
+    value.replace(SUBJECT_TICKER, '').replace(isin ?? '', '')
+  );
+  return { name, ticker, isin };
+};
+
+const nodeIdentifiers = (node: Node): CompanyIdentifiers => ({
+  name: normalizeCompanyName(node.name),
+  domain: parseDomain(node.nodeUri),
+  isin: node.nodeUri.toUpperCase().match(ISIN_PATTERN)?.[1],
+});
+
+const slugify = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// Name plus ticker (or ISIN) keeps slugs readable and unique across companies sharing a name
+const buildSlug = (name: string, tickers: string[], isins: string[], domains: string[]): string => {
+  const base = normalizeCompanyName(name) || domains[0] || '';
+  return slugify([base, tickers[0] ?? isins[0] ?? ''].filter(Boolean).join(' '));
+};
+
+// A slug that is not indexed may still carry a name and a ticker (last segment)
+const parseSlug = (value: string): CompanyIdentifiers[] => {
+  if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(value)) return [];
+  const parts = value.split('-');
+  const withTicker = { name: parts.slice(0, -1).join(' '), ticker: parts[parts.length - 1].toUpperCase() };
+  return parts.length > 1 ? [withTicker, { name: parts.join(' ') }] : [{ name: value }];
+};
+
+// Tokens are identifiers in a shared namespace, e.g. "ticker:AMZN" or "name:amazon"
+const identifierTokens = (ids: CompanyIdentifiers): string[] => [
+  ids.isin && `isin:${ids.isin}`,
+  ids.ticker && `ticker:${ids.ticker}`,
+  ids.domain && `domain:${ids.domain}`,
+  ids.name && `name:${ids.name}`,
+].filter((token): token is string => Boolean(token));
+
+// Preferred identifier for the canonical key
+const KEY_PRIORITY = ['isin:', 'ticker:', 'domain:', 'name:'];
+
+const canonicalKey = (tokens: string[]): string => {
+  for (const prefix of KEY_PRIORITY) {
+    const token = tokens.filter(candidate => candidate.startsWith(prefix)).sort()[0];
+    if (token) return token;
+  }
+  return tokens[0] ?? 'name:';
+};
+
+interface Component {
+  tokens: Set<string>;
+  subjects: string[];
+  nodes: Node[];
+}
+
+const strongValues = (component: Component, prefix: string): string[] =>
+  Array.from(component.tokens).filter(token => token.startsWith(prefix));
+
+// Two companies with different tickers or ISINs are never the same, whatever their names say
+const conflicts = (a: Component, b: Component): boolean =>
+  ['isin:', 'ticker:'].some(prefix => {
+    const left = strongValues(a, prefix);
+    const right = strongValues(b, prefix);
+    return left.length > 0 && right.length > 0 && !left.some(token => right.includes(token));
+  });
+
+const toIdentity = (component: Component): CompanyIdentity => {
+  const tokens = Array.from(component.tokens);
+  const values = (prefix: string) => tokens.filter(token => token.startsWith(prefix)).map(token => token.slice(prefix.length)).sort();
+
+  // The most frequently used subject is the one people recognise; ties go to subjects carrying a ticker
+  const counts = new Map<string, number>();
+  component.subjects.forEach(subject => counts.set(subject, (counts.get(subject) ?? 0) + 1));
+  const subjects = Array.from(counts.keys());
+  const subject = [...subjects].sort((a, b) =>
+    (counts.get(b) ?? 0) - (counts.get(a) ?? 0) ||
+    Number(SUBJECT_TICKER.test(b)) - Number(SUBJECT_TICKER.test(a)) ||
+    a.localeCompare(b)
+  )[0]
+    ?? component.nodes[0]?.name
+    ?? '';
+  const node = component.nodes[0];
+
+  const name = subject ? subject.replace(SUBJECT_TICKER, '').trim() : node?.name ?? '';
+  const tickers = values('ticker:');
+  const isins = values('isin:');
+  const domains = values('domain:');
+
+  return {
+    key: canonicalKey(tokens),
+    slug: buildSlug(name, tickers, isins, domains),
+    name,
+    subject,
+    subjects,
+    tickers,
+    isins,
+    domains,
+    names: values('name:'),
+    node,
+  };
+};
+
+/**
+ * Canonical key of a subject on its own, for callers without claims or nodes to merge against
+ */
+export const companyKeyFromSubject = (subject: string): string =>
+  canonicalKey(identifierTokens(parseCompanySubject(subject)));
+
+/**
+ * URL slug of a subject on its own, for callers without claims or nodes to merge against
+ */
+export const companySlugFromSubject = (subject: string): string =>
+  toIdentity({ tokens: new Set(identifierTokens(parseCompanySubject(subject))), subjects: [subject], nodes: [] }).slug;
+
+/**
+ * Text to search the backend with for a company the resolver does not know yet:
+ * the name part of a slug, otherwise the value itself
+ */
+export const companySearchTerm = (value: string): string => {
+  const trimmed = value.trim();
+  return parseSlug(trimmed)[0]?.name || trimmed;
+};
+
+/**
+ * Route of a company's details page
+ */
+export const buildCompanyPath = (slug: string): string => `/companies/${encodeURIComponent(slug)}`;
+
+/**
+ * Build a resolver that merges claim subjects and organization nodes sharing an ISIN,
+ * ticker, web domain or normalized name into one canonical company
+ */
+export const createCompanyResolver = (claims: Claim[], nodes: Node[] = []): CompanyResolver => {
+  const components: Component[] = [];
+  const tokenIndex = new Map<string, Component>();
+
+  const add = (ids: CompanyIdentifiers, subject?: string, node?: Node) => {
+    const tokens = identifierTokens(ids);
+    if (tokens.length === 0) return;
+
+    let target: Component = { tokens: new Set(tokens), subjects: subject ? [subject] : [], nodes: node ? [node] : [] };
+    const matches = Array.from(new Set(tokens.map(token => tokenIndex.get(token)).filter((c): c is Component => Boolean(c))));
+
+    const merged: Component[] = [];
+    for (const match of matches) {
+      if (conflicts(match, target)) continue;
+      match.tokens.forEach(token => target.tokens.add(token));
+      target = { ...target, subjects: [...match.subjects, ...target.subjects], nodes: [...match.nodes, ...target.nodes] };
+      components.splice(components.indexOf(match), 1);
+      merged.push(match);
+    }
+
+    components.push(target);
+    target.tokens.forEach(token => {
+      // Ambiguous name tokens stay with the company that claimed them first
+      const owner = tokenIndex.get(token);
+      if (!owner || merged.includes(owner)) {
+        tokenIndex.set(token, target);
+      }
+    });
+  };
+
+  // Strong identifiers first so name-only values attach to the right company
+  [...claims]
+    .sort((a, b) => Number(SUBJECT_TICKER.test(b.subject)) - Number(SUBJECT_TICKER.test(a.subject)))
+    .forEach(claim => add(parseCompanySubject(claim.subject), claim.subject));
+  nodes
+    .filter(node => node.entType === 'ORGANIZATION')
+    .forEach(node => add(nodeIdentifiers(node), undefined, node));
+
+  const identities = new Map<Component, CompanyIdentity>();
+  components.forEach(component => identities.set(component, toIdentity(component)));
+
+  const findComponent = (ids: CompanyIdentifiers): Component | undefined => {
+    const tokens = identifierTokens(ids);
+    // Match strong identifiers before names
+    for (const prefix of KEY_PRIORITY) {
+      const token = tokens.find(candidate => candidate.startsWith(prefix));
+      const component = token ? tokenIndex.get(token) : undefined;
+      if (component && !conflicts(component, { tokens: new Set(tokens), subjects: [], nodes: [] })) {
+        return component;
+      }
+    }
+    return undefined;
+  };
+
+  const slugIndex = new Map<string, CompanyIdentity>();
+  identities.forEach(identity => {
+    if (identity.slug && !slugIndex.has(identity.slug)) slugIndex.set(identity.slug, identity);
+  });
+
+  const find = (value: string): CompanyIdentity | undefined => {
+    const trimmed = value.trim();
+    const bySlug = slugIndex.get(trimmed.toLowerCase());
+    if (bySlug) return bySlug;
+
+    const component = findComponent(parseCompanySubject(trimmed));
+    if (component) return identities.get(component);
+
+    // A value typed as a ticker may look up a known ticker, but never creates one
+    const byTicker = BARE_TICKER.test(trimmed) ? findComponent({ name: '', ticker: trimmed }) : undefined;
+    if (byTicker) return identities.get(byTicker);
+
+    const bySlugParts = parseSlug(trimmed).map(findComponent).find(Boolean);
+    return bySlugParts ? identities.get(bySlugParts) : undefined;
+  };
+
+  const resolve = (value: string): CompanyIdentity => {
+    const known = find(value);
+    if (known) return known;
+    return toIdentity({ tokens: new Set(identifierTokens(parseCompanySubject(value))), subjects: [value], nodes: [] });
+  };
+
+  const resolveNode = (node: Node): CompanyIdentity | undefined => {
+    const component = components.find(candidate => candidate.nodes.includes(node)) ?? findComponent(nodeIdentifiers(node));
+    return component ? identities.get(component) : undefined;
+  };
+
+  const groupClaims = (groupedClaims: Claim[]): CompanyClaimGroup[] => {
+    const groups = new Map<string, CompanyClaimGroup>();
+    groupedClaims.forEach(claim => {
+      const identity = resolve(claim.subject);
+      const group = groups.get(identity.key);
+      if (group) {
+        group.claims.push(claim);
+      } else {
+        groups.set(identity.key, { identity, claims: [claim] });
+      }
+    });
+    return Array.from(groups.values());
+  };
+
+  return {
+    companies: Array.from(identities.values()),
+    resolve,
+    find,
+    resolveNode,
+    keyOf: (subject: string) => resolve(subject).key,
+    groupClaims,
+  };
+};
+
+/**
+ * Whether a claim subject refers to the given company, without needing a full resolver
+ */
+export const subjectMatchesIdentity = (subject: string, identity: CompanyIdentity): boolean => {
+  if (identity.subjects.includes(subject)) return true;
+  const ids = parseCompanySubject(subject);
+  if (ids.isin && identity.isins.length > 0) return identity.isins.includes(ids.isin);
+  if (ids.ticker && identity.tickers.length > 0) return identity.tickers.includes(ids.ticker);
+  return Boolean(
+    (ids.domain && identity.domains.includes(ids.domain)) ||
+    (ids.name && identity.names.includes(ids.name))
+  );
+};
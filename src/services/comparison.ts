@@ -0,0 +1,162 @@
+import type { ESGCategoryDetails, ESGCategoryKey } from '../types';
+import type { ESGMetrics, ValidationMetrics } from './esgCalculations';
+
+// Side-by-side company comparison helpers
+export const MIN_COMPARE_COMPANIES = 2;
+export const MAX_COMPARE_COMPANIES = 5;
+
+export interface ComparisonCompany {
+  subject: string;
+  esgMetrics: ESGMetrics;
+  validationMetrics: ValidationMetrics;
+  categoryDetails: Record<ESGCategoryKey, ESGCategoryDetails>;
+}
+
+export type ComparisonFormat = 'percent' | 'stars' | 'rating' | 'number' | 'text';
+
+export interface ComparisonRow {
+  id: string;
+  section: string;
+  label: string;
+  format: ComparisonFormat;
+  values: Array<number | string | null>;
+  best: number[];   // column indexes holding the best value
+  worst: number[];  // column indexes holding the worst value
+  differs: boolean; // true when the companies meaningfully disagree on this row
+}
+
+// Minimum spread (in the row's own unit) before a difference is highlighted
+const DIFFERENCE_THRESHOLDS: Record<ComparisonFormat, number> = {
+  percent: 1,
+  stars: 1,
+  rating: 0.1,
+  number: 1,
+  text: 0,
+};
+
+const CATEGORY_LABELS: Record<ESGCategoryKey, string> = {
+  environmental: 'Environmental',
+  social: 'Social',
+  governance: 'Governance',
+};
+
+const buildNumericRow = (
+  id: string,
+  section: string,
+  label: string,
+  format: ComparisonFormat,
+  values: Array<number | null>
+): ComparisonRow => {
+  const present = values
+    .map((value, index) => ({ value, index }))
+    .filter((entry): entry is { value: number; index: number } => entry.value !== null);
+
+  if (present.length < 2) {
+    return { id, section, label, format, values, best: [], worst: [], differs: false };
+  }
+
+  const max = Math.max(...present.map(entry => entry.value));
+  const min = Math.min(...present.map(entry => entry.value));
+  const differs = max - min >= DIFFERENCE_THRESHOLDS[format];
+
+  return {
+    id,
+    section,
+    label,
+    format,
+    values,
+    best: differs ? present.filter(entry => entry.value === max).map(entry => entry.index) : [],
+    worst: differs ? present.filter(entry => entry.value === min).map(entry => entry.index) : [],
+    differs,
+  };
+};
+
+const buildTextRow = (id: string, section: string, label: string, values: string[]): ComparisonRow => ({
+  id,
+  section,
+  label,
+  format: 'text',
+  values,
+  best: [],
+  worst: [],
+  differs: new Set(values).size > 1,
+});
+
+/**
+ * Build the rows of a comparison table: one row per metric, one column per company.
+ */
+export const buildComparisonRows = (companies: ComparisonCompany[]): ComparisonRow[] => {
+  const rows: ComparisonRow[] = [];
+
+  // Overall score
+  rows.push(buildNumericRow('overall', 'Overall', 'Overall ESG Score', 'percent', companies.map(c => c.esgMetrics.overallPercentage)));
+  rows.push(buildTextRow('grade', 'Overall', 'Grade', companies.map(c => c.esgMetrics.overallGrade)));
+  rows.push(buildNumericRow('stars', 'Overall', 'Star Rating', 'stars', companies.map(c => c.esgMetrics.overallStars)));
+  rows.push(buildNumericRow('percentile', 'Overall', 'Industry Percentile', 'number', companies.map(c => c.esgMetrics.industryPercentile)));
+
+  // ESG pillars
+  rows.push(buildNumericRow('pillar-environmental', 'Pillars', 'Environmental', 'percent', companies.map(c => c.esgMetrics.environmentalScore)));
+  rows.push(buildNumericRow('pillar-social', 'Pillars', 'Social', 'percent', companies.map(c => c.esgMetrics.socialScore)));
+  rows.push(buildNumericRow('pillar-governance', 'Pillars', 'Governance', 'percent', companies.map(c => c.esgMetrics.governanceScore)));
+
+  // Category attributes (union of attributes across companies)
+  (Object.keys(CATEGORY_LABELS) as ESGCategoryKey[]).forEach(category => {
+    const attributeNames = new Map<string, string>();
+    companies.forEach(company => {
+      company.categoryDetails[category].attributes.forEach(attr => attributeNames.set(attr.id, attr.name));
+    });
+
+    attributeNames.forEach((name, attributeId) => {
+      rows.push(buildNumericRow(
+        `attribute-${category}-${attributeId}`,
+        `${CATEGORY_LABELS[category]} Attributes`,
+        name,
+        'percent',
+        companies.map(company => {
+          const attr = company.categoryDetails[category].attributes.find(a => a.id === attributeId);
+          return attr ? attr.valuePercentage : null;
+        })
+      ));
+    });
+  });
+
+  // Validator consensus and confidence
+  rows.push(buildNumericRow('consensus', 'Validators', 'Community Agreement', 'percent', companies.map(c => c.validationMetrics.consensusPercentage)));
+  rows.push(buildNumericRow('endorsement', 'Validators', 'Positive Rating Rate', 'percent', companies.map(c => c.validationMetrics.endorsementRate)));
+  rows.push(buildNumericRow('average-rating', 'Validators', 'Average Rating', 'rating', companies.map(c => c.validationMetrics.averageRating)));
+  rows.push(buildNumericRow('validations', 'Validators', 'Total Reviews', 'number', companies.map(c => c.validationMetrics.totalValidations)));
+  rows.push(buildNumericRow('verified', 'Validators', 'Verified Reviewers', 'percent', companies.map(c => c.validationMetrics.verifiedRate)));
+  rows.push(buildNumericRow('confidence', 'Confidence', 'Confidence Level', 'percent', companies.map(c => c.esgMetrics.confidenceLevel * 100)));
+
+  return rows;
+};
+
+// Format a comparison cell for display
+export const formatComparisonValue = (value: number | string | null, format: ComparisonFormat): string => {
+  if (value === null) return '—';
+  if (typeof value === 'string') return value;
+
+  switch (format) {
+    case 'percent':
+      return `${Math.round(value)}%`;
+    case 'stars':
+      return `${value}/5`;
+    case 'rating':
+      return value.toFixed(1);
+    default:
+      return Math.round(value).toString();
+  }
+};
+
+// Read the compared subjects from URL search params (?company=A&company=B)
+export const parseComparisonSubjects = (searchParams: URLSearchParams): string[] => {
+  const subjects = searchParams.getAll('company').map(subject => subject.trim()).filter(Boolean);
+  return Array.from(new Set(subjects)).slice(0, MAX_COMPARE_COMPANIES);
+};
+
+// Build the shareable /compare URL for a set of subjects
+export const buildComparisonPath = (subjects: string[]): string => {
+  const params = new URLSearchParams();
+  subjects.slice(0, MAX_COMPARE_COMPANIES).forEach(subject => params.append('company', subject));
+  return `/compare?${params.toString()}`;
+};
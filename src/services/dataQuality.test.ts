@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { Claim } from '../types';
+import { buildDataQualityReport, checkClaimQuality, findDuplicateClaims } from './dataQuality';
+
+const now = new Date('2024-06-01T00:00:00Z');
+
+const claim = (id: number, changes: Partial<Claim> = {}): Claim => ({
+  id,
+  subject: 'Tesla Motors',
+  claim: 'rated',
+  aspect: 'esg-overall',
+  score: 0.5,
+  stars: 4,
+  confidence: 0.8,
+  sourceURI: 'https://example.com/report',
+  howKnown: 'WEB_DOCUMENT',
+  createdAt: new Date('2024-05-01T00:00:00Z'),
+  lastUpdatedAt: new Date('2024-05-01T00:00:00Z'),
+  ...changes,
+});
+
+const checks = (changes: Partial<Claim>) => checkClaimQuality(claim(1, changes), now).map(issue => issue.check);
+
+describe('checkClaimQuality', () => {
+  it('accepts a consistent, sourced claim', () => {
+    expect(checkClaimQuality(claim(1), now)).toEqual([]);
+  });
+
+  it('flags values out of range', () => {
+    expect(checks({ score: 1.5 })).toContain('score-range');
+    expect(checks({ stars: 4.5 })).toContain('stars-range');
+    expect(checks({ confidence: 1.2 })).toContain('confidence-range');
+  });
+
+  it('flags stars that contradict the score', () => {
+    expect(checks({ score: -0.9, stars: 5 })).toEqual(['stars-score-mismatch']);
+  });
+
+  it('flags each future date once, with unique ids', () => {
+    const future = new Date('2024-07-01T00:00:00Z');
+    const issues = checkClaimQuality(claim(1, { effectiveDate: future, dateObserved: future }), now);
+    expect(issues.map(issue => issue.check)).toEqual(['future-dated', 'future-dated']);
+    expect(new Set(issues.map(issue => issue.id)).size).toBe(2);
+  });
+
+  it('tolerates a day of clock skew', () => {
+    expect(checks({ effectiveDate: new Date('2024-06-01T12:00:00Z') })).toEqual([]);
+  });
+
+  it('only expects a source for second-hand claims', () => {
+    expect(checkClaimQuality(claim(1, { sourceURI: undefined }), now)[0]).toMatchObject({ check: 'missing-source', severity: 'info' });
+    expect(checkClaimQuality(claim(1, { sourceURI: undefined, howKnown: undefined }), now)[0]).toMatchObject({ check: 'missing-source', severity: 'warning' });
+    expect(checks({ sourceURI: undefined, howKnown: 'FIRST_HAND' })).toEqual([]);
+  });
+
+  it('flags validators far from the claim rating', () => {
+    const validator = { name: 'Auditor', role: 'Analyst', organization: 'Audit Co', statement: '', verified: true, createdAt: now };
+    const issues = checkClaimQuality(claim(1, { validators: [{ ...validator, rating: 4 }, { ...validator, rating: 1 }] }), now);
+    expect(issues).toEqual([expect.objectContaining({ check: 'validator-divergence', validatorIndex: 1 })]);
+  });
+});
+
+describe('findDuplicateClaims', () => {
+  it('flags later copies of the same content', () => {
+    const later = claim(2, { createdAt: new Date('2024-05-02T00:00:00Z') });
+    const issues = findDuplicateClaims([later, claim(1), claim(3, { score: 0.1, stars: 3 })]);
+    expect(issues).toEqual([expect.objectContaining({ claimId: 2, message: 'Same content as claim #1' })]);
+  });
+});
+
+describe('buildDataQualityReport', () => {
+  it('counts issues by severity and ignores info for the clean share', () => {
+    const report = buildDataQualityReport([
+      claim(1),
+      claim(2, { score: 2, statement: 'different' }),
+      claim(3, { sourceURI: undefined, statement: 'also different' }),
+    ], now);
+
+    expect(report.counts).toEqual({ error: 1, warning: 0, info: 1 });
+    expect(report.issues[0].severity).toBe('error');
+    expect(report.flaggedClaimIds).toEqual([2]);
+    expect(report.cleanPercentage).toBeCloseTo((2 / 3) * 100);
+  });
+});
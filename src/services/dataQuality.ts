@@ -0,0 +1,197 @@
+import type { Claim } from '../types';
+import { ESGCalculationEngine } from './esgCalculations';
+import { validationUtils } from './utils';
+
+// Data-quality checks that flag suspicious claims and validations
+export type DataQualitySeverity = 'error' | 'warning' | 'info';
+
+export type DataQualityCheck =
+  | 'score-range'
+  | 'stars-range'
+  | 'confidence-range'
+  | 'stars-score-mismatch'
+  | 'duplicate'
+  | 'future-dated'
+  | 'missing-source'
+  | 'validator-divergence';
+
+export interface DataQualityIssue {
+  id: string;
+  check: DataQualityCheck;
+  severity: DataQualitySeverity;
+  claimId: number;
+  subject: string;
+  message: string;
+  validatorIndex?: number;
+}
+
+export interface DataQualityReport {
+  issues: DataQualityIssue[];
+  claimCount: number;
+  flaggedClaimIds: number[];
+  counts: Record<DataQualitySeverity, number>;
+  cleanPercentage: number;     // share of claims without errors or warnings, 0-100
+}
+
+export const DATA_QUALITY_CHECK_LABELS: Record<DataQualityCheck, string> = {
+  'score-range': 'Score out of range',
+  'stars-range': 'Stars out of range',
+  'confidence-range': 'Confidence out of range',
+  'stars-score-mismatch': 'Stars contradict score',
+  'duplicate': 'Duplicate claim',
+  'future-dated': 'Future-dated claim',
+  'missing-source': 'Missing source',
+  'validator-divergence': 'Validator disagrees sharply',
+};
+
+export const DATA_QUALITY_SEVERITY_ORDER: DataQualitySeverity[] = ['error', 'warning', 'info'];
+
+// Star gaps at or above these are flagged
+const STARS_SCORE_TOLERANCE = 2;
+const VALIDATOR_DIVERGENCE_THRESHOLD = 3;
+// Allow for clock skew between the claim source and this browser
+const FUTURE_TOLERANCE_MS = 24 * 60 * 60 * 1000;
+
+// Sources are expected unless the claimant observed it directly
+const SOURCE_OPTIONAL: Array<Claim['howKnown']> = ['FIRST_HAND', 'OPINION'];
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && !Number.isNaN(value);
+
+// Stars the methodology would give a claim's score
+const starsForScore = (score: number): number =>
+  ESGCalculationEngine.ratePercentage(((score + 1) / 2) * 100).stars;
+
+// Claims with the same content are duplicates, whoever recorded them
+const duplicateKey = (claim: Claim): string => claim.digestMultibase || JSON.stringify([
+  claim.subject.trim().toLowerCase(),
+  claim.claim,
+  claim.aspect ?? '',
+  claim.score ?? null,
+  claim.stars ?? null,
+  (claim.statement ?? '').trim().toLowerCase(),
+  claim.effectiveDate ? new Date(claim.effectiveDate).toISOString().slice(0, 10) : '',
+]);
+
+/**
+ * Range, consistency, date, source and validator checks for a single claim
+ */
+export const checkClaimQuality = (claim: Claim, now: Date = new Date()): DataQualityIssue[] => {
+  const issues: DataQualityIssue[] = [];
+  const add = (check: DataQualityCheck, severity: DataQualitySeverity, message: string, validatorIndex?: number) => {
+    issues.push({
+      id: `${check}-${claim.id}${validatorIndex !== undefined ? `-${validatorIndex}` : ''}`,
+      check,
+      severity,
+      claimId: claim.id,
+      subject: claim.subject,
+      message,
+      validatorIndex,
+    });
+  };
+
+  const scoreInRange = isNumber(claim.score) && validationUtils.isValidScore(claim.score);
+  const starsInRange = isNumber(claim.stars) && validationUtils.isValidStars(claim.stars);
+
+  if (isNumber(claim.score) && !scoreInRange) {
+    add('score-range', 'error', `Score ${claim.score} is outside -1 to 1`);
+  }
+  if (isNumber(claim.stars) && !starsInRange) {
+    add('stars-range', 'error', `Stars ${claim.stars} is not a whole number from 0 to 5`);
+  }
+  if (isNumber(claim.confidence) && !validationUtils.isValidConfidence(claim.confidence)) {
+    add('confidence-range', 'error', `Confidence ${claim.confidence} is outside 0 to 1`);
+  }
+
+  if (scoreInRange && starsInRange) {
+    const expected = starsForScore(claim.score!);
+    if (Math.abs(claim.stars! - expected) >= STARS_SCORE_TOLERANCE) {
+      add('stars-score-mismatch', 'warning', `${claim.stars} stars given for a score of ${claim.score} (≈${expected} stars)`);
+    }
+  }
+
+  const latestAllowed = now.getTime() + FUTURE_TOLERANCE_MS;
+  const futureDates = ([
+    ['effective date', claim.effectiveDate],
+    ['observation date', claim.dateObserved],
+    ['creation date', claim.createdAt],
+  ] as const).filter(([, date]) => date && new Date(date).getTime() > latestAllowed);
+  futureDates.forEach(([label, date]) => {
+    add('future-dated', 'warning', `The ${label} ${new Date(date!).toISOString().slice(0, 10)} is in the future`);
+  });
+  // Keep ids unique when several dates are in the future
+  issues.filter(issue => issue.check === 'future-dated').forEach((issue, index) => {
+    if (index > 0) issue.id = `${issue.id}-${index}`;
+  });
+
+  if (!claim.sourceURI?.trim() && !SOURCE_OPTIONAL.includes(claim.howKnown)) {
+    add('missing-source', claim.howKnown ? 'info' : 'warning',
+      claim.howKnown ? 'No source URI recorded' : 'Neither a source URI nor how it is known is recorded');
+  }
+
+  // Compare validator ratings with the claim's own stars (or the stars its score implies)
+  const claimStars = starsInRange ? claim.stars! : scoreInRange ? starsForScore(claim.score!) : null;
+  if (claimStars !== null) {
+    (claim.validators || []).forEach((validator, index) => {
+      if (!isNumber(validator.rating) || validator.rating <= 0) return;
+      if (Math.abs(validator.rating - claimStars) >= VALIDATOR_DIVERGENCE_THRESHOLD) {
+        add('validator-divergence', 'warning',
+          `${validator.name} rated ${validator.rating} stars against the claim's ${claimStars}`, index);
+      }
+    });
+  }
+
+  return issues;
+};
+
+/**
+ * Later copies of claims with the same content; the earliest copy is not flagged
+ */
+export const findDuplicateClaims = (claims: Claim[]): DataQualityIssue[] => {
+  const firstByKey = new Map<string, Claim>();
+  const issues: DataQualityIssue[] = [];
+
+  [...claims]
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() || a.id - b.id)
+    .forEach(claim => {
+      const key = duplicateKey(claim);
+      const original = firstByKey.get(key);
+      if (!original) {
+        firstByKey.set(key, claim);
+        return;
+      }
+      issues.push({
+        id: `duplicate-${claim.id}`,
+        check: 'duplicate',
+        severity: 'warning',
+        claimId: claim.id,
+        subject: claim.subject,
+        message: `Same content as claim #${original.id}`,
+      });
+    });
+
+  return issues;
+};
+
+/**
+ * Run every check over a set of claims
+ */
+export const buildDataQualityReport = (claims: Claim[], now: Date = new Date()): DataQualityReport => {
+  const severityRank = (severity: DataQualitySeverity) => DATA_QUALITY_SEVERITY_ORDER.indexOf(severity);
+  const issues = [
+    ...claims.flatMap(claim => checkClaimQuality(claim, now)),
+    ...findDuplicateClaims(claims),
+  ].sort((a, b) => severityRank(a.severity) - severityRank(b.severity) || a.claimId - b.claimId);
+
+  const counts: Record<DataQualitySeverity, number> = { error: 0, warning: 0, info: 0 };
+  issues.forEach(issue => { counts[issue.severity] += 1; });
+
+  const flagged = new Set(issues.filter(issue => issue.severity !== 'info').map(issue => issue.claimId));
+
+  return {
+    issues,
+    claimCount: claims.length,
+    flaggedClaimIds: Array.from(flagged),
+    counts,
+    cleanPercentage: claims.length > 0 ? ((claims.length - flagged.size) / claims.length) * 100 : 100,
+  };
+};
@@ -0,0 +1,76 @@
+import type { DataSource } from './syncStatus';
+import { createPersistedStore } from './persistedStore';
+
+// Data-source modes: where claims and nodes come from, chosen in the UI or with VITE_DATA_SOURCE_MODE
+export type DataSourceMode = 'live' | 'mock' | 'hybrid';
+
+export interface DataSourceModeOption {
+  id: DataSourceMode;
+  label: string;
+  description: string;
+}
+
+export const DATA_SOURCE_MODES: DataSourceModeOption[] = [
+  {
+    id: 'live',
+    label: 'Live',
+    description: 'LinkedTrust backend only, with the copy saved on this device when offline. Failures are shown as errors.',
+  },
+  {
+    id: 'hybrid',
+    label: 'Hybrid',
+    description: 'LinkedTrust backend, falling back to bundled sample data when it cannot be reached.',
+  },
+  {
+    id: 'mock',
+    label: 'Mock',
+    description: 'Bundled sample data only, for demos and development. Nothing is sent to the backend.',
+  },
+];
+
+export const DATA_SOURCE_LABELS: Record<DataSource, string> = {
+  network: 'Live data',
+  'offline-store': 'Saved offline copy',
+  mock: 'Sample data',
+};
+
+export const DATA_SOURCE_DESCRIPTIONS: Record<DataSource, string> = {
+  network: 'Ratings are calculated from claims published to the LinkedTrust backend.',
+  'offline-store': 'The backend could not be reached, so this is the copy saved on this device and may be out of date.',
+  mock: 'These are bundled sample claims for demos and development, not real ratings.',
+};
+
+const isDataSourceMode = (value: unknown): value is DataSourceMode =>
+  DATA_SOURCE_MODES.some(mode => mode.id === value);
+
+// Deployment default; anything unrecognised means live so demo data is never shown by accident
+export const ENV_DATA_SOURCE_MODE: DataSourceMode = isDataSourceMode(import.meta.env.VITE_DATA_SOURCE_MODE)
+  ? import.meta.env.VITE_DATA_SOURCE_MODE
+  : 'live';
+
+const modeStore = createPersistedStore<DataSourceMode>({
+  key: 'linkedtrust.dataSourceMode',
+  fallback: ENV_DATA_SOURCE_MODE,
+  parse: stored => isDataSourceMode(stored) ? stored : undefined,
+  // Choosing the deployment default clears the override so env changes take effect again
+  serialize: mode => mode === ENV_DATA_SOURCE_MODE ? null : mode,
+});
+
+export const getDataSourceMode = modeStore.get;
+
+export const getDataSourceModeOption = (mode: DataSourceMode = modeStore.get()): DataSourceModeOption =>
+  DATA_SOURCE_MODES.find(option => option.id === mode) ?? DATA_SOURCE_MODES[0];
+
+export const subscribeDataSourceMode = modeStore.subscribe;
+
+export const setDataSourceMode = modeStore.set;
+
+/**
+ * Whether requests should go straight to the bundled sample data
+ */
+export const usesMockData = (mode: DataSourceMode = modeStore.get()): boolean => mode === 'mock';
+
+/**
+ * Whether a failed backend request may be answered with sample data instead
+ */
+export const allowsMockFallback = (mode: DataSourceMode = modeStore.get()): boolean => mode === 'hybrid';
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { ESGCalculationEngine, type ESGMetrics } from './esgCalculations';
+import { METHODOLOGY_PROFILES } from './methodology';
+
+const metrics = (scores: Pick<ESGMetrics, 'environmentalScore' | 'socialScore' | 'governanceScore'>): ESGMetrics => ({
+  ...ESGCalculationEngine.calculateESGMetrics([]),
+  ...scores,
+});
+
+describe('ESGCalculationEngine.ratePercentage', () => {
+  it('maps percentages to star bands and grades', () => {
+    expect(ESGCalculationEngine.ratePercentage(95)).toEqual({ stars: 5, grade: 'A+' });
+    expect(ESGCalculationEngine.ratePercentage(75)).toEqual({ stars: 4, grade: 'A' });
+    expect(ESGCalculationEngine.ratePercentage(60)).toEqual({ stars: 3, grade: 'B' });
+    expect(ESGCalculationEngine.ratePercentage(40)).toEqual({ stars: 2, grade: 'C' });
+    expect(ESGCalculationEngine.ratePercentage(0)).toEqual({ stars: 1, grade: 'D' });
+  });
+
+  it('puts fractional percentages in the band below the next threshold', () => {
+    expect(ESGCalculationEngine.ratePercentage(89.5).stars).toBe(4);
+  });
+
+  it('uses the methodology star bands', () => {
+    expect(ESGCalculationEngine.ratePercentage(90, METHODOLOGY_PROFILES['governance-first']).stars).toBe(4);
+  });
+});
+
+describe('ESGCalculationEngine.applyPillarShifts', () => {
+  const base = metrics({ environmentalScore: 60, socialScore: 50, governanceScore: 40 });
+
+  it('shifts pillars on the claim scale and re-derives the overall rating', () => {
+    const shifted = ESGCalculationEngine.applyPillarShifts(base, { environmental: 0.5 });
+
+    expect(shifted.environmentalScore).toBe(85);
+    expect(shifted.socialScore).toBe(50);
+    expect(shifted.overallPercentage).toBeCloseTo(85 * 0.4 + 50 * 0.3 + 40 * 0.3);
+    expect(shifted.overallScore).toBeCloseTo(shifted.overallPercentage / 50 - 1);
+    expect(shifted).toMatchObject({ overallStars: 3, overallGrade: 'B' });
+  });
+
+  it('keeps pillars between 0 and 100', () => {
+    const shifted = ESGCalculationEngine.applyPillarShifts(base, { environmental: 1, governance: -1 });
+    expect(shifted.environmentalScore).toBe(100);
+    expect(shifted.governanceScore).toBe(0);
+  });
+
+  it('weights pillars by the methodology', () => {
+    const shifted = ESGCalculationEngine.applyPillarShifts(base, {}, METHODOLOGY_PROFILES['climate-heavy']);
+    expect(shifted.overallPercentage).toBeCloseTo(60 * 0.6 + 50 * 0.2 + 40 * 0.2);
+  });
+});
@@ -1,4 +1,5 @@
 import type { Claim, ESGCategoryDetails, ESGAttributeDetail, ESGCategoryKey, ESGDataStream } from '../types';
+import { DEFAULT_METHODOLOGY_PROFILE, getMethodologyProfile, type MethodologyProfile } from './methodology';
 
 // ESG calculation service for frontend processing of API data
 export interface ESGMetrics {
@@ -18,6 +19,8 @@ export interface ESGMetrics {
   endorsementRate: number;
   consensusPercentage: number;
   lastUpdated: Date;
+  methodologyId: string;
+  methodologyVersion: string;
 }
 
 export interface ValidationMetrics {
@@ -49,28 +52,47 @@ export interface ValidationEntry {
   yearsExperience?: number;
 }
 
-// ESG aspect mapping for categorizing claims
-export const ESG_ASPECT_MAPPING = {
-  environmental: ['environmental', 'climate', 'sustainability', 'carbon', 'energy', 'renewable', 'emissions', 'green'],
-  social: ['social', 'labor', 'community', 'diversity', 'human rights', 'employee', 'workplace', 'safety'],
-  governance: ['governance', 'leadership', 'transparency', 'ethics', 'compliance', 'board', 'audit', 'risk']
-};
+export interface ESGTimelinePoint {
+  date: Date;
+  claimIds: number[];          // claims that took effect on this date
+  claimCount: number;          // claims considered as of this date
+  overallPercentage: number;
+  overallStars: number;
+  overallGrade: string;
+  environmentalScore: number;
+  socialScore: number;
+  governanceScore: number;
+  confidenceLevel: number;
+}
 
-// Weights for ESG calculation (as per prompt requirements)
-export const ESG_WEIGHTS = {
-  environmental: 0.4,
-  social: 0.3,
-  governance: 0.3
-};
+export interface ClaimContribution {
+  claim: Claim;
+  confidenceWeight: number;    // claim confidence (0-1)
+  recencyWeight: number;       // exponential decay by claim age (0-1)
+  weight: number;              // confidence × recency
+  pillars: ESGCategoryKey[];   // pillars the claim is scored in
+  fallback: boolean;           // scored in a pillar only because that pillar has no claims of its own
+  pillarShares: Partial<Record<ESGCategoryKey, number>>; // share of each pillar's total weight (0-1)
+  contribution: number;        // percentage points added to the overall percentage
+}
+
+export interface ScoreExplanation {
+  contributions: ClaimContribution[];
+  unscored: Claim[];           // claims without a score or confidence, ignored by the calculation
+  baseline: number;            // percentage points from pillars with no claims at all (scored as neutral)
+  overallPercentage: number;
+  overallStars: number;
+  overallGrade: string;
+}
+
+// ESG aspect mapping for categorizing claims (default methodology)
+export const ESG_ASPECT_MAPPING = DEFAULT_METHODOLOGY_PROFILE.aspectMapping;
+
+// Weights for ESG calculation (default methodology)
+export const ESG_WEIGHTS = DEFAULT_METHODOLOGY_PROFILE.weights;
 
-// Star rating conversion thresholds (as per prompt requirements)
-export const STAR_RATING_THRESHOLDS = [
-  { min: 90, max: 100, stars: 5 },
-  { min: 75, max: 89, stars: 4 },
-  { min: 60, max: 74, stars: 3 },
-  { min: 40, max: 59, stars: 2 },
-  { min: 0, max: 39, stars: 1 }
-];
+// Star rating conversion thresholds (default methodology)
+export const STAR_RATING_THRESHOLDS = DEFAULT_METHODOLOGY_PROFILE.starThresholds;
 
 // Grade mapping from star ratings
 export const GRADE_MAPPING = {
@@ -86,9 +108,9 @@ export class ESGCalculationEngine {
   /**
    * Calculate comprehensive ESG metrics from claims data
    */
-  static calculateESGMetrics(claims: Claim[]): ESGMetrics {
+  static calculateESGMetrics(claims: Claim[], profile: MethodologyProfile = DEFAULT_METHODOLOGY_PROFILE): ESGMetrics {
     if (!claims || claims.length === 0) {
-      return this.getDefaultMetrics();
+      return this.getDefaultMetrics(profile);
     }
 
     const validClaims = claims.filter(claim => 
@@ -99,32 +121,32 @@ export class ESGCalculationEngine {
     );
 
     if (validClaims.length === 0) {
-      return this.getDefaultMetrics();
+      return this.getDefaultMetrics(profile);
     }
 
     // Calculate pillar scores
-    const environmentalScore = this.calculatePillarScore(validClaims, 'environmental');
-    const socialScore = this.calculatePillarScore(validClaims, 'social');
-    const governanceScore = this.calculatePillarScore(validClaims, 'governance');
+    const environmentalScore = this.calculatePillarScore(validClaims, 'environmental', profile);
+    const socialScore = this.calculatePillarScore(validClaims, 'social', profile);
+    const governanceScore = this.calculatePillarScore(validClaims, 'governance', profile);
 
     // Calculate overall weighted score
     const overallScore = (
-      environmentalScore * ESG_WEIGHTS.environmental +
-      socialScore * ESG_WEIGHTS.social +
-      governanceScore * ESG_WEIGHTS.governance
+      environmentalScore * profile.weights.environmental +
+      socialScore * profile.weights.social +
+      governanceScore * profile.weights.governance
     );
 
     // Convert to percentage (0-100 scale)
     const overallPercentage = this.normalizeScoreToPercentage(overallScore);
     
     // Convert to stars
-    const overallStars = this.convertPercentageToStars(overallPercentage);
+    const overallStars = this.convertPercentageToStars(overallPercentage, profile);
     
     // Get grade
     const overallGrade = GRADE_MAPPING[overallStars as keyof typeof GRADE_MAPPING] || 'F';
 
     // Calculate confidence level (weighted average)
-    const confidenceLevel = this.calculateWeightedConfidence(validClaims);
+    const confidenceLevel = this.calculateWeightedConfidence(validClaims, profile);
 
     // Calculate industry percentile (comparative analysis)
     const industryPercentile = this.calculateIndustryPercentile(overallScore, claims);
@@ -143,17 +165,19 @@ export class ESGCalculationEngine {
       confidenceLevel,
       industryPercentile,
       ...validationMetrics,
-      lastUpdated: new Date()
+      lastUpdated: new Date(),
+      methodologyId: profile.id,
+      methodologyVersion: profile.version
     };
 
     // Validate the calculated metrics
-    if (!this.validateMetrics(metrics)) {
+    if (!this.validateMetrics(metrics, profile)) {
       console.warn('Calculated metrics failed validation, but returning anyway for debugging');
     }
 
     // Log calculation breakdown for debugging (only in browser environment)
     if (typeof window !== 'undefined') {
-      const breakdown = this.getCalculationBreakdown(claims);
+      const breakdown = this.getCalculationBreakdown(claims, profile);
       console.log('ESG Calculation Breakdown:', breakdown);
     }
 
@@ -163,9 +187,9 @@ export class ESGCalculationEngine {
   /**
    * Calculate score for a specific ESG pillar
    */
-  private static calculatePillarScore(claims: Claim[], pillar: keyof typeof ESG_ASPECT_MAPPING): number {
+  private static calculatePillarScore(claims: Claim[], pillar: ESGCategoryKey, profile: MethodologyProfile, asOf: Date = new Date()): number {
     const pillarClaims = claims.filter(claim => 
-      this.isClaimInPillar(claim, pillar)
+      this.isClaimInPillar(claim, pillar, profile)
     );
 
     if (pillarClaims.length === 0) {
@@ -179,20 +203,20 @@ export class ESGCalculationEngine {
         return 0;
       }
       
-      return this.calculateWeightedScore(overallClaims);
+      return this.calculateWeightedScore(overallClaims, profile, asOf);
     }
 
-    return this.calculateWeightedScore(pillarClaims);
+    return this.calculateWeightedScore(pillarClaims, profile, asOf);
   }
 
   /**
    * Check if a claim belongs to a specific ESG pillar
    */
-  private static isClaimInPillar(claim: Claim, pillar: keyof typeof ESG_ASPECT_MAPPING): boolean {
+  private static isClaimInPillar(claim: Claim, pillar: ESGCategoryKey, profile: MethodologyProfile): boolean {
     if (!claim.aspect) return false;
     
     const aspectLower = claim.aspect.toLowerCase();
-    const keywords = ESG_ASPECT_MAPPING[pillar];
+    const keywords = profile.aspectMapping[pillar];
     
     return keywords.some(keyword => aspectLower.includes(keyword));
   }
@@ -200,7 +224,7 @@ export class ESGCalculationEngine {
   /**
    * Calculate weighted score considering confidence and recency
    */
-  private static calculateWeightedScore(claims: Claim[]): number {
+  private static calculateWeightedScore(claims: Claim[], profile: MethodologyProfile, asOf: Date): number {
     if (claims.length === 0) return 0;
 
     let totalWeightedScore = 0;
@@ -209,7 +233,7 @@ export class ESGCalculationEngine {
     claims.forEach(claim => {
       const score = claim.score || 0;
       const confidence = claim.confidence || 0.5;
-      const recencyWeight = this.calculateRecencyWeight(claim.createdAt);
+      const recencyWeight = this.calculateRecencyWeight(claim.createdAt, profile.recencyDecayDays, asOf);
       
       const weight = confidence * recencyWeight;
       totalWeightedScore += score * weight;
@@ -222,19 +246,19 @@ export class ESGCalculationEngine {
   /**
    * Calculate recency weight (more recent claims have higher weight)
    */
-  private static calculateRecencyWeight(createdAt: Date): number {
-    const now = new Date();
+  private static calculateRecencyWeight(createdAt: Date, decayDays: number, asOf: Date = new Date()): number {
     const claimDate = new Date(createdAt);
-    const daysDiff = (now.getTime() - claimDate.getTime()) / (1000 * 60 * 60 * 24);
+    // Claims recorded after the reference date count as brand new rather than gaining extra weight
+    const daysDiff = Math.max(0, (asOf.getTime() - claimDate.getTime()) / (1000 * 60 * 60 * 24));
     
-    // Exponential decay: weight decreases by 50% every 180 days
-    return Math.exp(-daysDiff / 180);
+    // Exponential decay over the methodology's decay period (180 days by default)
+    return Math.exp(-daysDiff / decayDays);
   }
 
   /**
    * Calculate weighted confidence level
    */
-  private static calculateWeightedConfidence(claims: Claim[]): number {
+  private static calculateWeightedConfidence(claims: Claim[], profile: MethodologyProfile, asOf: Date = new Date()): number {
     if (claims.length === 0) return 0;
 
     let totalWeightedConfidence = 0;
@@ -242,7 +266,7 @@ export class ESGCalculationEngine {
 
     claims.forEach(claim => {
       const confidence = claim.confidence || 0.5;
-      const recencyWeight = this.calculateRecencyWeight(claim.createdAt);
+      const recencyWeight = this.calculateRecencyWeight(claim.createdAt, profile.recencyDecayDays, asOf);
       
       totalWeightedConfidence += confidence * recencyWeight;
       totalWeight += recencyWeight;
@@ -260,17 +284,207 @@ export class ESGCalculationEngine {
   }
 
   /**
-   * Convert percentage to star rating
+   * Convert percentage to star rating; bands are checked from the highest min down,
+   * so fractional percentages such as 89.5 fall into the band below the next threshold
    */
-  private static convertPercentageToStars(percentage: number): number {
-    for (const threshold of STAR_RATING_THRESHOLDS) {
-      if (percentage >= threshold.min && percentage <= threshold.max) {
+  private static convertPercentageToStars(percentage: number, profile: MethodologyProfile): number {
+    const bands = [...profile.starThresholds].sort((a, b) => b.min - a.min);
+    for (const threshold of bands) {
+      if (percentage >= threshold.min) {
         return threshold.stars;
       }
     }
     return 1; // Default to 1 star
   }
 
+  /**
+   * Stars and grade for an overall percentage, e.g. an aggregate across companies
+   */
+  static ratePercentage(percentage: number, profile: MethodologyProfile = DEFAULT_METHODOLOGY_PROFILE): { stars: number; grade: string } {
+    const stars = this.convertPercentageToStars(percentage, profile);
+    return { stars, grade: GRADE_MAPPING[stars as keyof typeof GRADE_MAPPING] || 'F' };
+  }
+
+  /**
+   * Per-claim weights and contributions to the overall percentage.
+   * Contributions plus the baseline add up to the overall percentage.
+   */
+  static explainScore(claims: Claim[], profile: MethodologyProfile = DEFAULT_METHODOLOGY_PROFILE, asOf: Date = new Date()): ScoreExplanation {
+    const isValid = (claim: Claim) =>
+      claim.score !== undefined &&
+      claim.score !== null &&
+      claim.confidence !== undefined &&
+      claim.confidence > 0;
+    const validClaims = claims.filter(isValid);
+    const pillars: ESGCategoryKey[] = ['environmental', 'social', 'governance'];
+
+    const contributions = new Map<number, ClaimContribution>(validClaims.map(claim => {
+      const confidenceWeight = claim.confidence || 0.5;
+      const recencyWeight = this.calculateRecencyWeight(claim.createdAt, profile.recencyDecayDays, asOf);
+      return [claim.id, {
+        claim,
+        confidenceWeight,
+        recencyWeight,
+        weight: confidenceWeight * recencyWeight,
+        pillars: [],
+        fallback: false,
+        pillarShares: {},
+        contribution: 0,
+      }];
+    }));
+
+    // Mirror calculatePillarScore: pillar claims, else overall ESG claims, else a neutral score
+    let baseline = 0;
+    pillars.forEach(pillar => {
+      const pillarClaims = validClaims.filter(claim => this.isClaimInPillar(claim, pillar, profile));
+      const fallback = pillarClaims.length === 0;
+      const scoredClaims = fallback
+        ? validClaims.filter(claim =>
+            claim.aspect?.toLowerCase().includes('esg') ||
+            claim.aspect?.toLowerCase().includes('overall')
+          )
+        : pillarClaims;
+
+      const totalWeight = scoredClaims.reduce((sum, claim) => sum + contributions.get(claim.id)!.weight, 0);
+      if (totalWeight <= 0) {
+        baseline += profile.weights[pillar] * this.normalizeScoreToPercentage(0);
+        return;
+      }
+
+      scoredClaims.forEach(claim => {
+        const entry = contributions.get(claim.id)!;
+        const share = entry.weight / totalWeight;
+        entry.pillars.push(pillar);
+        entry.fallback = entry.fallback || fallback;
+        entry.pillarShares[pillar] = share;
+        entry.contribution += profile.weights[pillar] * share * (((claim.score || 0) + 1) / 2) * 100;
+      });
+    });
+
+    const overallPercentage = Math.max(0, Math.min(100,
+      baseline + Array.from(contributions.values()).reduce((sum, entry) => sum + entry.contribution, 0)
+    ));
+    const { stars, grade } = this.ratePercentage(overallPercentage, profile);
+
+    return {
+      contributions: Array.from(contributions.values()),
+      unscored: claims.filter(claim => !isValid(claim)),
+      baseline,
+      overallPercentage,
+      overallStars: stars,
+      overallGrade: grade,
+    };
+  }
+
+  /**
+   * Shift pillar scores (on the -1 to 1 claim scale) and re-derive the overall score, stars and grade
+   */
+  static applyPillarShifts(
+    metrics: ESGMetrics,
+    shifts: Partial<Record<ESGCategoryKey, number>>,
+    profile: MethodologyProfile = DEFAULT_METHODOLOGY_PROFILE
+  ): ESGMetrics {
+    const shift = (percentage: number, pillar: ESGCategoryKey) =>
+      Math.max(0, Math.min(100, percentage + (shifts[pillar] || 0) * 50));
+
+    const environmentalScore = shift(metrics.environmentalScore, 'environmental');
+    const socialScore = shift(metrics.socialScore, 'social');
+    const governanceScore = shift(metrics.governanceScore, 'governance');
+
+    const overallPercentage = (
+      environmentalScore * profile.weights.environmental +
+      socialScore * profile.weights.social +
+      governanceScore * profile.weights.governance
+    );
+    const { stars, grade } = this.ratePercentage(overallPercentage, profile);
+
+    return {
+      ...metrics,
+      overallScore: overallPercentage / 50 - 1,
+      overallPercentage,
+      overallStars: stars,
+      overallGrade: grade,
+      environmentalScore,
+      socialScore,
+      governanceScore,
+    };
+  }
+
+  /**
+   * Date a claim takes effect on the timeline (effective, then observed, then created)
+   */
+  static getClaimTimelineDate(claim: Claim): Date {
+    return new Date(claim.effectiveDate || claim.dateObserved || claim.createdAt);
+  }
+
+  /**
+   * Recompute overall and per-pillar scores as of each claim date
+   */
+  static calculateScoreTimeline(claims: Claim[], profile: MethodologyProfile = DEFAULT_METHODOLOGY_PROFILE): ESGTimelinePoint[] {
+    const validClaims = claims.filter(claim => 
+      claim.score !== undefined && 
+      claim.score !== null &&
+      claim.confidence !== undefined &&
+      claim.confidence > 0
+    );
+
+    // Group claims by the day they took effect
+    const claimsByDay = new Map<number, Claim[]>();
+    validClaims.forEach(claim => {
+      const date = this.getClaimTimelineDate(claim);
+      if (isNaN(date.getTime())) return;
+      const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+      claimsByDay.set(day, [...(claimsByDay.get(day) || []), claim]);
+    });
+
+    const days = Array.from(claimsByDay.keys()).sort((a, b) => a - b);
+
+    return days.map(day => {
+      // End of day, so every claim effective that day is included
+      const asOf = new Date(day + 24 * 60 * 60 * 1000 - 1);
+      const known = validClaims.filter(claim => this.getClaimTimelineDate(claim).getTime() <= asOf.getTime());
+
+      const environmentalScore = this.calculatePillarScore(known, 'environmental', profile, asOf);
+      const socialScore = this.calculatePillarScore(known, 'social', profile, asOf);
+      const governanceScore = this.calculatePillarScore(known, 'governance', profile, asOf);
+
+      const overallScore = (
+        environmentalScore * profile.weights.environmental +
+        socialScore * profile.weights.social +
+        governanceScore * profile.weights.governance
+      );
+      const overallPercentage = this.normalizeScoreToPercentage(overallScore);
+      const overallStars = this.convertPercentageToStars(overallPercentage, profile);
+
+      return {
+        date: new Date(day),
+        claimIds: (claimsByDay.get(day) || []).map(claim => claim.id),
+        claimCount: known.length,
+        overallPercentage,
+        overallStars,
+        overallGrade: GRADE_MAPPING[overallStars as keyof typeof GRADE_MAPPING] || 'F',
+        environmentalScore: this.normalizeScoreToPercentage(environmentalScore),
+        socialScore: this.normalizeScoreToPercentage(socialScore),
+        governanceScore: this.normalizeScoreToPercentage(governanceScore),
+        confidenceLevel: this.calculateWeightedConfidence(known, profile, asOf),
+      };
+    });
+  }
+
+  /**
+   * Summarise the direction of a score timeline (change in overall percentage points)
+   */
+  static getTimelineTrend(timeline: ESGTimelinePoint[]): { direction: 'improving' | 'declining' | 'stable'; change: number } {
+    if (timeline.length < 2) {
+      return { direction: 'stable', change: 0 };
+    }
+
+    const change = timeline[timeline.length - 1].overallPercentage - timeline[0].overallPercentage;
+    if (change >= 1) return { direction: 'improving', change };
+    if (change <= -1) return { direction: 'declining', change };
+    return { direction: 'stable', change };
+  }
+
   /**
    * Calculate industry percentile ranking
    */
@@ -374,7 +588,7 @@ export class ESGCalculationEngine {
             rating: validator.rating,
             statement: validator.statement,
             verified: validator.verified,
-            timestamp: claim.createdAt,
+            timestamp: validator.createdAt || claim.createdAt,
             linkedinUrl: (validator as any).linkedinUrl,
             twitterUrl: (validator as any).twitterUrl,
             websiteUrl: (validator as any).websiteUrl || (validator as any).githubUrl,
@@ -419,7 +633,7 @@ export class ESGCalculationEngine {
   /**
    * Get detailed pillar information for transparency
    */
-  static getPillarDetails(claims: Claim[]) {
+  static getPillarDetails(claims: Claim[], profile: MethodologyProfile = DEFAULT_METHODOLOGY_PROFILE) {
     const validClaims = claims.filter(claim => 
       claim.score !== undefined && 
       claim.score !== null &&
@@ -429,22 +643,22 @@ export class ESGCalculationEngine {
 
     const pillarDetails = {
       environmental: {
-        claims: validClaims.filter(claim => this.isClaimInPillar(claim, 'environmental')),
+        claims: validClaims.filter(claim => this.isClaimInPillar(claim, 'environmental', profile)),
         averageScore: 0,
         claimCount: 0,
-        keywords: ESG_ASPECT_MAPPING.environmental
+        keywords: profile.aspectMapping.environmental
       },
       social: {
-        claims: validClaims.filter(claim => this.isClaimInPillar(claim, 'social')),
+        claims: validClaims.filter(claim => this.isClaimInPillar(claim, 'social', profile)),
         averageScore: 0,
         claimCount: 0,
-        keywords: ESG_ASPECT_MAPPING.social
+        keywords: profile.aspectMapping.social
       },
       governance: {
-        claims: validClaims.filter(claim => this.isClaimInPillar(claim, 'governance')),
+        claims: validClaims.filter(claim => this.isClaimInPillar(claim, 'governance', profile)),
         averageScore: 0,
         claimCount: 0,
-        keywords: ESG_ASPECT_MAPPING.governance
+        keywords: profile.aspectMapping.governance
       }
     };
 
@@ -466,7 +680,10 @@ export class ESGCalculationEngine {
   /**
    * Derive detailed ESG attributes per category for UI third layer
    */
-  static getCategoryAttributeDetails(claims: Claim[]): Record<ESGCategoryKey, ESGCategoryDetails> {
+  static getCategoryAttributeDetails(
+    claims: Claim[],
+    profile: MethodologyProfile = DEFAULT_METHODOLOGY_PROFILE
+  ): Record<ESGCategoryKey, ESGCategoryDetails> {
     const validClaims = claims.filter(claim => 
       claim.score !== undefined && 
       claim.score !== null &&
@@ -532,7 +749,7 @@ export class ESGCalculationEngine {
           description: spec.desc,
           weightPercentage: Math.round((matched.length / Math.max(working.length,1)) * 100),
           valuePercentage: Math.round(avg),
-          contributionExplanation: `Derived from ${matched.length} data stream(s) mapped to ${spec.name}. Higher confidence and recency increase influence.`,
+          contributionExplanation: `Derived from ${matched.length} data stream(s) mapped to ${spec.name} under the ${profile.name} v${profile.version} methodology. Higher confidence and recency increase influence.`,
           dataStreams: matched.flatMap(buildStreamsFromClaim).slice(0, 10),
         };
       });
@@ -552,16 +769,16 @@ export class ESGCalculationEngine {
     };
 
     return {
-      environmental: buildCategory('environmental', ESG_ASPECT_MAPPING.environmental),
-      social: buildCategory('social', ESG_ASPECT_MAPPING.social),
-      governance: buildCategory('governance', ESG_ASPECT_MAPPING.governance),
+      environmental: buildCategory('environmental', profile.aspectMapping.environmental),
+      social: buildCategory('social', profile.aspectMapping.social),
+      governance: buildCategory('governance', profile.aspectMapping.governance),
     };
   }
 
   /**
    * Get default metrics when no data is available
    */
-  private static getDefaultMetrics(): ESGMetrics {
+  private static getDefaultMetrics(profile: MethodologyProfile): ESGMetrics {
     return {
       overallScore: 0,
       overallPercentage: 0,
@@ -578,14 +795,16 @@ export class ESGCalculationEngine {
       averageRating: 0,
       endorsementRate: 0,
       consensusPercentage: 0,
-      lastUpdated: new Date()
+      lastUpdated: new Date(),
+      methodologyId: profile.id,
+      methodologyVersion: profile.version
     };
   }
 
   /**
    * Validate calculation results with comprehensive checks
    */
-  static validateMetrics(metrics: ESGMetrics): boolean {
+  static validateMetrics(metrics: ESGMetrics, profile: MethodologyProfile = getMethodologyProfile(metrics.methodologyId)): boolean {
     const validationErrors: string[] = [];
     
     // Basic range checks
@@ -654,9 +873,9 @@ export class ESGCalculationEngine {
     
     // Overall score consistency check (weighted average of pillars)
     const calculatedOverall = (
-      metrics.environmentalScore * ESG_WEIGHTS.environmental +
-      metrics.socialScore * ESG_WEIGHTS.social +
-      metrics.governanceScore * ESG_WEIGHTS.governance
+      metrics.environmentalScore * profile.weights.environmental +
+      metrics.socialScore * profile.weights.social +
+      metrics.governanceScore * profile.weights.governance
     );
     
     const overallDiff = Math.abs(metrics.overallPercentage - calculatedOverall);
@@ -676,7 +895,13 @@ export class ESGCalculationEngine {
   /**
    * Get detailed calculation breakdown for transparency
    */
-  static getCalculationBreakdown(claims: Claim[]): {
+  static getCalculationBreakdown(claims: Claim[], profile: MethodologyProfile = DEFAULT_METHODOLOGY_PROFILE): {
+    methodology: {
+      id: string;
+      name: string;
+      version: string;
+      weights: Record<ESGCategoryKey, number>;
+    };
     pillarBreakdown: {
       environmental: { claims: number; averageScore: number; weightedContribution: number };
       social: { claims: number; averageScore: number; weightedContribution: number };
@@ -703,13 +928,13 @@ export class ESGCalculationEngine {
     );
 
     // Pillar breakdown
-    const environmentalClaims = validClaims.filter(claim => this.isClaimInPillar(claim, 'environmental'));
-    const socialClaims = validClaims.filter(claim => this.isClaimInPillar(claim, 'social'));
-    const governanceClaims = validClaims.filter(claim => this.isClaimInPillar(claim, 'governance'));
+    const environmentalClaims = validClaims.filter(claim => this.isClaimInPillar(claim, 'environmental', profile));
+    const socialClaims = validClaims.filter(claim => this.isClaimInPillar(claim, 'social', profile));
+    const governanceClaims = validClaims.filter(claim => this.isClaimInPillar(claim, 'governance', profile));
     
-    const environmentalScore = this.calculatePillarScore(validClaims, 'environmental');
-    const socialScore = this.calculatePillarScore(validClaims, 'social');
-    const governanceScore = this.calculatePillarScore(validClaims, 'governance');
+    const environmentalScore = this.calculatePillarScore(validClaims, 'environmental', profile);
+    const socialScore = this.calculatePillarScore(validClaims, 'social', profile);
+    const governanceScore = this.calculatePillarScore(validClaims, 'governance', profile);
     
     const environmentalPercentage = this.normalizeScoreToPercentage(environmentalScore);
     const socialPercentage = this.normalizeScoreToPercentage(socialScore);
@@ -719,17 +944,17 @@ export class ESGCalculationEngine {
       environmental: {
         claims: environmentalClaims.length,
         averageScore: environmentalPercentage,
-        weightedContribution: environmentalPercentage * ESG_WEIGHTS.environmental
+        weightedContribution: environmentalPercentage * profile.weights.environmental
       },
       social: {
         claims: socialClaims.length,
         averageScore: socialPercentage,
-        weightedContribution: socialPercentage * ESG_WEIGHTS.social
+        weightedContribution: socialPercentage * profile.weights.social
       },
       governance: {
         claims: governanceClaims.length,
         averageScore: governancePercentage,
-        weightedContribution: governancePercentage * ESG_WEIGHTS.governance
+        weightedContribution: governancePercentage * profile.weights.governance
       }
     };
 
@@ -766,7 +991,7 @@ export class ESGCalculationEngine {
                       pillarBreakdown.governance.weightedContribution;
     
     const finalPercentage = weightedSum;
-    const starRating = this.convertPercentageToStars(finalPercentage);
+    const starRating = this.convertPercentageToStars(finalPercentage, profile);
     const grade = GRADE_MAPPING[starRating as keyof typeof GRADE_MAPPING] || 'F';
     
     const overallCalculation = {
@@ -777,6 +1002,12 @@ export class ESGCalculationEngine {
     };
 
     return {
+      methodology: {
+        id: profile.id,
+        name: profile.name,
+        version: profile.version,
+        weights: profile.weights
+      },
       pillarBreakdown,
       validationBreakdown,
       overallCalculation
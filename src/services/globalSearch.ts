@@ -0,0 +1,150 @@
+import type { Claim, Node } from '../types';
+import { transformUtils } from './utils';
+import { buildCompanyPath, createCompanyResolver, type CompanyResolver } from './companyResolver';
+
+// Grouping and highlighting for the header's global search
+export type SearchResultGroup = 'companies' | 'claims' | 'validators';
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  id: string;
+  group: SearchResultGroup;
+  title: HighlightSegment[];
+  subtitle?: string;
+  snippet?: HighlightSegment[];
+  path: string;
+}
+
+export const SEARCH_GROUP_LABELS: Record<SearchResultGroup, string> = {
+  companies: 'Companies',
+  claims: 'Claims',
+  validators: 'Validators',
+};
+
+export const SEARCH_GROUP_ORDER: SearchResultGroup[] = ['companies', 'claims', 'validators'];
+
+export const MIN_SEARCH_LENGTH = 2;
+const MAX_RESULTS_PER_GROUP = 5;
+const SNIPPET_RADIUS = 60;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const includesTerm = (value: string | undefined, term: string): boolean =>
+  Boolean(value && value.toLowerCase().includes(term.toLowerCase()));
+
+/**
+ * Split text into segments, flagging every case-insensitive occurrence of the term
+ */
+export const highlightMatches = (text: string, term: string): HighlightSegment[] => {
+  const trimmed = term.trim();
+  if (!trimmed) return [{ text, match: false }];
+
+  const matcher = new RegExp(`(${escapeRegExp(trimmed)})`, 'gi');
+  return text
+    .split(matcher)
+    .filter(part => part.length > 0)
+    .map(part => ({ text: part, match: part.toLowerCase() === trimmed.toLowerCase() }));
+};
+
+/**
+ * Excerpt of a long text centred on the first match, with the matches highlighted
+ */
+export const buildSnippet = (text: string, term: string, radius: number = SNIPPET_RADIUS): HighlightSegment[] => {
+  const index = text.toLowerCase().indexOf(term.trim().toLowerCase());
+  if (index < 0 || text.length <= radius * 2) {
+    return highlightMatches(text.length > radius * 2 ? `${text.slice(0, radius * 2)}…` : text, term);
+  }
+
+  const start = Math.max(0, index - radius);
+  const end = Math.min(text.length, index + term.trim().length + radius);
+  const excerpt = `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+  return highlightMatches(excerpt, term);
+};
+
+const buildCompanyResults = (term: string, claims: Claim[], nodes: Node[], resolver: CompanyResolver): SearchResult[] => {
+  const results = new Map<string, SearchResult>();
+
+  claims
+    .filter(claim => includesTerm(claim.subject, term))
+    .forEach(claim => {
+      const identity = resolver.resolve(claim.subject);
+      if (results.has(identity.key)) return;
+      results.set(identity.key, {
+        id: `company-${identity.key}`,
+        group: 'companies',
+        title: highlightMatches(identity.subject, term),
+        subtitle: 'Rated company',
+        path: buildCompanyPath(identity.slug),
+      });
+    });
+
+  nodes
+    .filter(node => node.entType === 'ORGANIZATION' && (includesTerm(node.name, term) || includesTerm(node.descrip, term)))
+    .forEach(node => {
+      const identity = resolver.resolveNode(node);
+      if (!identity || results.has(identity.key)) return;
+      results.set(identity.key, {
+        id: `company-${identity.key}`,
+        group: 'companies',
+        title: highlightMatches(node.name, term),
+        subtitle: node.nodeUri,
+        snippet: node.descrip && includesTerm(node.descrip, term) ? buildSnippet(node.descrip, term) : undefined,
+        path: buildCompanyPath(identity.slug),
+      });
+    });
+
+  return Array.from(results.values());
+};
+
+const buildClaimResults = (term: string, claims: Claim[], resolver: CompanyResolver): SearchResult[] =>
+  claims
+    .filter(claim => includesTerm(claim.statement, term) || includesTerm(claim.subject, term) || includesTerm(claim.author, term))
+    .map(claim => ({
+      id: `claim-${claim.id}`,
+      group: 'claims' as const,
+      title: highlightMatches(claim.subject, term),
+      subtitle: [claim.aspect, claim.author, transformUtils.formatDate(claim.effectiveDate || claim.createdAt)]
+        .filter(Boolean)
+        .join(' · '),
+      snippet: claim.statement ? buildSnippet(claim.statement, term) : undefined,
+      path: buildCompanyPath(resolver.resolve(claim.subject).slug),
+    }));
+
+const buildValidatorResults = (term: string, claims: Claim[], resolver: CompanyResolver): SearchResult[] =>
+  claims.flatMap(claim =>
+    (claim.validators || [])
+      .map((validator, index) => ({ validator, index }))
+      .filter(({ validator }) =>
+        includesTerm(validator.name, term) ||
+        includesTerm(validator.organization, term) ||
+        includesTerm(validator.statement, term)
+      )
+      .map(({ validator, index }) => ({
+        id: `validator-${claim.id}-${index}`,
+        group: 'validators' as const,
+        title: highlightMatches(validator.name, term),
+        subtitle: `${validator.organization} · ${claim.subject}`,
+        snippet: buildSnippet(validator.statement, term),
+        path: buildCompanyPath(resolver.resolve(claim.subject).slug),
+      }))
+  );
+
+/**
+ * Group claim and node search hits into companies, claims and validators,
+ * in display order and capped per group
+ */
+export const groupSearchResults = (term: string, claims: Claim[], nodes: Node[]): SearchResult[] => {
+  const trimmed = term.trim();
+  if (trimmed.length < MIN_SEARCH_LENGTH) return [];
+
+  const resolver = createCompanyResolver(claims, nodes);
+  return [
+    ...buildCompanyResults(trimmed, claims, nodes, resolver).slice(0, MAX_RESULTS_PER_GROUP),
+    ...buildClaimResults(trimmed, claims, resolver).slice(0, MAX_RESULTS_PER_GROUP),
+    ...buildValidatorResults(trimmed, claims, resolver).slice(0, MAX_RESULTS_PER_GROUP),
+  ];
+};
@@ -0,0 +1,138 @@
+import type { LiveUpdateEvent, LiveUpdateEventType } from '../types';
+import { API_BASE_URL } from './api';
+import { applyClaimToCache, applyValidationToCache } from './queries';
+import { subscribeDataSourceMode, usesMockData } from './dataSource';
+import { parseLiveUpdateEvent } from './schemas';
+import { reportRejections } from './rejectionReport';
+
+// Server-sent events for new and updated claims and validations, applied straight to the query cache
+export type LiveUpdateConnection = 'disabled' | 'connecting' | 'open' | 'reconnecting' | 'unavailable';
+
+export interface LiveUpdateStatus {
+  connection: LiveUpdateConnection;
+  lastEventAt: Date | null;
+  eventCount: number;             // events applied this session
+}
+
+const EVENT_TYPES: LiveUpdateEventType[] = ['claim-created', 'claim-updated', 'validation-added'];
+
+// Mock mode only listens to an explicitly configured stream, such as the local stand-in server
+const CONFIGURED_URL = import.meta.env.VITE_LIVE_UPDATES_URL;
+
+export const LIVE_UPDATES_URL = CONFIGURED_URL || `${API_BASE_URL}/api/v4/events`;
+
+const SOURCE = `SSE ${LIVE_UPDATES_URL}`;
+
+// Event IDs already applied, so events replayed after a reconnect are not applied twice
+const MAX_SEEN_EVENT_IDS = 500;
+const seenEventIds = new Set<string>();
+
+const listeners = new Set<() => void>();
+
+let status: LiveUpdateStatus = {
+  connection: 'disabled',
+  lastEventAt: null,
+  eventCount: 0,
+};
+
+let eventSource: EventSource | null = null;
+
+export const getLiveUpdateStatus = (): LiveUpdateStatus => status;
+
+export const subscribeLiveUpdateStatus = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const updateStatus = (changes: Partial<LiveUpdateStatus>): void => {
+  status = { ...status, ...changes };
+  listeners.forEach(listener => listener());
+};
+
+// Already-received changes need no revalidation, so nothing is refetched per event
+const applyLiveUpdate = (event: LiveUpdateEvent): void => {
+  if (event.type === 'validation-added') {
+    applyValidationToCache(event.claimId, event.validator, { revalidate: false });
+  } else {
+    applyClaimToCache(event.claim);
+  }
+};
+
+const isDuplicate = (eventId: string): boolean => {
+  if (!eventId) return false;
+  if (seenEventIds.has(eventId)) return true;
+  seenEventIds.add(eventId);
+  if (seenEventIds.size > MAX_SEEN_EVENT_IDS) {
+    const oldest = seenEventIds.values().next().value;
+    if (oldest !== undefined) seenEventIds.delete(oldest);
+  }
+  return false;
+};
+
+const handleMessage = (type: LiveUpdateEventType, message: MessageEvent<string>): void => {
+  if (isDuplicate(message.lastEventId)) return;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(message.data);
+  } catch {
+    reportRejections([{
+      entity: 'Response',
+      source: SOURCE,
+      reference: `${type} event`,
+      issues: [{ path: '(response)', message: 'expected JSON' }],
+      record: message.data,
+    }]);
+    return;
+  }
+
+  try {
+    applyLiveUpdate(parseLiveUpdateEvent(type, data, SOURCE));
+  } catch (err) {
+    // The malformed event is already in the rejection report
+    console.warn('Ignored live update:', err);
+    return;
+  }
+  updateStatus({ lastEventAt: new Date(), eventCount: status.eventCount + 1 });
+};
+
+const disconnect = (): void => {
+  eventSource?.close();
+  eventSource = null;
+};
+
+const connect = (): void => {
+  disconnect();
+  if (typeof EventSource === 'undefined' || (usesMockData() && !CONFIGURED_URL)) {
+    updateStatus({ connection: 'disabled' });
+    return;
+  }
+
+  const events = new EventSource(LIVE_UPDATES_URL);
+  eventSource = events;
+  updateStatus({ connection: 'connecting' });
+
+  events.onopen = () => updateStatus({ connection: 'open' });
+  // EventSource retries dropped connections itself; it gives up for good on an HTTP error or wrong content type
+  events.onerror = () => updateStatus({
+    connection: events.readyState === EventSource.CLOSED ? 'unavailable' : 'reconnecting',
+  });
+  EVENT_TYPES.forEach(type => {
+    events.addEventListener(type, message => handleMessage(type, message));
+  });
+};
+
+let liveUpdatesStarted = false;
+
+/**
+ * Subscribe to the live-update stream, reconnecting whenever the data-source mode changes
+ */
+export const startLiveUpdates = (): void => {
+  if (liveUpdatesStarted || typeof window === 'undefined') return;
+  liveUpdatesStarted = true;
+
+  connect();
+  subscribeDataSourceMode(connect);
+};
@@ -0,0 +1,89 @@
+import type { ESGCategoryKey } from '../types';
+
+// Named, versioned scoring methodologies for ESGCalculationEngine
+export interface StarRatingThreshold {
+  min: number;       // lowest percentage earning these stars; each band runs up to the next one's min
+  stars: number;
+}
+
+export interface MethodologyProfile {
+  id: string;
+  name: string;
+  version: string;
+  description: string;
+  weights: Record<ESGCategoryKey, number>;  // pillar weights, sum to 1
+  recencyDecayDays: number;                  // e-folding time of the recency weight
+  starThresholds: StarRatingThreshold[];     // percentage bands, highest first
+  aspectMapping: Record<ESGCategoryKey, string[]>;
+}
+
+const DEFAULT_ASPECT_MAPPING: Record<ESGCategoryKey, string[]> = {
+  environmental: ['environmental', 'climate', 'sustainability', 'carbon', 'energy', 'renewable', 'emissions', 'green'],
+  social: ['social', 'labor', 'community', 'diversity', 'human rights', 'employee', 'workplace', 'safety'],
+  governance: ['governance', 'leadership', 'transparency', 'ethics', 'compliance', 'board', 'audit', 'risk']
+};
+
+const DEFAULT_STAR_THRESHOLDS: StarRatingThreshold[] = [
+  { min: 90, stars: 5 },
+  { min: 75, stars: 4 },
+  { min: 60, stars: 3 },
+  { min: 40, stars: 2 },
+  { min: 0, stars: 1 }
+];
+
+export const METHODOLOGY_PROFILES: Record<string, MethodologyProfile> = {
+  default: {
+    id: 'default',
+    name: 'Default',
+    version: '1.0',
+    description: 'Balanced LinkedTrust methodology (Environmental 40%, Social 30%, Governance 30%).',
+    weights: { environmental: 0.4, social: 0.3, governance: 0.3 },
+    recencyDecayDays: 180,
+    starThresholds: DEFAULT_STAR_THRESHOLDS,
+    aspectMapping: DEFAULT_ASPECT_MAPPING
+  },
+  'climate-heavy': {
+    id: 'climate-heavy',
+    name: 'Climate Heavy',
+    version: '1.0',
+    description: 'Emphasises environmental performance and favours recent climate disclosures.',
+    weights: { environmental: 0.6, social: 0.2, governance: 0.2 },
+    recencyDecayDays: 120,
+    starThresholds: DEFAULT_STAR_THRESHOLDS,
+    aspectMapping: {
+      ...DEFAULT_ASPECT_MAPPING,
+      environmental: [...DEFAULT_ASPECT_MAPPING.environmental, 'net-zero', 'biodiversity', 'water']
+    }
+  },
+  'governance-first': {
+    id: 'governance-first',
+    name: 'Governance First',
+    version: '1.0',
+    description: 'Prioritises board oversight and disclosure quality, with stricter star bands.',
+    weights: { environmental: 0.25, social: 0.25, governance: 0.5 },
+    recencyDecayDays: 365,
+    starThresholds: [
+      { min: 92, stars: 5 },
+      { min: 80, stars: 4 },
+      { min: 65, stars: 3 },
+      { min: 45, stars: 2 },
+      { min: 0, stars: 1 }
+    ],
+    aspectMapping: DEFAULT_ASPECT_MAPPING
+  }
+};
+
+export const DEFAULT_METHODOLOGY_ID = 'default';
+
+export const DEFAULT_METHODOLOGY_PROFILE = METHODOLOGY_PROFILES[DEFAULT_METHODOLOGY_ID];
+
+// Look up a profile by id, falling back to the default methodology
+export const getMethodologyProfile = (id?: string | null): MethodologyProfile => {
+  return (id && METHODOLOGY_PROFILES[id]) || DEFAULT_METHODOLOGY_PROFILE;
+};
+
+export const listMethodologyProfiles = (): MethodologyProfile[] => Object.values(METHODOLOGY_PROFILES);
+
+// Human-readable label, e.g. "Climate Heavy v1.0"
+export const formatMethodologyLabel = (profile: Pick<MethodologyProfile, 'name' | 'version'>): string =>
+  `${profile.name} v${profile.version}`;
@@ -1,6 +1,34 @@
-import type { Claim, Node, CompanyCardData } from '../types';
+import type { Claim, Node, CompanyCardData, NewClaim, NewValidation, Page, PageParams, Validator } from '../types';
 import mockData from '../data/mockData.json';
 import { calculateGrade } from '../theme/theme';
+import { companyKeyFromSubject, companySlugFromSubject, createCompanyResolver } from './companyResolver';
+import { parseClaimList, parseNodeList } from './schemas';
+
+// Mock data goes through the same schemas as backend responses, which also turn its dates into Dates
+const mockClaims: Claim[] = parseClaimList(mockData.claims, 'mockData.json');
+const mockNodes: Node[] = parseNodeList(mockData.nodes, 'mockData.json');
+
+// Claims published while running on mock data (kept in memory for the session)
+const createdClaims: Claim[] = [];
+
+// Validations submitted against claims while running on mock data, keyed by claim ID
+const addedValidations: Record<number, Validator[]> = {};
+
+// Mock cursors are plain offsets into the list
+const toPage = <T>(items: T[], { cursor, limit }: PageParams): Page<T> => {
+  const offset = cursor ? Math.max(0, parseInt(cursor, 10) || 0) : 0;
+  const end = offset + limit;
+  return {
+    items: items.slice(offset, end),
+    nextCursor: end < items.length ? String(end) : null,
+    total: items.length,
+  };
+};
+
+const withAddedValidations = (claim: Claim): Claim => {
+  const added = addedValidations[claim.id];
+  return added ? { ...claim, validators: [...(claim.validators || []), ...added] } : claim;
+};
 
 // Mock service to simulate API calls during development
 export const mockService = {
@@ -10,67 +38,89 @@ export const mockService = {
   // Get all claims
   getClaims: async (): Promise<Claim[]> => {
     await mockService.delay();
-    return mockData.claims.map(claim => ({
-      ...claim,
-      effectiveDate: claim.effectiveDate ? new Date(claim.effectiveDate) : undefined,
-      dateObserved: claim.dateObserved ? new Date(claim.dateObserved) : undefined,
-      createdAt: new Date(claim.createdAt),
-      lastUpdatedAt: new Date(claim.lastUpdatedAt),
-    } as Claim));
+    return [...mockClaims, ...createdClaims].map(withAddedValidations);
   },
 
   // Get claim by ID
   getClaimById: async (id: number): Promise<Claim | null> => {
     await mockService.delay();
-    const claim = mockData.claims.find(c => c.id === id);
-    if (!claim) return null;
-    
-    return {
-      ...claim,
-      effectiveDate: claim.effectiveDate ? new Date(claim.effectiveDate) : undefined,
-      dateObserved: claim.dateObserved ? new Date(claim.dateObserved) : undefined,
-      createdAt: new Date(claim.createdAt),
-      lastUpdatedAt: new Date(claim.lastUpdatedAt),
-    } as Claim;
+    const created = createdClaims.find(c => c.id === id);
+    if (created) return withAddedValidations(created);
+
+    const claim = mockClaims.find(c => c.id === id);
+    return claim ? withAddedValidations(claim) : null;
   },
 
-  // Get claims for a specific company
+  // Get claims for a specific company, matching aliases of the same canonical company
   getCompanyClaims: async (subject: string): Promise<Claim[]> => {
     await mockService.delay();
-    const claims = mockData.claims
-      .filter(claim => claim.subject.toLowerCase().includes(subject.toLowerCase()))
-      .map(claim => ({
-        ...claim,
-        effectiveDate: claim.effectiveDate ? new Date(claim.effectiveDate) : undefined,
-        dateObserved: claim.dateObserved ? new Date(claim.dateObserved) : undefined,
-        createdAt: new Date(claim.createdAt),
-        lastUpdatedAt: new Date(claim.lastUpdatedAt),
-      } as Claim));
+    const claims = [...mockClaims, ...createdClaims];
+    const resolver = createCompanyResolver(claims, mockNodes);
+    const companyKey = resolver.keyOf(subject);
     
-    return claims;
+    return claims
+      .filter(claim => resolver.keyOf(claim.subject) === companyKey)
+      .map(withAddedValidations);
   },
 
   // Get only rated claims (for dashboard)
   getRatedClaims: async (): Promise<Claim[]> => {
     await mockService.delay();
-    return mockData.claims
-      .filter(claim => claim.claim === 'rated')
-      .map(claim => ({
-        ...claim,
-        effectiveDate: claim.effectiveDate ? new Date(claim.effectiveDate) : undefined,
-        dateObserved: claim.dateObserved ? new Date(claim.dateObserved) : undefined,
-        createdAt: new Date(claim.createdAt),
-        lastUpdatedAt: new Date(claim.lastUpdatedAt),
-      } as Claim));
+    return [
+      ...mockClaims.filter(claim => claim.claim === 'rated'),
+      ...createdClaims.filter(claim => claim.claim === 'rated'),
+    ].map(withAddedValidations);
+  },
+
+  // Get one page of rated claims (mirrors apiService.getRatedClaimsPage)
+  getRatedClaimsPage: async (params: PageParams): Promise<Page<Claim>> => {
+    await mockService.delay();
+    const claims = [...mockClaims, ...createdClaims].filter(claim => claim.claim === 'rated');
+    return toPage(claims.map(withAddedValidations), params);
+  },
+
+  // Publish a new claim (mirrors apiService.createClaim)
+  createClaim: async (newClaim: NewClaim): Promise<Claim> => {
+    await mockService.delay();
+    const ids = [...mockClaims.map(c => c.id), ...createdClaims.map(c => c.id)];
+    const now = new Date();
+    const claim: Claim = {
+      ...newClaim,
+      id: Math.max(0, ...ids) + 1,
+      createdAt: now,
+      lastUpdatedAt: now,
+      validators: [],
+    };
+    createdClaims.push(claim);
+    return claim;
+  },
+
+  // Endorse or dispute a claim (mirrors apiService.addValidation)
+  addValidation: async (claimId: number, validation: NewValidation): Promise<Validator> => {
+    await mockService.delay();
+    const exists = mockClaims.some(c => c.id === claimId) || createdClaims.some(c => c.id === claimId);
+    if (!exists) {
+      throw new Error(`Claim ${claimId} not found`);
+    }
+
+    const validator: Validator = {
+      ...validation,
+      verified: false,
+      createdAt: new Date(),
+    };
+    addedValidations[claimId] = [...(addedValidations[claimId] || []), validator];
+    return validator;
   },
 
   // Get company card data (transformed for dashboard)
   getCompanyCardData: async (): Promise<CompanyCardData[]> => {
     await mockService.delay();
-    return mockData.claims
+    return mockClaims
       .filter(claim => claim.claim === 'rated' && claim.score !== undefined && claim.stars !== undefined)
       .map(claim => ({
         id: claim.id,
+        companyKey: companyKeyFromSubject(claim.subject),
+        slug: companySlugFromSubject(claim.subject),
         subject: claim.subject,
         stars: claim.stars!,
         score: claim.score!,
@@ -81,48 +131,53 @@ export const mockService = {
   // Get all nodes
   getNodes: async (): Promise<Node[]> => {
     await mockService.delay();
-    return mockData.nodes as Node[];
+    return mockNodes;
+  },
+
+  // Get one page of nodes (mirrors apiService.getNodesPage)
+  getNodesPage: async (params: PageParams): Promise<Page<Node>> => {
+    await mockService.delay();
+    return toPage(mockNodes, params);
   },
 
   // Get node by ID
   getNodeById: async (id: number): Promise<Node | null> => {
     await mockService.delay();
-    return (mockData.nodes.find(n => n.id === id) as Node) || null;
+    return mockNodes.find(n => n.id === id) || null;
   },
 
   // Get company nodes only
   getCompanyNodes: async (): Promise<Node[]> => {
     await mockService.delay();
-    return mockData.nodes.filter(node => node.entType === 'ORGANIZATION') as Node[];
+    return mockNodes.filter(node => node.entType === 'ORGANIZATION');
   },
 
-  // Search claims by query
+  // Search claims by query, including their validators' names, organizations and statements
   searchClaims: async (query: string): Promise<Claim[]> => {
     await mockService.delay();
     const searchTerm = query.toLowerCase();
-    return mockData.claims
+    return [...mockClaims, ...createdClaims]
+      .map(withAddedValidations)
       .filter(claim => 
         claim.subject.toLowerCase().includes(searchTerm) ||
         claim.statement?.toLowerCase().includes(searchTerm) ||
-        claim.author?.toLowerCase().includes(searchTerm)
-      )
-      .map(claim => ({
-        ...claim,
-        effectiveDate: claim.effectiveDate ? new Date(claim.effectiveDate) : undefined,
-        dateObserved: claim.dateObserved ? new Date(claim.dateObserved) : undefined,
-        createdAt: new Date(claim.createdAt),
-        lastUpdatedAt: new Date(claim.lastUpdatedAt),
-      } as Claim));
+        claim.author?.toLowerCase().includes(searchTerm) ||
+        claim.validators?.some(validator =>
+          validator.name.toLowerCase().includes(searchTerm) ||
+          validator.organization.toLowerCase().includes(searchTerm) ||
+          validator.statement.toLowerCase().includes(searchTerm)
+        )
+      );
   },
 
   // Search nodes by query
   searchNodes: async (query: string): Promise<Node[]> => {
     await mockService.delay();
     const searchTerm = query.toLowerCase();
-    return mockData.nodes.filter(node => 
+    return mockNodes.filter(node => 
       node.name.toLowerCase().includes(searchTerm) ||
       node.descrip.toLowerCase().includes(searchTerm)
-    ) as Node[];
+    );
   },
 };
 
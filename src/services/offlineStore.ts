@@ -0,0 +1,109 @@
+import type { Claim, Node } from '../types';
+
+// Local IndexedDB copy of fetched claims and nodes, read when the backend is unreachable
+const DB_NAME = 'linkedtrust-offline';
+const DB_VERSION = 1;
+
+const STORES = {
+  claims: 'claims',
+  nodes: 'nodes',
+  meta: 'meta',
+} as const;
+
+const LAST_SYNCED_KEY = 'lastSyncedAt';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isOfflineStoreAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!isOfflineStoreAvailable()) {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.claims)) db.createObjectStore(STORES.claims, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(STORES.nodes)) db.createObjectStore(STORES.nodes, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(STORES.meta)) db.createObjectStore(STORES.meta);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(err => {
+      // Let the next call retry, e.g. after the user allows storage
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+};
+
+const readAll = async <T>(storeName: string): Promise<T[]> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).getAll() as IDBRequest<T[]>);
+};
+
+/**
+ * Upsert records by id; with `replaceWhere`, stored records matching it that are missing from
+ * `records` are deleted so the store mirrors the server's full response
+ */
+const writeAll = async <T extends { id: number }>(
+  storeName: string,
+  records: T[],
+  replaceWhere?: (record: T) => boolean
+): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([storeName, STORES.meta], 'readwrite');
+  const store = transaction.objectStore(storeName);
+
+  if (replaceWhere) {
+    const incoming = new Set(records.map(record => record.id));
+    const existing = await requestToPromise(store.getAll() as IDBRequest<T[]>);
+    existing
+      .filter(record => replaceWhere(record) && !incoming.has(record.id))
+      .forEach(record => store.delete(record.id));
+  }
+
+  records.forEach(record => store.put(record));
+  transaction.objectStore(STORES.meta).put(new Date().toISOString(), LAST_SYNCED_KEY);
+  await transactionDone(transaction);
+};
+
+export const getStoredClaims = (): Promise<Claim[]> => readAll<Claim>(STORES.claims);
+
+export const getStoredNodes = (): Promise<Node[]> => readAll<Node>(STORES.nodes);
+
+/**
+ * Save claims fetched from the backend. A full rated-claims response replaces the stored
+ * rated claims, dropping any the server no longer returns.
+ */
+export const saveClaims = (claims: Claim[], { fullRatedSet = false }: { fullRatedSet?: boolean } = {}): Promise<void> =>
+  writeAll(STORES.claims, claims, fullRatedSet ? claim => claim.claim === 'rated' : undefined);
+
+/**
+ * Save the backend's full node list, replacing what was stored before
+ */
+export const saveNodes = (nodes: Node[]): Promise<void> => writeAll(STORES.nodes, nodes, () => true);
+
+export const getLastSyncedAt = async (): Promise<Date | null> => {
+  const db = await openDatabase();
+  const value = await requestToPromise(
+    db.transaction(STORES.meta, 'readonly').objectStore(STORES.meta).get(LAST_SYNCED_KEY) as IDBRequest<string | undefined>
+  );
+  return value ? new Date(value) : null;
+};
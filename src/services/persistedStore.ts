@@ -0,0 +1,57 @@
+// Module-level value shared by every view, kept in localStorage and read with useSyncExternalStore
+export interface PersistedStore<T> {
+  get: () => T;
+  set: (value: T) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+interface PersistedStoreOptions<T> {
+  key: string;
+  fallback: T;
+  // Stored text back to a value; undefined (or a throw) means it is unusable and the fallback applies
+  parse: (stored: string) => T | undefined;
+  // Text to store; null clears the entry
+  serialize: (value: T) => string | null;
+}
+
+/**
+ * Value persisted under a localStorage key that notifies subscribers when it changes
+ */
+export const createPersistedStore = <T>({ key, fallback, parse, serialize }: PersistedStoreOptions<T>): PersistedStore<T> => {
+  const listeners = new Set<() => void>();
+
+  const read = (): T => {
+    try {
+      const stored = localStorage.getItem(key);
+      return stored === null ? fallback : parse(stored) ?? fallback;
+    } catch {
+      return fallback;
+    }
+  };
+
+  let current = read();
+
+  return {
+    get: () => current,
+    set: (value: T) => {
+      current = value;
+      try {
+        const text = serialize(value);
+        if (text === null) {
+          localStorage.removeItem(key);
+        } else {
+          localStorage.setItem(key, text);
+        }
+      } catch {
+        // Persisting is best-effort; the value still applies for this session
+      }
+      listeners.forEach(listener => listener());
+    },
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
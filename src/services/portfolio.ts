@@ -0,0 +1,272 @@
+import { SHEET_FILE_ACCEPT, findSheetColumn, readSheetTable } from './sheetImport';
+import { createPersistedStore } from './persistedStore';
+import type { MethodologyProfile } from './methodology';
+import { ESGCalculationEngine, type ESGMetrics } from './esgCalculations';
+import type { CompanyResolver } from './companyResolver';
+
+// Named portfolios of companies with holding weights, aggregated into a portfolio ESG score
+export interface PortfolioHolding {
+  companyKey: string;  // canonical company identity (see companyResolver)
+  subject: string;     // company subject at the time it was added, for display
+  weight: number;      // relative weight; normalized across covered holdings
+}
+
+export interface Portfolio {
+  id: string;
+  name: string;
+  holdings: PortfolioHolding[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Scored company as provided by useCompaniesESGMetrics
+export interface PortfolioCompany {
+  key: string;
+  subject: string;
+  esgMetrics: ESGMetrics;
+}
+
+export interface HoldingContribution {
+  holding: PortfolioHolding;
+  normalizedWeight: number;  // share of the covered weight, 0–1
+  esgMetrics: ESGMetrics;
+  contribution: number;      // percentage points added to the portfolio score
+  impact: number;            // points gained (positive) or lost (negative) versus the portfolio average
+}
+
+export interface PortfolioGradeBucket {
+  grade: string;
+  count: number;
+  weight: number;            // share of the covered weight, 0–1
+}
+
+export interface PortfolioMetrics {
+  overallPercentage: number;
+  overallStars: number;
+  overallGrade: string;
+  environmentalScore: number;
+  socialScore: number;
+  governanceScore: number;
+  confidenceLevel: number;
+  totalWeight: number;
+  coverage: number;          // share of the total weight with ESG data, 0–1
+  contributions: HoldingContribution[];
+  gradeDistribution: PortfolioGradeBucket[];
+  worstContributors: HoldingContribution[];
+  missing: PortfolioHolding[];
+}
+
+export interface PortfolioImportResult {
+  holdings: PortfolioHolding[];
+  unmatched: Array<{ row: number; identifier: string; reason: string }>;
+}
+
+export const PORTFOLIO_FILE_ACCEPT = SHEET_FILE_ACCEPT;
+
+const WORST_CONTRIBUTOR_COUNT = 5;
+const GRADE_ORDER = ['A+', 'A', 'B', 'C', 'D', 'F'];
+
+// Header names recognised in imported holdings files, in order of preference
+const IDENTIFIER_HEADERS = ['identifier', 'isin', 'ticker', 'symbol', 'company', 'name', 'holding'];
+const WEIGHT_HEADERS = ['weight', 'weight (%)', 'weight %', 'allocation', 'percent', '%'];
+
+const createPortfolioId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `portfolio-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * New empty portfolio
+ */
+export const createPortfolio = (name: string, holdings: PortfolioHolding[] = []): Portfolio => {
+  const now = new Date().toISOString();
+  return { id: createPortfolioId(), name: name.trim() || 'Untitled portfolio', holdings, createdAt: now, updatedAt: now };
+};
+
+const isHolding = (value: unknown): value is PortfolioHolding => {
+  const holding = value as Partial<PortfolioHolding> | null;
+  return Boolean(holding) &&
+    typeof holding!.companyKey === 'string' &&
+    typeof holding!.subject === 'string' &&
+    typeof holding!.weight === 'number' && Number.isFinite(holding!.weight);
+};
+
+const isPortfolio = (value: unknown): value is Portfolio => {
+  const portfolio = value as Partial<Portfolio> | null;
+  return Boolean(portfolio) &&
+    typeof portfolio!.id === 'string' &&
+    typeof portfolio!.name === 'string' &&
+    Array.isArray(portfolio!.holdings) && portfolio!.holdings.every(isHolding);
+};
+
+/**
+ * Portfolios saved in this browser; unreadable entries are skipped
+ */
+export const portfolioStore = createPersistedStore<Portfolio[]>({
+  key: 'linkedtrust.portfolios',
+  fallback: [],
+  parse: stored => {
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isPortfolio) : undefined;
+  },
+  serialize: portfolios => JSON.stringify(portfolios),
+});
+
+/**
+ * Add a company, or add to its weight when it is already held
+ */
+export const addHolding = (holdings: PortfolioHolding[], holding: PortfolioHolding): PortfolioHolding[] => {
+  const existing = holdings.find(candidate => candidate.companyKey === holding.companyKey);
+  if (!existing) return [...holdings, holding];
+  return holdings.map(candidate => candidate === existing
+    ? { ...candidate, weight: candidate.weight + holding.weight }
+    : candidate
+  );
+};
+
+/**
+ * Rescale weights so they add up to 100
+ */
+export const normalizeHoldingWeights = (holdings: PortfolioHolding[]): PortfolioHolding[] => {
+  const total = holdings.reduce((sum, holding) => sum + holding.weight, 0);
+  if (total <= 0) return holdings;
+  return holdings.map(holding => ({ ...holding, weight: Math.round((holding.weight / total) * 10000) / 100 }));
+};
+
+// Accept "12.5", "12.5%" and "12,5"
+const parseWeight = (value: string): number | null => {
+  const parsed = parseFloat(value.replace('%', '').replace(',', '.').trim());
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+/**
+ * Read holdings from the first sheet of a CSV or XLSX file and resolve each to a company.
+ * Uses recognised header columns when present, otherwise identifier then weight columns.
+ * Rows without a weight are weighted equally with 1.
+ */
+export const importPortfolioFile = async (file: File, resolver: CompanyResolver): Promise<PortfolioImportResult> => {
+  const { header, rows } = await readSheetTable(file, IDENTIFIER_HEADERS);
+  const identifierColumn = header ? findSheetColumn(header, IDENTIFIER_HEADERS) : 0;
+  const weightColumn = header ? findSheetColumn(header, WEIGHT_HEADERS) : 1;
+
+  const result: PortfolioImportResult = { holdings: [], unmatched: [] };
+  rows.forEach(({ row, cells }) => {
+    const identifier = (cells[identifierColumn] ?? '').trim();
+    if (!identifier) return;
+
+    const weight = weightColumn === -1 ? 1 : parseWeight(cells[weightColumn] ?? '');
+    if (weight === null) {
+      result.unmatched.push({ row, identifier, reason: 'Weight is not a number' });
+      return;
+    }
+
+    const company = resolver.find(identifier);
+    if (!company) {
+      result.unmatched.push({ row, identifier, reason: 'No rated company found' });
+      return;
+    }
+    result.holdings = addHolding(result.holdings, { companyKey: company.key, subject: company.subject, weight });
+  });
+
+  if (result.holdings.length === 0 && result.unmatched.length === 0) {
+    throw new Error('No holdings were found in the uploaded file');
+  }
+  return result;
+};
+
+/**
+ * Point holdings at their company's current canonical key. A key changes when the company gains
+ * a stronger identifier (e.g. its first ISIN claim), so holdings whose saved key no longer matches
+ * a scored company are looked up again by subject. Returns the same array when nothing changed.
+ */
+export const reconcileHoldingKeys = (
+  holdings: PortfolioHolding[],
+  companies: PortfolioCompany[],
+  resolver: CompanyResolver
+): PortfolioHolding[] => {
+  const keys = new Set(companies.map(company => company.key));
+  let changed = false;
+  const remapped = holdings.map(holding => {
+    if (keys.has(holding.companyKey)) return holding;
+    // Companies the resolver has not loaded yet are scored under their subject's own key
+    const identity = resolver.resolve(holding.subject);
+    if (!keys.has(identity.key)) return holding;
+    changed = true;
+    return { ...holding, companyKey: identity.key };
+  });
+  // Two saved holdings can now be the same company; merge them like a repeated add
+  return changed ? remapped.reduce<PortfolioHolding[]>(addHolding, []) : holdings;
+};
+
+const weightedAverage = (contributions: HoldingContribution[], value: (metrics: ESGMetrics) => number): number =>
+  contributions.reduce((sum, entry) => sum + entry.normalizedWeight * value(entry.esgMetrics), 0);
+
+/**
+ * Aggregate company metrics into holdings-weighted portfolio metrics.
+ * Holdings without ESG data are reported as missing and excluded from the weights;
+ * with a resolver, holdings saved under an outdated company key are matched by subject first.
+ */
+export const calculatePortfolioMetrics = (
+  savedHoldings: PortfolioHolding[],
+  companies: PortfolioCompany[],
+  profile: MethodologyProfile,
+  resolver?: CompanyResolver
+): PortfolioMetrics | null => {
+  const holdings = resolver ? reconcileHoldingKeys(savedHoldings, companies, resolver) : savedHoldings;
+  const byKey = new Map(companies.map(company => [company.key, company]));
+  const positive = holdings.filter(holding => holding.weight > 0);
+  const covered = positive.filter(holding => byKey.has(holding.companyKey));
+  const totalWeight = positive.reduce((sum, holding) => sum + holding.weight, 0);
+  const coveredWeight = covered.reduce((sum, holding) => sum + holding.weight, 0);
+  if (coveredWeight <= 0) return null;
+
+  const contributions: HoldingContribution[] = covered.map(holding => {
+    const esgMetrics = byKey.get(holding.companyKey)!.esgMetrics;
+    const normalizedWeight = holding.weight / coveredWeight;
+    return {
+      holding,
+      normalizedWeight,
+      esgMetrics,
+      contribution: normalizedWeight * esgMetrics.overallPercentage,
+      impact: 0,
+    };
+  });
+
+  const overallPercentage = weightedAverage(contributions, metrics => metrics.overallPercentage);
+  contributions.forEach(entry => {
+    entry.impact = entry.normalizedWeight * (entry.esgMetrics.overallPercentage - overallPercentage);
+  });
+
+  const buckets = new Map<string, PortfolioGradeBucket>();
+  contributions.forEach(entry => {
+    const grade = entry.esgMetrics.overallGrade;
+    const bucket = buckets.get(grade) ?? { grade, count: 0, weight: 0 };
+    buckets.set(grade, { ...bucket, count: bucket.count + 1, weight: bucket.weight + entry.normalizedWeight });
+  });
+  const gradeRank = (grade: string) => {
+    const index = GRADE_ORDER.indexOf(grade);
+    return index === -1 ? GRADE_ORDER.length : index;
+  };
+
+  const { stars, grade } = ESGCalculationEngine.ratePercentage(overallPercentage, profile);
+
+  return {
+    overallPercentage,
+    overallStars: stars,
+    overallGrade: grade,
+    environmentalScore: weightedAverage(contributions, metrics => metrics.environmentalScore),
+    socialScore: weightedAverage(contributions, metrics => metrics.socialScore),
+    governanceScore: weightedAverage(contributions, metrics => metrics.governanceScore),
+    confidenceLevel: weightedAverage(contributions, metrics => metrics.confidenceLevel),
+    totalWeight,
+    coverage: totalWeight > 0 ? coveredWeight / totalWeight : 0,
+    contributions,
+    gradeDistribution: Array.from(buckets.values()).sort((a, b) => gradeRank(a.grade) - gradeRank(b.grade)),
+    // Holdings that pull the portfolio score down the most
+    worstContributors: contributions
+      .filter(entry => entry.impact < 0)
+      .sort((a, b) => a.impact - b.impact)
+      .slice(0, WORST_CONTRIBUTOR_COUNT),
+    missing: positive.filter(holding => !byKey.has(holding.companyKey)),
+  };
+};
@@ -0,0 +1,378 @@
+import { QueryClient, type InfiniteData } from '@tanstack/react-query';
+import type { Claim, Node, LoadingState, Page, Validator } from '../types';
+import { apiService } from './api';
+import { errorUtils, transformUtils } from './utils';
+import { subjectMatchesIdentity, type CompanyIdentity } from './companyResolver';
+import { getStoredClaims, getStoredNodes, getLastSyncedAt, saveClaims, saveNodes } from './offlineStore';
+import { getSyncStatus, isBrowserOffline, recordDataSource, resetDataSources, updateSyncStatus } from './syncStatus';
+import { allowsMockFallback, setDataSourceMode, usesMockData, type DataSourceMode } from './dataSource';
+
+type MockService = typeof import('./mockService').default;
+
+// Shared query cache: data is served from cache and revalidated in the background once stale
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 60 * 1000,
+      gcTime: 10 * 60 * 1000,
+      refetchOnWindowFocus: false,
+      retry: false, // failed requests already fall back to the offline store (and sample data in hybrid mode)
+      networkMode: 'always', // run queries offline too so they can read the offline store
+    },
+  },
+});
+
+// Query keys; invalidating queryKeys.claims refreshes every claim-based query
+export const queryKeys = {
+  claims: ['claims'] as const,
+  ratedClaims: () => [...queryKeys.claims, 'rated'] as const,
+  ratedClaimPages: () => [...queryKeys.claims, 'rated-pages'] as const,
+  claim: (id: number) => [...queryKeys.claims, 'detail', id] as const,
+  companyClaims: (companyKey: string) => [...queryKeys.claims, 'company', companyKey] as const,
+  nodes: ['nodes'] as const,
+  nodePages: () => [...queryKeys.nodes, 'pages'] as const,
+  search: (term: string) => ['search', term] as const,
+};
+
+interface FallbackSources<T> {
+  save?: (data: T) => Promise<void>;                  // keep a local copy of what the backend returned
+  readLocal?: () => Promise<T | null | undefined>;    // null/undefined (or an empty list) when nothing is stored
+}
+
+const hasLocalData = <T>(data: T | null | undefined): data is T =>
+  data !== null && data !== undefined && (!Array.isArray(data) || data.length > 0);
+
+const loadMockService = async (): Promise<MockService> => (await import('./mockService')).default;
+
+/**
+ * Fetch according to the data-source mode: mock mode reads sample data only; live mode reads
+ * the backend, then the offline store; hybrid mode additionally falls back to sample data.
+ */
+const withDataSource = async <T>(
+  label: string,
+  apiCall: () => Promise<T>,
+  mockCall: (mockService: MockService) => Promise<T>,
+  { save, readLocal }: FallbackSources<T> = {}
+): Promise<T> => {
+  if (usesMockData()) {
+    const data = await mockCall(await loadMockService());
+    recordDataSource(label, 'mock');
+    return data;
+  }
+
+  try {
+    if (isBrowserOffline()) throw new Error('Network error: browser is offline');
+    const data = await apiCall();
+    updateSyncStatus({ online: true });
+    recordDataSource(label, 'network');
+    if (save) {
+      // Storing is best-effort; the fetched data is returned either way
+      save(data)
+        .then(() => updateSyncStatus({ lastSyncedAt: new Date() }))
+        .catch(storeErr => console.warn(`Could not store ${label} offline:`, storeErr));
+    }
+    return data;
+  } catch (err) {
+    console.error(`Error fetching ${label}:`, err);
+    updateSyncStatus({ online: false });
+
+    if (readLocal) {
+      try {
+        const local = await readLocal();
+        if (hasLocalData(local)) {
+          recordDataSource(label, 'offline-store');
+          return local;
+        }
+      } catch (storeErr) {
+        console.warn(`Offline store unavailable for ${label}:`, storeErr);
+      }
+    }
+
+    if (!allowsMockFallback()) throw err;
+
+    try {
+      const data = await mockCall(await loadMockService());
+      recordDataSource(label, 'mock');
+      return data;
+    } catch (mockErr) {
+      console.error('Mock data fallback also failed:', mockErr);
+      throw err;
+    }
+  }
+};
+
+const matchesTerm = (term: string, ...values: Array<string | undefined>): boolean => {
+  const needle = term.trim().toLowerCase();
+  return values.some(value => value?.toLowerCase().includes(needle));
+};
+
+export const fetchRatedClaims = (): Promise<Claim[]> =>
+  withDataSource(
+    'rated claims',
+    async () => (await apiService.getRatedClaims()).data,
+    mockService => mockService.getRatedClaims(),
+    {
+      save: claims => saveClaims(claims, { fullRatedSet: true }),
+      readLocal: async () => (await getStoredClaims()).filter(claim => claim.claim === 'rated'),
+    }
+  );
+
+export const CLAIMS_PAGE_SIZE = 100;
+export const NODES_PAGE_SIZE = 500;
+
+// The offline store has no cursors, so it can only stand in for the first page (with everything it holds)
+const storedFirstPage = <T>(cursor: string | null, items: T[]): Page<T> | null =>
+  !cursor && items.length > 0 ? { items, nextCursor: null, total: items.length } : null;
+
+export const fetchRatedClaimsPage = (cursor: string | null): Promise<Page<Claim>> =>
+  withDataSource(
+    'rated claim pages',
+    async () => (await apiService.getRatedClaimsPage({ cursor, limit: CLAIMS_PAGE_SIZE })).data,
+    mockService => mockService.getRatedClaimsPage({ cursor, limit: CLAIMS_PAGE_SIZE }),
+    {
+      save: page => saveClaims(page.items),
+      readLocal: async () => storedFirstPage(cursor, (await getStoredClaims()).filter(claim => claim.claim === 'rated')),
+    }
+  );
+
+export const fetchNodesPage = (cursor: string | null): Promise<Page<Node>> =>
+  withDataSource(
+    'node pages',
+    async () => (await apiService.getNodesPage({ cursor, limit: NODES_PAGE_SIZE })).data,
+    mockService => mockService.getNodesPage({ cursor, limit: NODES_PAGE_SIZE }),
+    { readLocal: async () => storedFirstPage(cursor, await getStoredNodes()) }
+  );
+
+export const fetchClaim = (id: number): Promise<Claim> =>
+  withDataSource(
+    `claim ${id}`,
+    async () => {
+      const claim = (await apiService.getClaimById(id)).data;
+      if (!claim) throw new Error('Claim not found');
+      return claim;
+    },
+    async mockService => {
+      const claim = await mockService.getClaimById(id);
+      if (!claim) throw new Error('Claim not found in mock data');
+      return claim;
+    },
+    {
+      save: claim => saveClaims([claim]),
+      readLocal: async () => (await getStoredClaims()).find(claim => claim.id === id),
+    }
+  );
+
+const fetchSubjectClaims = async (subject: string): Promise<Claim[]> => {
+  try {
+    // Subject-specific endpoint (preferred)
+    return (await apiService.getClaimsBySubject(subject)).data;
+  } catch {
+    // Fall back to the general claims endpoint with a subject filter
+    return (await apiService.getCompanyClaims(subject)).data;
+  }
+};
+
+// Merge the claims fetched for each alias, dropping duplicates and claims about other companies
+const collectCompanyClaims = (responses: Claim[][], identity: CompanyIdentity): Claim[] => {
+  const claims = new Map<number, Claim>();
+  responses.flat()
+    .filter(claim => subjectMatchesIdentity(claim.subject, identity))
+    .forEach(claim => claims.set(claim.id, claim));
+  return Array.from(claims.values());
+};
+
+// Spellings on claim pages the client has not loaded yet only turn up in a name search (best effort)
+const searchAliasClaims = (identity: CompanyIdentity): Promise<Claim[][]> =>
+  Promise.all(identity.names.map(async name => {
+    try {
+      return (await apiService.searchClaims(name)).data;
+    } catch {
+      return [];
+    }
+  }));
+
+/**
+ * Fetch every claim about a canonical company, across all subject spellings it is known by
+ */
+export const fetchCompanyClaims = (identity: CompanyIdentity): Promise<Claim[]> => {
+  const subjects = identity.subjects.length > 0 ? identity.subjects : [identity.subject];
+  return withDataSource(
+    `claims for ${identity.name}`,
+    async () => {
+      const [bySubject, byName] = await Promise.all([
+        Promise.all(subjects.map(fetchSubjectClaims)),
+        searchAliasClaims(identity),
+      ]);
+      return collectCompanyClaims([...bySubject, ...byName], identity);
+    },
+    async mockService => collectCompanyClaims(await Promise.all(subjects.map(mockService.getCompanyClaims)), identity),
+    {
+      save: claims => saveClaims(claims),
+      readLocal: async () => collectCompanyClaims([await getStoredClaims()], identity),
+    }
+  );
+};
+
+export const fetchNodes = (): Promise<Node[]> =>
+  withDataSource(
+    'nodes',
+    async () => (await apiService.getNodes()).data,
+    mockService => mockService.getNodes(),
+    { save: saveNodes, readLocal: getStoredNodes }
+  );
+
+export interface SearchResponse {
+  claims: Claim[];
+  nodes: Node[];
+}
+
+export const fetchSearchResults = async (term: string): Promise<SearchResponse> => {
+  const [claims, nodes] = await Promise.all([
+    withDataSource(
+      `claims matching "${term}"`,
+      async () => (await apiService.searchClaims(term)).data,
+      mockService => mockService.searchClaims(term),
+      {
+        readLocal: async () => (await getStoredClaims())
+          .filter(claim => matchesTerm(term, claim.subject, claim.statement, claim.aspect)),
+      }
+    ),
+    withDataSource(
+      `nodes matching "${term}"`,
+      async () => (await apiService.searchNodes(term)).data,
+      mockService => mockService.searchNodes(term),
+      {
+        readLocal: async () => (await getStoredNodes())
+          .filter(node => matchesTerm(term, node.name, node.nodeUri, node.descrip)),
+      }
+    ),
+  ]);
+  return { claims, nodes };
+};
+
+// Map a query's status onto the LoadingState the hooks expose
+export const toLoadingState = (query: { status: 'pending' | 'error' | 'success'; fetchStatus: 'fetching' | 'paused' | 'idle' }): LoadingState => {
+  if (query.status === 'success') return 'success';
+  if (query.status === 'error') return 'error';
+  return query.fetchStatus === 'idle' ? 'idle' : 'loading';
+};
+
+type CachedClaims = Claim | Claim[] | InfiniteData<Page<Claim>>;
+
+// Apply a change to every claim list, claim page and single claim held in the cache
+const updateCachedClaims = (update: (claims: Claim[]) => Claim[]): void => {
+  queryClient.setQueriesData<CachedClaims>({ queryKey: queryKeys.claims }, cached => {
+    if (!cached) return cached;
+    if (Array.isArray(cached)) return update(cached);
+    if ('pages' in cached) {
+      return { ...cached, pages: cached.pages.map(page => ({ ...page, items: update(page.items) })) };
+    }
+    return update([cached])[0];
+  });
+};
+
+/**
+ * Add a validator to every cached copy of a claim so metrics recompute immediately,
+ * then (unless the change came from the server already) revalidate claim queries in the background.
+ */
+export const applyValidationToCache = (
+  claimId: number,
+  validator: Validator,
+  { revalidate = true }: { revalidate?: boolean } = {}
+): void => {
+  updateCachedClaims(claims => transformUtils.addValidatorToClaims(claims, claimId, validator));
+  if (revalidate) queryClient.invalidateQueries({ queryKey: queryKeys.claims });
+};
+
+/**
+ * Put a new or updated claim pushed by the server into the cache without refetching:
+ * cached copies are replaced and a new rated claim is appended to the rated lists.
+ */
+export const applyClaimToCache = (claim: Claim): void => {
+  let known = false;
+  updateCachedClaims(claims => claims.map(cached => {
+    if (cached.id !== claim.id) return cached;
+    known = true;
+    return claim;
+  }));
+  if (known) return;
+
+  if (claim.claim === 'rated') {
+    queryClient.setQueryData<Claim[]>(queryKeys.ratedClaims(), cached => cached && [...cached, claim]);
+    queryClient.setQueryData<InfiniteData<Page<Claim>>>(queryKeys.ratedClaimPages(), cached => cached && {
+      ...cached,
+      pages: cached.pages.map((page, index) => index === cached.pages.length - 1
+        ? { ...page, items: [...page.items, claim], total: page.total + 1 }
+        : page),
+    });
+  }
+  // Which company a new claim belongs to depends on the resolver, so company lists reload instead
+  queryClient.invalidateQueries({ queryKey: [...queryKeys.claims, 'company'] });
+};
+
+export const invalidateClaims = (): Promise<void> =>
+  queryClient.invalidateQueries({ queryKey: queryKeys.claims });
+
+/**
+ * Reconcile the offline store with the backend: stored rated claims and nodes are replaced
+ * by the server's copy, then every query reloads. Resolves to whether the backend was reachable.
+ */
+export const syncOfflineStore = async (): Promise<boolean> => {
+  if (getSyncStatus().syncing || usesMockData()) return false;
+  updateSyncStatus({ syncing: true, lastError: null });
+
+  let claims: Claim[];
+  let nodes: Node[];
+  try {
+    if (isBrowserOffline()) throw new Error('Network error: browser is offline');
+    [claims, nodes] = await Promise.all([
+      apiService.getRatedClaims().then(response => response.data),
+      apiService.getNodes().then(response => response.data),
+    ]);
+  } catch (err) {
+    updateSyncStatus({ online: false, syncing: false, lastError: errorUtils.handleApiError(err).message });
+    return false;
+  }
+
+  try {
+    await Promise.all([saveClaims(claims, { fullRatedSet: true }), saveNodes(nodes)]);
+    updateSyncStatus({ online: true, syncing: false, lastSyncedAt: new Date() });
+  } catch (err) {
+    updateSyncStatus({ online: true, syncing: false, lastError: `Could not update offline copy: ${errorUtils.handleApiError(err).message}` });
+  }
+  await queryClient.invalidateQueries();
+  return true;
+};
+
+let offlineSyncStarted = false;
+
+/**
+ * Track connectivity and sync the offline store whenever the browser comes back online
+ */
+export const startOfflineSync = (): void => {
+  if (offlineSyncStarted || typeof window === 'undefined') return;
+  offlineSyncStarted = true;
+
+  getLastSyncedAt()
+    .then(lastSyncedAt => {
+      if (lastSyncedAt && !getSyncStatus().lastSyncedAt) updateSyncStatus({ lastSyncedAt });
+    })
+    .catch(() => {
+      // No offline store in this browser; data is still fetched live
+    });
+
+  window.addEventListener('online', () => {
+    updateSyncStatus({ online: true });
+    void syncOfflineStore();
+  });
+  window.addEventListener('offline', () => updateSyncStatus({ online: false }));
+};
+
+/**
+ * Switch data-source mode and reload every query so no view keeps numbers from the old source
+ */
+export const switchDataSourceMode = async (mode: DataSourceMode): Promise<void> => {
+  setDataSourceMode(mode);
+  resetDataSources();
+  await queryClient.resetQueries();
+};
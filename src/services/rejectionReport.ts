@@ -0,0 +1,60 @@
+// Records that failed schema validation, kept for the session so they can be reviewed instead of vanishing
+export type RejectedEntity = 'Claim' | 'Validator' | 'Node' | 'User' | 'Response';
+
+export interface SchemaIssue {
+  path: string;          // e.g. "validators[2].rating"
+  message: string;
+}
+
+export interface RejectedRecord {
+  key: string;
+  entity: RejectedEntity;
+  source: string;        // request or file the record came from
+  reference: string;     // best identification available, e.g. "claim #12" or "item 3"
+  issues: SchemaIssue[];
+  record: unknown;
+  rejectedAt: Date;
+}
+
+// Older entries are dropped past this so a broken endpoint polled all day cannot grow the log forever
+const MAX_REJECTIONS = 200;
+
+const listeners = new Set<() => void>();
+
+let rejections: RejectedRecord[] = [];
+
+export const getRejections = (): RejectedRecord[] => rejections;
+
+export const subscribeRejections = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+const recordKey = (entity: RejectedEntity, source: string, record: unknown): string => {
+  try {
+    return `${entity}|${source}|${JSON.stringify(record)}`;
+  } catch {
+    return `${entity}|${source}|${String(record)}`;
+  }
+};
+
+/**
+ * Add rejected records to the report; a record rejected again (e.g. on refetch) replaces its earlier entry
+ */
+export const reportRejections = (entries: Array<Omit<RejectedRecord, 'key' | 'rejectedAt'>>): void => {
+  if (entries.length === 0) return;
+  const rejectedAt = new Date();
+  const incoming = entries.map(entry => ({ ...entry, key: recordKey(entry.entity, entry.source, entry.record), rejectedAt }));
+  const incomingKeys = new Set(incoming.map(entry => entry.key));
+  rejections = [...incoming, ...rejections.filter(entry => !incomingKeys.has(entry.key))].slice(0, MAX_REJECTIONS);
+  notify();
+};
+
+export const clearRejections = (): void => {
+  rejections = [];
+  notify();
+};
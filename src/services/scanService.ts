@@ -0,0 +1,185 @@
+import { BrowserMultiFormatReader } from '@zxing/browser';
+import { BarcodeFormat, DecodeHintType } from '@zxing/library';
+import type { Claim, Node } from '../types';
+import {
+  MIN_PARTIAL_NAME_LENGTH,
+  createCompanyResolver,
+  namesShareWords,
+  normalizeCompanyName,
+  type CompanyIdentity,
+} from './companyResolver';
+
+// Barcode formats found on products and company material
+export const SUPPORTED_SCAN_FORMATS = [
+  BarcodeFormat.QR_CODE,
+  BarcodeFormat.EAN_13,
+  BarcodeFormat.EAN_8,
+  BarcodeFormat.UPC_A,
+  BarcodeFormat.UPC_E,
+];
+
+export type ScannedCodeKind = 'GTIN' | 'URL' | 'TEXT';
+
+export interface ScannedCode {
+  raw: string;
+  kind: ScannedCodeKind;
+  gtin?: string;     // GTIN-14, zero padded
+  url?: URL;
+}
+
+export interface ScanMatch {
+  code: ScannedCode;
+  node: Node;                 // matched PRODUCT or ORGANIZATION node
+  organization?: Node;        // owning organization (the node itself for ORGANIZATION matches)
+  subject?: string;           // claim subject of the rated company
+  companySlug?: string;       // slug of the rated company's ESG page
+  claimId?: number;           // rated claim of the company
+}
+
+const SCANNABLE_ENTITY_TYPES: Node['entType'][] = ['PRODUCT', 'ORGANIZATION'];
+
+// GS1 Digital Link paths carry the GTIN after the "01" application identifier
+const DIGITAL_LINK_GTIN = /\/01\/(\d{8,14})(?:\/|$|\?)/;
+
+/**
+ * Create a reader that decodes QR codes and EAN/UPC barcodes entirely in the browser
+ */
+export const createBarcodeReader = (): BrowserMultiFormatReader => {
+  const hints = new Map<DecodeHintType, unknown>();
+  hints.set(DecodeHintType.POSSIBLE_FORMATS, SUPPORTED_SCAN_FORMATS);
+  hints.set(DecodeHintType.TRY_HARDER, true);
+  return new BrowserMultiFormatReader(hints);
+};
+
+/**
+ * Decode a QR code or barcode from an uploaded image file
+ */
+export const decodeImageFile = async (file: File): Promise<string> => {
+  const reader = createBarcodeReader();
+  const url = URL.createObjectURL(file);
+  try {
+    const result = await reader.decodeFromImageUrl(url);
+    return result.getText();
+  } catch {
+    throw new Error('No QR code or barcode could be found in this image');
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const toGtin14 = (digits: string): string => digits.padStart(14, '0');
+
+const parseUrl = (value: string): URL | undefined => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const normalizeHost = (url: URL): string => url.hostname.toLowerCase().replace(/^www\./, '');
+
+/**
+ * Classify a decoded value as a GTIN (EAN/UPC), a URL (incl. GS1 Digital Link) or free text
+ */
+export const parseScannedCode = (raw: string): ScannedCode => {
+  const value = raw.trim();
+
+  if (/^\d{8}$|^\d{12,14}$/.test(value)) {
+    return { raw: value, kind: 'GTIN', gtin: toGtin14(value) };
+  }
+
+  const url = parseUrl(value);
+  if (url) {
+    const digitalLink = url.pathname.match(DIGITAL_LINK_GTIN);
+    return { raw: value, kind: 'URL', url, gtin: digitalLink ? toGtin14(digitalLink[1]) : undefined };
+  }
+
+  return { raw: value, kind: 'TEXT' };
+};
+
+const findNodeForCode = (code: ScannedCode, nodes: Node[]): Node | undefined => {
+  const candidates = nodes.filter(node => SCANNABLE_ENTITY_TYPES.includes(node.entType));
+
+  if (code.gtin) {
+    const byGtin = candidates.find(node => {
+      const nodeCode = parseScannedCode(node.nodeUri);
+      return nodeCode.gtin === code.gtin;
+    });
+    if (byGtin) return byGtin;
+  }
+
+  if (code.url) {
+    const target = code.url.href.replace(/\/$/, '').toLowerCase();
+    const exact = candidates.find(node => node.nodeUri.replace(/\/$/, '').toLowerCase() === target);
+    if (exact) return exact;
+
+    // Fall back to the organization that owns the scanned domain
+    const host = normalizeHost(code.url);
+    return candidates.find(node => {
+      const nodeUrl = parseUrl(node.nodeUri);
+      return node.entType === 'ORGANIZATION' && nodeUrl !== undefined && normalizeHost(nodeUrl) === host;
+    });
+  }
+
+  if (code.kind === 'TEXT') {
+    const raw = code.raw.toLowerCase();
+    const term = normalizeCompanyName(code.raw);
+    const exact = candidates.find(node => node.nodeUri.trim().toLowerCase() === raw || node.name.trim().toLowerCase() === raw)
+      || (term ? candidates.find(node => normalizeCompanyName(node.name) === term) : undefined);
+    if (exact) return exact;
+
+    // Otherwise only whole words of a name match, and never a fragment as short as "ge"
+    return candidates.find(node => {
+      const name = normalizeCompanyName(node.name);
+      return Math.min(name.length, term.length) >= MIN_PARTIAL_NAME_LENGTH && namesShareWords(name, term);
+    });
+  }
+
+  return undefined;
+};
+
+// A product belongs to the organization that publishes it (same web domain)
+const findOwningOrganization = (node: Node, nodes: Node[]): Node | undefined => {
+  if (node.entType === 'ORGANIZATION') return node;
+
+  const productUrl = parseUrl(node.nodeUri);
+  if (!productUrl) return undefined;
+
+  const host = normalizeHost(productUrl);
+  return nodes.find(candidate => {
+    const orgUrl = parseUrl(candidate.nodeUri);
+    return candidate.entType === 'ORGANIZATION' && orgUrl !== undefined && normalizeHost(orgUrl) === host;
+  });
+};
+
+// The organization's canonical company and its rated claim
+const findRatedCompany = (organization: Node, nodes: Node[], claims: Claim[]): { identity: CompanyIdentity; claim: Claim } | undefined => {
+  const resolver = createCompanyResolver(claims, nodes);
+  const identity = resolver.resolveNode(organization);
+  if (!identity) return undefined;
+  const claim = claims.find(candidate => candidate.claim === 'rated' && resolver.keyOf(candidate.subject) === identity.key);
+  return claim ? { identity, claim } : undefined;
+};
+
+/**
+ * Resolve a decoded QR/barcode value to a product or organization node and its rated company
+ */
+export const lookupScannedCode = (raw: string, nodes: Node[], claims: Claim[]): ScanMatch | null => {
+  const code = parseScannedCode(raw);
+  const node = findNodeForCode(code, nodes);
+  if (!node) return null;
+
+  const organization = findOwningOrganization(node, nodes);
+  const rated = organization ? findRatedCompany(organization, nodes, claims) : undefined;
+
+  return {
+    code,
+    node,
+    organization,
+    subject: rated?.identity.subject,
+    companySlug: rated?.identity.slug,
+    claimId: rated?.claim.id,
+  };
+};
@@ -0,0 +1,154 @@
+import type { Claim, ESGCategoryKey } from '../types';
+import type { MethodologyProfile } from './methodology';
+import { ESGCalculationEngine, type ESGMetrics } from './esgCalculations';
+
+// What-if scenarios: hypothetical changes to a company's claims and the methodology weights
+export interface ScenarioClaimOverride {
+  score?: number;        // -1 to 1
+  confidence?: number;   // 0 to 1
+}
+
+export interface HypotheticalClaimInput {
+  aspect: string;
+  score: number;
+  confidence: number;
+  statement?: string;
+}
+
+export interface Scenario {
+  excludedClaimIds: number[];
+  overrides: Record<number, ScenarioClaimOverride>;
+  hypotheticals: Claim[];
+  weights: Record<ESGCategoryKey, number> | null;   // null keeps the methodology's weights
+  pillarShifts: Record<ESGCategoryKey, number>;     // added to pillar scores, -1 to 1 scale
+}
+
+export interface ScenarioDelta {
+  overallPercentage: number;
+  stars: number;
+  gradeSteps: number;    // positive when the scenario grade is better
+  environmentalScore: number;
+  socialScore: number;
+  governanceScore: number;
+  confidenceLevel: number;
+}
+
+export interface ScenarioComparison {
+  baseline: ESGMetrics;
+  scenario: ESGMetrics;
+  delta: ScenarioDelta;
+}
+
+export const EMPTY_SCENARIO: Scenario = {
+  excludedClaimIds: [],
+  overrides: {},
+  hypotheticals: [],
+  weights: null,
+  pillarShifts: { environmental: 0, social: 0, governance: 0 },
+};
+
+// Aspects offered for hypothetical claims; each maps onto a pillar (or all of them for esg-overall)
+export const SCENARIO_ASPECTS: Array<{ value: string; label: string }> = [
+  { value: 'esg-overall', label: 'Overall ESG' },
+  { value: 'environmental', label: 'Environmental' },
+  { value: 'social', label: 'Social' },
+  { value: 'governance', label: 'Governance' },
+];
+
+const GRADE_ORDER = ['F', 'D', 'C', 'B', 'A', 'A+'];
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+/**
+ * Whether the scenario changes anything relative to the baseline
+ */
+export const isScenarioEmpty = (scenario: Scenario): boolean =>
+  scenario.excludedClaimIds.length === 0 &&
+  Object.keys(scenario.overrides).length === 0 &&
+  scenario.hypotheticals.length === 0 &&
+  scenario.weights === null &&
+  Object.values(scenario.pillarShifts).every(shift => shift === 0);
+
+/**
+ * Hypothetical claim for a subject; negative ids never collide with stored claims
+ */
+export const createHypotheticalClaim = (subject: string, input: HypotheticalClaimInput, existing: Claim[]): Claim => {
+  const now = new Date();
+  return {
+    id: Math.min(0, ...existing.map(claim => claim.id)) - 1,
+    subject,
+    claim: 'rated',
+    aspect: input.aspect,
+    score: clamp(input.score, -1, 1),
+    confidence: clamp(input.confidence, 0.01, 1),
+    statement: input.statement || 'Hypothetical claim',
+    author: 'Scenario',
+    createdAt: now,
+    lastUpdatedAt: now,
+  };
+};
+
+/**
+ * Claims as the scenario sees them: exclusions removed, overrides applied, hypotheticals added
+ */
+export const buildScenarioClaims = (claims: Claim[], scenario: Scenario): Claim[] => [
+  ...claims
+    .filter(claim => !scenario.excludedClaimIds.includes(claim.id))
+    .map(claim => {
+      const override = scenario.overrides[claim.id];
+      if (!override) return claim;
+      return {
+        ...claim,
+        score: override.score ?? claim.score,
+        confidence: override.confidence ?? claim.confidence,
+      };
+    }),
+  ...scenario.hypotheticals,
+];
+
+/**
+ * Methodology with the scenario's pillar weights, rescaled to sum to 1
+ */
+export const buildScenarioProfile = (profile: MethodologyProfile, weights: Scenario['weights']): MethodologyProfile => {
+  if (!weights) return profile;
+  const total = weights.environmental + weights.social + weights.governance;
+  if (total <= 0) return profile;
+  return {
+    ...profile,
+    weights: {
+      environmental: weights.environmental / total,
+      social: weights.social / total,
+      governance: weights.governance / total,
+    },
+  };
+};
+
+const gradeIndex = (grade: string) => GRADE_ORDER.indexOf(grade);
+
+/**
+ * Baseline and scenario metrics for a company's claims, with the differences between them
+ */
+export const compareScenario = (claims: Claim[], scenario: Scenario, profile: MethodologyProfile): ScenarioComparison => {
+  const baseline = ESGCalculationEngine.calculateESGMetrics(claims, profile);
+
+  const scenarioProfile = buildScenarioProfile(profile, scenario.weights);
+  const scenarioMetrics = ESGCalculationEngine.applyPillarShifts(
+    ESGCalculationEngine.calculateESGMetrics(buildScenarioClaims(claims, scenario), scenarioProfile),
+    scenario.pillarShifts,
+    scenarioProfile
+  );
+
+  return {
+    baseline,
+    scenario: scenarioMetrics,
+    delta: {
+      overallPercentage: scenarioMetrics.overallPercentage - baseline.overallPercentage,
+      stars: scenarioMetrics.overallStars - baseline.overallStars,
+      gradeSteps: gradeIndex(scenarioMetrics.overallGrade) - gradeIndex(baseline.overallGrade),
+      environmentalScore: scenarioMetrics.environmentalScore - baseline.environmentalScore,
+      socialScore: scenarioMetrics.socialScore - baseline.socialScore,
+      governanceScore: scenarioMetrics.governanceScore - baseline.governanceScore,
+      confidenceLevel: scenarioMetrics.confidenceLevel - baseline.confidenceLevel,
+    },
+  };
+};
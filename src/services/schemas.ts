@@ -0,0 +1,345 @@
+import type { Claim, LiveUpdateEvent, LiveUpdateEventType, Node, Page, User, Validator } from '../types';
+import { reportRejections, type RejectedEntity, type SchemaIssue } from './rejectionReport';
+
+// Runtime schemas for backend and mock records: check shapes, coerce dates and numbers, report failures
+export type ParseResult<T> =
+  | { ok: true; value: T; issues: SchemaIssue[] }     // issues here are nested records that were rejected
+  | { ok: false; issues: SchemaIssue[] };
+
+type FieldParser<T> = (value: unknown, path: string, issues: SchemaIssue[]) => T | undefined;
+
+type Shape<T> = { [K in keyof T]-?: FieldParser<T[K]> };
+
+const isMissing = (value: unknown): value is null | undefined => value === null || value === undefined;
+
+const fail = (issues: SchemaIssue[], path: string, message: string): undefined => {
+  issues.push({ path, message });
+  return undefined;
+};
+
+const describe = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'an array' : typeof value;
+
+// Field parsers; missing values pass as undefined and `required` rejects them
+
+const string: FieldParser<string> = (value, path, issues) => {
+  if (isMissing(value)) return undefined;
+  return typeof value === 'string' ? value : fail(issues, path, `expected text, got ${describe(value)}`);
+};
+
+const number: FieldParser<number> = (value, path, issues) => {
+  if (isMissing(value)) return undefined;
+  const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed)
+    ? parsed
+    : fail(issues, path, `expected a number, got ${JSON.stringify(value)}`);
+};
+
+const integer: FieldParser<number> = (value, path, issues) => {
+  const parsed = number(value, path, issues);
+  if (parsed === undefined || Number.isInteger(parsed)) return parsed;
+  return fail(issues, path, `expected a whole number, got ${parsed}`);
+};
+
+const boolean: FieldParser<boolean> = (value, path, issues) => {
+  if (isMissing(value)) return undefined;
+  if (typeof value === 'boolean') return value;
+  if (value === 'true' || value === 'false') return value === 'true';
+  return fail(issues, path, `expected true or false, got ${JSON.stringify(value)}`);
+};
+
+// ISO strings and epoch milliseconds become Dates
+const date: FieldParser<Date> = (value, path, issues) => {
+  if (isMissing(value) || value === '') return undefined;
+  const parsed = value instanceof Date ? value
+    : typeof value === 'string' || typeof value === 'number' ? new Date(value)
+    : null;
+  return parsed && !Number.isNaN(parsed.getTime())
+    ? parsed
+    : fail(issues, path, `expected a date, got ${JSON.stringify(value)}`);
+};
+
+const oneOf = <T extends string>(values: readonly T[]): FieldParser<T> => (value, path, issues) => {
+  if (isMissing(value)) return undefined;
+  return values.includes(value as T)
+    ? value as T
+    : fail(issues, path, `expected one of ${values.join(', ')}, got ${JSON.stringify(value)}`);
+};
+
+const required = <T>(parser: FieldParser<T>): FieldParser<T> => (value, path, issues) => {
+  if (isMissing(value)) return fail(issues, path, 'is required');
+  return parser(value, path, issues);
+};
+
+const parseObject = <T>(raw: unknown, shape: Shape<T>, path: string = ''): ParseResult<T> => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { ok: false, issues: [{ path: path || '(record)', message: `expected an object, got ${describe(raw)}` }] };
+  }
+
+  const source = raw as Record<string, unknown>;
+  const issues: SchemaIssue[] = [];
+  const value: Record<string, unknown> = {};
+  (Object.keys(shape) as Array<keyof T & string>).forEach(key => {
+    const parsed = shape[key](source[key], path ? `${path}.${key}` : key, issues);
+    if (parsed !== undefined) value[key] = parsed;
+  });
+
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value: value as T, issues: [] };
+};
+
+export const HOW_KNOWN: ReadonlyArray<NonNullable<Claim['howKnown']>> = [
+  'FIRST_HAND', 'SECOND_HAND', 'WEB_DOCUMENT', 'VERIFIED_LOGIN', 'BLOCKCHAIN', 'SIGNED_DOCUMENT',
+  'PHYSICAL_DOCUMENT', 'INTEGRATION', 'RESEARCH', 'OPINION', 'OTHER',
+];
+const ISSUER_ID_TYPES: ReadonlyArray<NonNullable<Claim['issuerIdType']>> = ['DID', 'ETH', 'PUBKEY', 'URL'];
+const NODE_TYPES: ReadonlyArray<Node['entType']> = [
+  'PERSON', 'ORGANIZATION', 'CLAIM', 'IMPACT', 'EVENT', 'DOCUMENT', 'PRODUCT', 'PLACE', 'UNKNOWN', 'OTHER', 'CREDENTIAL',
+];
+const AUTH_TYPES: ReadonlyArray<User['authType']> = ['PASSWORD', 'OAUTH', 'GITHUB'];
+
+const validatorShape: Shape<Validator> = {
+  name: required(string),
+  role: required(string),
+  rating: required(number),
+  statement: required(string),
+  verified: required(boolean),
+  organization: required(string),
+  createdAt: date,
+};
+
+export const parseValidator = (raw: unknown, path: string = ''): ParseResult<Validator> =>
+  parseObject(raw, validatorShape, path);
+
+// Validators are parsed separately so one bad endorsement does not reject its whole claim
+const claimShape: Shape<Omit<Claim, 'validators'>> = {
+  id: required(integer),
+  subject: required(string),
+  claim: required(string),
+  object: string,
+  statement: string,
+  effectiveDate: date,
+  sourceURI: string,
+  howKnown: oneOf(HOW_KNOWN),
+  dateObserved: date,
+  digestMultibase: string,
+  author: string,
+  curator: string,
+  aspect: string,
+  score: number,
+  stars: number,
+  amt: number,
+  unit: string,
+  howMeasured: string,
+  intendedAudience: string,
+  respondAt: string,
+  confidence: number,
+  issuerId: string,
+  issuerIdType: oneOf(ISSUER_ID_TYPES),
+  claimAddress: string,
+  proof: string,
+  createdAt: required(date),
+  lastUpdatedAt: date,
+};
+
+/**
+ * Parse a claim; malformed validators are dropped from it and listed in `issues`
+ */
+export const parseClaim = (raw: unknown): ParseResult<Claim> => {
+  const result = parseObject(raw, claimShape);
+  if (!result.ok) return result;
+
+  // Records that predate lastUpdatedAt tracking count as never updated
+  const claim: Claim = { ...result.value, lastUpdatedAt: result.value.lastUpdatedAt ?? result.value.createdAt };
+  const rawValidators = (raw as { validators?: unknown }).validators;
+  if (isMissing(rawValidators)) return { ok: true, value: claim, issues: [] };
+  if (!Array.isArray(rawValidators)) {
+    return { ok: false, issues: [{ path: 'validators', message: `expected a list, got ${describe(rawValidators)}` }] };
+  }
+
+  const issues: SchemaIssue[] = [];
+  const validators: Validator[] = [];
+  rawValidators.forEach((rawValidator, index) => {
+    const parsed = parseValidator(rawValidator, `validators[${index}]`);
+    if (parsed.ok) {
+      validators.push(parsed.value);
+    } else {
+      issues.push(...parsed.issues);
+    }
+  });
+  return { ok: true, value: { ...claim, validators }, issues };
+};
+
+const nodeShape: Shape<Node> = {
+  id: required(integer),
+  nodeUri: required(string),
+  name: required(string),
+  entType: required(oneOf(NODE_TYPES)),
+  descrip: string,
+  image: string,
+  thumbnail: string,
+};
+
+export const parseNode = (raw: unknown): ParseResult<Node> => {
+  const result = parseObject(raw, nodeShape);
+  // Nodes without a description are common; the UI expects a string
+  return result.ok ? { ...result, value: { ...result.value, descrip: result.value.descrip ?? '' } } : result;
+};
+
+const userShape: Shape<User> = {
+  id: required(integer),
+  email: string,
+  passwordHash: string,
+  name: string,
+  authType: required(oneOf(AUTH_TYPES)),
+  authProviderId: string,
+};
+
+export const parseUser = (raw: unknown): ParseResult<User> => parseObject(raw, userShape);
+
+const referenceOf = (entity: RejectedEntity, raw: unknown, index?: number): string => {
+  const id = (raw as { id?: unknown } | null)?.id;
+  if (typeof id === 'number' || typeof id === 'string') return `${entity.toLowerCase()} #${id}`;
+  return index !== undefined ? `item ${index + 1}` : 'record';
+};
+
+// Every nested issue path starts with "validators[i]", so issues are grouped per validator
+const reportNestedValidators = (claim: Claim, issues: SchemaIssue[], raw: unknown, source: string) => {
+  const byIndex = new Map<number, SchemaIssue[]>();
+  issues.forEach(issue => {
+    const index = Number(issue.path.match(/^validators\[(\d+)\]/)?.[1] ?? -1);
+    byIndex.set(index, [...(byIndex.get(index) ?? []), issue]);
+  });
+  const rawValidators = (raw as { validators: unknown[] }).validators;
+  reportRejections(Array.from(byIndex.entries()).map(([index, validatorIssues]) => ({
+    entity: 'Validator' as const,
+    source,
+    reference: `validator ${index + 1} on claim #${claim.id}`,
+    issues: validatorIssues,
+    record: rawValidators[index],
+  })));
+};
+
+/**
+ * Parse one record, reporting it when it is rejected; throws so callers treat it as a failed request
+ */
+export const parseRecord = <T>(
+  entity: RejectedEntity,
+  parse: (raw: unknown) => ParseResult<T>,
+  raw: unknown,
+  source: string
+): T => {
+  const result = parse(raw);
+  if (!result.ok) {
+    reportRejections([{ entity, source, reference: referenceOf(entity, raw), issues: result.issues, record: raw }]);
+    throw new Error(`Malformed ${entity.toLowerCase()} from ${source}: ${result.issues[0].path} ${result.issues[0].message}`);
+  }
+  if (entity === 'Claim' && result.issues.length > 0) {
+    reportNestedValidators(result.value as Claim, result.issues, raw, source);
+  }
+  return result.value;
+};
+
+/**
+ * Parse a list response (a bare array or a `{ claims: [] }` / `{ nodes: [] }` wrapper).
+ * Valid records are returned; malformed ones go to the rejection report.
+ */
+export const parseRecordList = <T>(
+  entity: RejectedEntity,
+  parse: (raw: unknown) => ParseResult<T>,
+  data: unknown,
+  source: string,
+  wrapperKey?: string
+): T[] => {
+  const wrapped = wrapperKey && data && typeof data === 'object' ? (data as Record<string, unknown>)[wrapperKey] : undefined;
+  const items = Array.isArray(data) ? data : Array.isArray(wrapped) ? wrapped : null;
+  if (!items) {
+    reportRejections([{
+      entity: 'Response',
+      source,
+      reference: 'response body',
+      issues: [{ path: '(response)', message: `expected a list of ${entity.toLowerCase()}s, got ${describe(data)}` }],
+      record: data,
+    }]);
+    throw new Error(`Invalid response format from ${source}: expected a list of ${entity.toLowerCase()}s`);
+  }
+
+  const values: T[] = [];
+  const rejected: Parameters<typeof reportRejections>[0] = [];
+  items.forEach((raw, index) => {
+    const result = parse(raw);
+    if (!result.ok) {
+      rejected.push({ entity, source, reference: referenceOf(entity, raw, index), issues: result.issues, record: raw });
+      return;
+    }
+    if (entity === 'Claim' && result.issues.length > 0) {
+      reportNestedValidators(result.value as Claim, result.issues, raw, source);
+    }
+    values.push(result.value);
+  });
+  reportRejections(rejected);
+  return values;
+};
+
+export const parseClaimList = (data: unknown, source: string): Claim[] =>
+  parseRecordList('Claim', parseClaim, data, source, 'claims');
+
+export const parseNodeList = (data: unknown, source: string): Node[] =>
+  parseRecordList('Node', parseNode, data, source, 'nodes');
+
+/**
+ * Parse one page of a paginated list: `{ items: [], nextCursor, total }`
+ */
+export const parseRecordPage = <T>(
+  entity: RejectedEntity,
+  parse: (raw: unknown) => ParseResult<T>,
+  data: unknown,
+  source: string
+): Page<T> => {
+  const envelope = (data && typeof data === 'object' && !Array.isArray(data) ? data : {}) as Record<string, unknown>;
+  const issues: SchemaIssue[] = [];
+  const nextCursor = isMissing(envelope.nextCursor) || envelope.nextCursor === ''
+    ? null
+    : string(String(envelope.nextCursor), 'nextCursor', issues) ?? null;
+  const total = integer(envelope.total, 'total', issues);
+
+  if (!Array.isArray(envelope.items) || issues.length > 0) {
+    reportRejections([{
+      entity: 'Response',
+      source,
+      reference: 'page envelope',
+      issues: Array.isArray(envelope.items)
+        ? issues
+        : [...issues, { path: 'items', message: `expected a list of ${entity.toLowerCase()}s, got ${describe(envelope.items)}` }],
+      record: data,
+    }]);
+    throw new Error(`Invalid page format from ${source}`);
+  }
+
+  const items = parseRecordList(entity, parse, envelope.items, source);
+  // Without a total the best estimate is what has been seen so far
+  return { items, nextCursor, total: total ?? items.length };
+};
+
+export const parseClaimPage = (data: unknown, source: string): Page<Claim> =>
+  parseRecordPage('Claim', parseClaim, data, source);
+
+export const parseNodePage = (data: unknown, source: string): Page<Node> =>
+  parseRecordPage('Node', parseNode, data, source);
+
+/**
+ * Parse a live-update event body: a claim for claim events, `{ claimId, validator }` for validations
+ */
+export const parseLiveUpdateEvent = (type: LiveUpdateEventType, data: unknown, source: string): LiveUpdateEvent => {
+  if (type !== 'validation-added') {
+    return { type, claim: parseRecord('Claim', parseClaim, data, source) };
+  }
+
+  const envelope = (data && typeof data === 'object' && !Array.isArray(data) ? data : {}) as Record<string, unknown>;
+  const issues: SchemaIssue[] = [];
+  const claimId = required(integer)(envelope.claimId, 'claimId', issues);
+  if (claimId === undefined) {
+    reportRejections([{ entity: 'Response', source, reference: `${type} event`, issues, record: data }]);
+    throw new Error(`Invalid ${type} event from ${source}`);
+  }
+  return { type, claimId, validator: parseRecord('Validator', parseValidator, envelope.validator, source) };
+};
@@ -0,0 +1,11 @@
+// Register the app-shell service worker (public/sw.js) that makes the app installable and usable offline
+export const registerServiceWorker = (): void => {
+  // Dev builds serve unbundled modules that should never be cached
+  if (!import.meta.env.PROD || typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => {
+      console.warn('Service worker registration failed:', err);
+    });
+  });
+};
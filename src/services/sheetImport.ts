@@ -0,0 +1,54 @@
+import * as XLSX from 'xlsx';
+
+// Reading uploaded CSV and XLSX files that list one record per row, with or without a header row
+export interface SheetRow {
+  row: number;          // 1-based row number in the uploaded sheet
+  cells: string[];
+}
+
+export interface SheetTable {
+  header: string[] | null;  // null when the first row is data
+  rows: SheetRow[];
+}
+
+export const SHEET_FILE_ACCEPT = '.csv,.xlsx,.xls';
+
+/**
+ * Index of the first column whose header is one of the names, in order of preference; -1 when none is
+ */
+export const findSheetColumn = (header: string[], names: string[]): number => {
+  const normalized = header.map(cell => cell.toLowerCase().trim());
+  for (const name of names) {
+    const index = normalized.indexOf(name);
+    if (index !== -1) return index;
+  }
+  return -1;
+};
+
+/**
+ * Read the first sheet of a CSV or XLSX file. The first row is a header when it names
+ * one of the key columns; otherwise every row is data.
+ */
+export const readSheetTable = async (file: File, keyHeaders: string[]): Promise<SheetTable> => {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const sheetName = workbook.SheetNames[0];
+  if (!sheetName) {
+    throw new Error('The uploaded file does not contain any sheets');
+  }
+
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], {
+    header: 1,
+    raw: false,
+    blankrows: true,
+    defval: '',
+  }).map(cells => cells.map(cell => String(cell ?? '')));
+
+  const firstRow = rows[0] ?? [];
+  const hasHeader = findSheetColumn(firstRow, keyHeaders) !== -1;
+  const firstDataRow = hasHeader ? 1 : 0;
+
+  return {
+    header: hasHeader ? firstRow : null,
+    rows: rows.slice(firstDataRow).map((cells, index) => ({ row: firstDataRow + index + 1, cells })),
+  };
+};
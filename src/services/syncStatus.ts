@@ -0,0 +1,59 @@
+// Where the data on screen came from and when the offline store last synced with the backend
+export type DataSource = 'network' | 'offline-store' | 'mock';
+
+export interface SyncStatus {
+  online: boolean;                // the backend answered the last request
+  source: DataSource | null;      // least-live source behind the data on screen; null until a fetch settles
+  sources: Record<string, DataSource>;   // by request, e.g. "rated claims"
+  lastSyncedAt: Date | null;
+  syncing: boolean;
+  lastError: string | null;
+}
+
+const listeners = new Set<() => void>();
+
+let status: SyncStatus = {
+  online: typeof navigator === 'undefined' ? true : navigator.onLine,
+  source: null,
+  sources: {},
+  lastSyncedAt: null,
+  syncing: false,
+  lastError: null,
+};
+
+export const getSyncStatus = (): SyncStatus => status;
+
+export const subscribeSyncStatus = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const updateSyncStatus = (changes: Partial<SyncStatus>): void => {
+  status = { ...status, ...changes };
+  listeners.forEach(listener => listener());
+};
+
+// Sample data outranks the offline copy, which outranks live data, so the banner never overstates freshness
+const SOURCE_RANK: DataSource[] = ['network', 'offline-store', 'mock'];
+
+/**
+ * Record which source answered a request
+ */
+export const recordDataSource = (request: string, source: DataSource): void => {
+  const sources = { ...status.sources, [request]: source };
+  const ranked = Object.values(sources).sort((a, b) => SOURCE_RANK.indexOf(b) - SOURCE_RANK.indexOf(a));
+  updateSyncStatus({ sources, source: ranked[0] ?? null });
+};
+
+/**
+ * Forget recorded sources, e.g. after switching data-source mode
+ */
+export const resetDataSources = (): void => {
+  updateSyncStatus({ sources: {}, source: null });
+};
+
+// navigator.onLine is only trusted when it says offline; "online" can still mean the backend is unreachable
+export const isBrowserOffline = (): boolean =>
+  typeof navigator !== 'undefined' && navigator.onLine === false;
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { escapeSpreadsheetCell, escapeSpreadsheetRecords, formatCell, type TableColumn } from './tableExport';
+
+describe('escapeSpreadsheetCell', () => {
+  it('prefixes text that spreadsheets would run as a formula', () => {
+    expect(escapeSpreadsheetCell('=HYPERLINK("http://evil.example")')).toBe('\'=HYPERLINK("http://evil.example")');
+    expect(escapeSpreadsheetCell('+1')).toBe('\'+1');
+    expect(escapeSpreadsheetCell('-cmd')).toBe('\'-cmd');
+    expect(escapeSpreadsheetCell('@SUM(A1)')).toBe('\'@SUM(A1)');
+    expect(escapeSpreadsheetCell('\tTab')).toBe('\'\tTab');
+  });
+
+  it('leaves plain text and non-text values alone', () => {
+    expect(escapeSpreadsheetCell('Tesla Motors')).toBe('Tesla Motors');
+    expect(escapeSpreadsheetCell(-5)).toBe(-5);
+    expect(escapeSpreadsheetCell(null)).toBeNull();
+  });
+});
+
+describe('escapeSpreadsheetRecords', () => {
+  it('escapes every text cell and keeps numbers', () => {
+    expect(escapeSpreadsheetRecords([{ Company: '=cmd', Score: -0.5 }])).toEqual([{ Company: '\'=cmd', Score: -0.5 }]);
+  });
+});
+
+describe('formatCell', () => {
+  const column = (format?: TableColumn<{ value: string | boolean | null }>['format']): TableColumn<{ value: string | boolean | null }> => ({
+    id: 'value',
+    header: 'Value',
+    value: row => row.value,
+    format,
+  });
+
+  it('renders empty and boolean values', () => {
+    expect(formatCell(column(), { value: null })).toBe('—');
+    expect(formatCell(column(), { value: true })).toBe('Yes');
+  });
+
+  it('uses the column format when there is one', () => {
+    expect(formatCell(column(value => `[${value}]`), { value: 'x' })).toBe('[x]');
+  });
+});
@@ -0,0 +1,193 @@
+import * as XLSX from 'xlsx';
+import type { Claim, Validator } from '../types';
+import { transformUtils } from './utils';
+import { HOW_KNOWN_LABELS, SORT_FIELD_LABELS, type CompanyListEntry } from './companyFilters';
+
+// Shared column definitions for on-screen tables and CSV/JSON/XLSX exports
+export type ExportValue = string | number | boolean | null;
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export interface TableColumn<Row> {
+  id: string;                                  // JSON key
+  header: string;                              // table and spreadsheet header
+  value(row: Row): ExportValue;                // raw value written to exports
+  format?(value: ExportValue): string;         // on-screen rendering; defaults to the raw value
+  align?: 'left' | 'right' | 'center';
+  onScreen?: boolean;                          // shown in on-screen tables; every column is exported
+}
+
+export interface ExportTable<Row = unknown> {
+  name: string;                                // sheet name, CSV file suffix and JSON key
+  rows: Row[];
+  columns: TableColumn<Row>[];
+}
+
+export interface ClaimValidatorRow {
+  claim: Claim;
+  validator: Validator;
+}
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  xlsx: 'Excel (XLSX)',
+};
+
+const round = (value: number, digits: number = 2): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const toIsoDate = (date: Date | string | undefined | null): string | null =>
+  date ? new Date(date).toISOString() : null;
+
+const asPercent = (value: ExportValue) => typeof value === 'number' ? `${Math.round(value)}%` : '—';
+const asNumber = (value: ExportValue) => typeof value === 'number' ? `${Math.round(value)}` : '—';
+const asDate = (value: ExportValue) => typeof value === 'string' ? transformUtils.formatDate(value) : '—';
+
+export const COMPANY_COLUMNS: TableColumn<CompanyListEntry>[] = [
+  { id: 'company', header: 'Company', value: entry => transformUtils.extractCompanyName(entry.company.subject), onScreen: true },
+  { id: 'subject', header: 'Subject', value: entry => entry.company.subject },
+  { id: 'companyKey', header: 'Company key', value: entry => entry.company.companyKey },
+  { id: 'grade', header: 'Grade', value: entry => entry.esgMetrics.overallGrade, align: 'center', onScreen: true },
+  { id: 'stars', header: SORT_FIELD_LABELS.overallStars, value: entry => entry.esgMetrics.overallStars, align: 'center', onScreen: true },
+  { id: 'overallScore', header: SORT_FIELD_LABELS.overallScore, value: entry => round(entry.esgMetrics.overallScore, 3), align: 'right' },
+  { id: 'overallPercentage', header: SORT_FIELD_LABELS.overallPercentage, value: entry => round(entry.esgMetrics.overallPercentage), format: asPercent, align: 'right', onScreen: true },
+  { id: 'environmentalScore', header: SORT_FIELD_LABELS.environmentalScore, value: entry => round(entry.esgMetrics.environmentalScore), format: asNumber, align: 'right', onScreen: true },
+  { id: 'socialScore', header: SORT_FIELD_LABELS.socialScore, value: entry => round(entry.esgMetrics.socialScore), format: asNumber, align: 'right', onScreen: true },
+  { id: 'governanceScore', header: SORT_FIELD_LABELS.governanceScore, value: entry => round(entry.esgMetrics.governanceScore), format: asNumber, align: 'right', onScreen: true },
+  { id: 'confidenceLevel', header: SORT_FIELD_LABELS.confidenceLevel, value: entry => round(entry.esgMetrics.confidenceLevel, 3), format: value => typeof value === 'number' ? `${Math.round(value * 100)}%` : '—', align: 'right', onScreen: true },
+  { id: 'industryPercentile', header: SORT_FIELD_LABELS.industryPercentile, value: entry => round(entry.esgMetrics.industryPercentile), format: asNumber, align: 'right' },
+  { id: 'totalValidations', header: SORT_FIELD_LABELS.totalValidations, value: entry => entry.esgMetrics.totalValidations, align: 'right', onScreen: true },
+  { id: 'endorsements', header: SORT_FIELD_LABELS.endorsements, value: entry => entry.esgMetrics.endorsements, align: 'right' },
+  { id: 'rejections', header: SORT_FIELD_LABELS.rejections, value: entry => entry.esgMetrics.rejections, align: 'right' },
+  { id: 'averageRating', header: SORT_FIELD_LABELS.averageRating, value: entry => round(entry.esgMetrics.averageRating), align: 'right' },
+  { id: 'endorsementRate', header: SORT_FIELD_LABELS.endorsementRate, value: entry => round(entry.esgMetrics.endorsementRate), format: asPercent, align: 'right' },
+  { id: 'consensusPercentage', header: SORT_FIELD_LABELS.consensusPercentage, value: entry => round(entry.esgMetrics.consensusPercentage), format: asPercent, align: 'right' },
+  { id: 'sources', header: 'Sources', value: entry => entry.sources.map(source => HOW_KNOWN_LABELS[source]).join('; ') },
+  { id: 'lastClaimDate', header: 'Last claim', value: entry => toIsoDate(entry.lastClaimDate), format: asDate, onScreen: true },
+  { id: 'lastUpdated', header: 'Last updated', value: entry => toIsoDate(entry.esgMetrics.lastUpdated), format: asDate },
+  { id: 'methodologyId', header: 'Methodology', value: entry => entry.esgMetrics.methodologyId },
+  { id: 'methodologyVersion', header: 'Methodology version', value: entry => entry.esgMetrics.methodologyVersion },
+  { id: 'partial', header: 'Partial data', value: entry => entry.company.partial ? 'Yes' : 'No' },
+];
+
+export const CLAIM_COLUMNS: TableColumn<Claim>[] = [
+  { id: 'id', header: 'Claim ID', value: claim => claim.id },
+  { id: 'subject', header: 'Subject', value: claim => claim.subject },
+  { id: 'claim', header: 'Claim', value: claim => claim.claim },
+  { id: 'aspect', header: 'Aspect', value: claim => claim.aspect ?? null },
+  { id: 'score', header: 'Score', value: claim => claim.score ?? null },
+  { id: 'stars', header: 'Stars', value: claim => claim.stars ?? null },
+  { id: 'confidence', header: 'Confidence', value: claim => claim.confidence ?? null },
+  { id: 'statement', header: 'Statement', value: claim => claim.statement ?? null },
+  { id: 'object', header: 'Object', value: claim => claim.object ?? null },
+  { id: 'amt', header: 'Amount', value: claim => claim.amt ?? null },
+  { id: 'unit', header: 'Unit', value: claim => claim.unit ?? null },
+  { id: 'howMeasured', header: 'How measured', value: claim => claim.howMeasured ?? null },
+  { id: 'howKnown', header: 'How known', value: claim => claim.howKnown ? HOW_KNOWN_LABELS[claim.howKnown] : null },
+  { id: 'sourceURI', header: 'Source URI', value: claim => claim.sourceURI ?? null },
+  { id: 'author', header: 'Author', value: claim => claim.author ?? null },
+  { id: 'curator', header: 'Curator', value: claim => claim.curator ?? null },
+  { id: 'issuerId', header: 'Issuer', value: claim => claim.issuerId ?? null },
+  { id: 'effectiveDate', header: 'Effective date', value: claim => toIsoDate(claim.effectiveDate) },
+  { id: 'dateObserved', header: 'Date observed', value: claim => toIsoDate(claim.dateObserved) },
+  { id: 'createdAt', header: 'Created', value: claim => toIsoDate(claim.createdAt) },
+  { id: 'validators', header: 'Validators', value: claim => claim.validators?.length ?? 0 },
+];
+
+export const VALIDATOR_COLUMNS: TableColumn<ClaimValidatorRow>[] = [
+  { id: 'claimId', header: 'Claim ID', value: row => row.claim.id },
+  { id: 'aspect', header: 'Aspect', value: row => row.claim.aspect ?? null },
+  { id: 'name', header: 'Validator', value: row => row.validator.name },
+  { id: 'role', header: 'Role', value: row => row.validator.role },
+  { id: 'organization', header: 'Organization', value: row => row.validator.organization },
+  { id: 'rating', header: 'Rating', value: row => row.validator.rating },
+  { id: 'verified', header: 'Verified', value: row => row.validator.verified },
+  { id: 'statement', header: 'Statement', value: row => row.validator.statement },
+  { id: 'createdAt', header: 'Submitted', value: row => toIsoDate(row.validator.createdAt ?? row.claim.createdAt) },
+];
+
+/**
+ * One row per validator across a set of claims
+ */
+export const toValidatorRows = (claims: Claim[]): ClaimValidatorRow[] =>
+  claims.flatMap(claim => (claim.validators || []).map(validator => ({ claim, validator })));
+
+/**
+ * Display text for a cell, using the column's screen format when it has one
+ */
+export const formatCell = <Row>(column: TableColumn<Row>, row: Row): string => {
+  const value = column.value(row);
+  if (column.format) return column.format(value);
+  if (value === null) return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+const toRecords = <Row>(table: ExportTable<Row>, key: 'id' | 'header') =>
+  table.rows.map(row => Object.fromEntries(table.columns.map(column => [column[key], column.value(row)])));
+
+// Some browsers start the download after click() returns, so the blob URL has to outlive it
+const REVOKE_DELAY_MS = 1000;
+
+/**
+ * Save text content as a file through a temporary link
+ */
+export const downloadFile = (content: string, type: string, fileName: string): void => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
+
+// Text that spreadsheet apps would run as a formula (CSV injection)
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+/**
+ * Prefix text cells that start like a formula with ' so spreadsheets show them as text
+ */
+export const escapeSpreadsheetCell = <Value>(value: Value): Value | string =>
+  typeof value === 'string' && FORMULA_TRIGGER.test(value) ? `'${value}` : value;
+
+/**
+ * Escape every text cell of the records passed to json_to_sheet; numbers are left as numbers
+ */
+export const escapeSpreadsheetRecords = <T extends object>(records: T[]): T[] =>
+  records.map(record => Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [key, escapeSpreadsheetCell(value)])
+  ) as T);
+
+const buildSheet = <Row>(table: ExportTable<Row>) =>
+  XLSX.utils.json_to_sheet(escapeSpreadsheetRecords(toRecords(table, 'header')), {
+    header: table.columns.map(column => column.header),
+  });
+
+/**
+ * Download one or more tables. XLSX puts each table on its own sheet, CSV writes one file
+ * per table and JSON writes a single file keyed by table name (or a plain array for one table).
+ */
+export const exportTables = (tables: ExportTable[], format: ExportFormat, baseName: string): void => {
+  if (format === 'json') {
+    const content = tables.length === 1
+      ? toRecords(tables[0], 'id')
+      : Object.fromEntries(tables.map(table => [table.name, toRecords(table, 'id')]));
+    downloadFile(JSON.stringify(content, null, 2), 'application/json', `${baseName}.json`);
+    return;
+  }
+
+  if (format === 'csv') {
+    tables.forEach(table => {
+      const fileName = tables.length === 1 ? `${baseName}.csv` : `${baseName}-${table.name}.csv`;
+      downloadFile(XLSX.utils.sheet_to_csv(buildSheet(table)), 'text/csv;charset=utf-8', fileName);
+    });
+    return;
+  }
+
+  const workbook = XLSX.utils.book_new();
+  tables.forEach(table => XLSX.utils.book_append_sheet(workbook, buildSheet(table), table.name.slice(0, 31)));
+  XLSX.writeFile(workbook, `${baseName}.xlsx`, { bookType: 'xlsx' });
+};
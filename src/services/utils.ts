@@ -1,11 +1,15 @@
-import type { Claim, CompanyCardData, LoadingState, ApiError } from '../types';
+import type { Claim, CompanyCardData, LoadingState, ApiError, NewClaim, ClaimValidationErrors, NewValidation, NewValidationErrors, Validator } from '../types';
 import { calculateGrade } from '../theme/theme';
+import { companyKeyFromSubject, companySlugFromSubject } from './companyResolver';
+import { parseClaim } from './schemas';
 
 // Data transformation utilities
 export const transformUtils = {
   // Convert Claim to CompanyCardData
   claimToCompanyCard: (claim: Claim): CompanyCardData => ({
     id: claim.id,
+    companyKey: companyKeyFromSubject(claim.subject),
+    slug: companySlugFromSubject(claim.subject),
     subject: claim.subject,
     stars: claim.stars || 0,
     score: claim.score || 0,
@@ -58,6 +62,14 @@ export const transformUtils = {
     );
   },
 
+  // Return a copy of the claims with a validator appended to the given claim
+  addValidatorToClaims: (claims: Claim[], claimId: number, validator: Validator): Claim[] => {
+    return claims.map(claim => claim.id === claimId
+      ? { ...claim, validators: [...(claim.validators || []), validator] }
+      : claim
+    );
+  },
+
   // Group claims by aspect
   groupClaimsByAspect: (claims: Claim[]): Record<string, Claim[]> => {
     return claims.reduce((groups, claim) => {
@@ -131,13 +143,8 @@ export const loadingUtils = {
 
 // Validation utilities
 export const validationUtils = {
-  // Validate claim data
-  isValidClaim: (claim: any): claim is Claim => {
-    return claim && 
-           typeof claim.id === 'number' &&
-           typeof claim.subject === 'string' &&
-           typeof claim.claim === 'string';
-  },
+  // Validate claim data against the full Claim schema
+  isValidClaim: (claim: unknown): claim is Claim => parseClaim(claim).ok,
 
   // Validate score range
   isValidScore: (score: number): boolean => {
@@ -154,6 +161,63 @@ export const validationUtils = {
     return confidence >= 0 && confidence <= 1;
   },
 
+  // Validate a new claim before publishing; returns an error message per invalid field
+  validateNewClaim: (claim: NewClaim): ClaimValidationErrors => {
+    const errors: ClaimValidationErrors = {};
+
+    if (!claim.subject.trim()) errors.subject = 'Company is required';
+    if (!claim.claim.trim()) errors.claim = 'Claim type is required';
+    if (claim.claim === 'rated' && !claim.aspect?.trim()) errors.aspect = 'Aspect is required for ratings';
+
+    if (claim.score === undefined || Number.isNaN(claim.score)) {
+      errors.score = 'Score is required';
+    } else if (!validationUtils.isValidScore(claim.score)) {
+      errors.score = 'Score must be between -1 and 1';
+    }
+
+    if (claim.stars !== undefined && !validationUtils.isValidStars(claim.stars)) {
+      errors.stars = 'Stars must be a whole number from 0 to 5';
+    }
+    if (claim.confidence !== undefined && !validationUtils.isValidConfidence(claim.confidence)) {
+      errors.confidence = 'Confidence must be between 0 and 1';
+    }
+
+    if (!claim.statement?.trim()) errors.statement = 'A statement explaining the rating is required';
+    if (!claim.howKnown) errors.howKnown = 'Select how this was known';
+
+    if (claim.sourceURI) {
+      try {
+        new URL(claim.sourceURI);
+      } catch {
+        errors.sourceURI = 'Source must be a valid URL';
+      }
+    }
+
+    if (claim.amt !== undefined && Number.isNaN(claim.amt)) errors.amt = 'Amount must be a number';
+    if (claim.amt !== undefined && !claim.unit?.trim()) errors.unit = 'Unit is required when an amount is given';
+
+    if (claim.effectiveDate && claim.effectiveDate.getTime() > Date.now()) {
+      errors.effectiveDate = 'Effective date cannot be in the future';
+    }
+
+    return errors;
+  },
+
+  // Validate an endorsement or dispute before submitting it
+  validateNewValidation: (validation: NewValidation): NewValidationErrors => {
+    const errors: NewValidationErrors = {};
+
+    if (!validation.name.trim()) errors.name = 'Name is required';
+    if (!validation.role.trim()) errors.role = 'Role is required';
+    if (!validation.organization.trim()) errors.organization = 'Organization is required';
+    if (!Number.isInteger(validation.rating) || validation.rating < 1 || validation.rating > 5) {
+      errors.rating = 'Rating must be from 1 to 5 stars';
+    }
+    if (!validation.statement.trim()) errors.statement = 'A statement is required';
+
+    return errors;
+  },
+
   // Validate ESG score consistency between dashboard and details
   validateScoreConsistency: (dashboardScore: number, detailsScore: number, companyName: string): boolean => {
     const dashboardPercentage = ((dashboardScore + 1) / 2) * 100;
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import type { Claim } from '../types';
+import {
+  CREDENTIAL_CONTEXT,
+  claimToCredential,
+  credentialToClaim,
+  type VerifiableCredential,
+} from './verifiableCredentials';
+
+const credential = (subject: Partial<VerifiableCredential['credentialSubject']> = {}, changes: Partial<VerifiableCredential> = {}): VerifiableCredential => ({
+  '@context': CREDENTIAL_CONTEXT,
+  type: ['VerifiableCredential', 'ESGRatingCredential'],
+  issuer: { id: 'did:example:issuer', name: 'Rating Agency' },
+  issuanceDate: '2024-03-01T00:00:00Z',
+  credentialSubject: { name: 'Tesla Motors', claim: 'rated', aspect: 'esg-overall', score: 0.4, confidence: 0.8, ...subject },
+  ...changes,
+});
+
+describe('credentialToClaim', () => {
+  it('converts a rated credential', () => {
+    const { claim, validators } = credentialToClaim(credential());
+    expect(claim).toEqual({
+      subject: 'Tesla Motors',
+      claim: 'rated',
+      aspect: 'esg-overall',
+      score: 0.4,
+      confidence: 0.8,
+      author: 'Rating Agency',
+      issuerId: 'did:example:issuer',
+      issuerIdType: 'DID',
+    });
+    expect(validators).toEqual([]);
+  });
+
+  it('requires the VerifiableCredential type and a subject', () => {
+    expect(() => credentialToClaim(credential({}, { type: ['ESGRatingCredential'] }))).toThrow('VerifiableCredential');
+    expect(() => credentialToClaim(credential({ name: '' }))).toThrow('credentialSubject needs a name or id');
+  });
+
+  it('requires a score between -1 and 1 on rated credentials', () => {
+    expect(() => credentialToClaim(credential({ score: undefined }))).toThrow('score between -1 and 1');
+    expect(() => credentialToClaim(credential({ score: 1.5 }))).toThrow('score between -1 and 1');
+  });
+
+  it('requires a confidence above 0 and at most 1 on rated credentials', () => {
+    expect(() => credentialToClaim(credential({ confidence: undefined }))).toThrow('confidence above 0');
+    expect(() => credentialToClaim(credential({ confidence: 0 }))).toThrow('confidence above 0');
+    expect(() => credentialToClaim(credential({ confidence: 1.1 }))).toThrow('confidence above 0');
+    expect(credentialToClaim(credential({ confidence: 1 })).claim.confidence).toBe(1);
+  });
+
+  it('does not require a score on other claim types', () => {
+    const { claim } = credentialToClaim(credential({ claim: 'same_as', score: undefined, confidence: undefined }, { type: ['VerifiableCredential'] }));
+    expect(claim.claim).toBe('same_as');
+  });
+
+  it('keeps endorsements with a usable rating', () => {
+    const { validators } = credentialToClaim(credential({}, {
+      evidence: [
+        { type: ['Endorsement'], name: 'Analyst', rating: 4 },
+        { type: ['Endorsement'], name: 'Unrated' },
+        { type: ['ClaimSource'], id: 'https://example.com/report', howKnown: 'WEB_DOCUMENT' },
+      ],
+    }));
+    expect(validators).toEqual([{ name: 'Analyst', role: 'Validator', organization: '', rating: 4, statement: '' }]);
+  });
+
+  it('round-trips a claim through a credential', () => {
+    const createdAt = new Date('2024-03-02T00:00:00Z');
+    const original: Claim = {
+      id: 7,
+      subject: 'Tesla Motors',
+      claim: 'rated',
+      aspect: 'esg-climate',
+      score: -0.2,
+      confidence: 0.6,
+      sourceURI: 'https://example.com/report',
+      howKnown: 'WEB_DOCUMENT',
+      effectiveDate: new Date('2024-03-01T00:00:00Z'),
+      issuerId: 'did:example:issuer',
+      issuerIdType: 'DID',
+      createdAt,
+      lastUpdatedAt: createdAt,
+    };
+
+    expect(credentialToClaim(claimToCredential(original)).claim).toMatchObject({
+      subject: original.subject,
+      aspect: original.aspect,
+      score: original.score,
+      confidence: original.confidence,
+      sourceURI: original.sourceURI,
+      howKnown: original.howKnown,
+      effectiveDate: original.effectiveDate,
+      issuerId: original.issuerId,
+    });
+  });
+});
@@ -0,0 +1,355 @@
+import type { Claim, NewClaim, NewValidation, Validator } from '../types';
+import { parseClaimProof } from './claimVerification';
+import { HOW_KNOWN } from './schemas';
+import { validationUtils } from './utils';
+import { downloadFile } from './tableExport';
+
+// Conversion between LinkedTrust claims and W3C Verifiable Credentials (VC Data Model 1.1, JSON-LD)
+export const VC_CONTEXT = 'https://www.w3.org/2018/credentials/v1';
+export const LINKEDTRUST_VOCAB = 'https://linkedtrust.us/vocab#';
+
+export const CREDENTIAL_CONTEXT: VerifiableCredential['@context'] = [VC_CONTEXT, { '@vocab': LINKEDTRUST_VOCAB }];
+
+type JsonLdContext = Array<string | Record<string, string>>;
+
+export interface CredentialIssuer {
+  id: string;
+  name?: string;
+  type?: NonNullable<Claim['issuerIdType']>;
+}
+
+export interface CredentialSubject {
+  id?: string;       // subject URI when the subject is a URI
+  name: string;      // company name/ISIN as used in Claim.subject
+  claim: string;
+  object?: string;
+  statement?: string;
+  aspect?: string;
+  score?: number;
+  stars?: number;
+  confidence?: number;
+  amt?: number;
+  unit?: string;
+  howMeasured?: string;
+  effectiveDate?: string;
+  intendedAudience?: string;
+  respondAt?: string;
+}
+
+export interface CredentialEvidence {
+  type: string[];
+  id?: string;
+  // Source evidence
+  howKnown?: Claim['howKnown'];
+  dateObserved?: string;
+  curator?: string;
+  digestMultibase?: string;
+  // Endorsement evidence (one per validator)
+  name?: string;
+  role?: string;
+  organization?: string;
+  rating?: number;
+  statement?: string;
+  verified?: boolean;
+  created?: string;
+}
+
+// Carries the claim's own LinkedTrust proof: the signature covers the canonical claim payload
+// (canonicalizeClaim), not this credential, so it is not a VC Data Integrity proof and generic
+// VC verifiers will not accept it. Verify it by importing the credential and checking the claim.
+export interface CredentialProof {
+  type?: string;
+  proofPurpose: string;
+  verificationMethod?: string;
+  proofValue: string;
+}
+
+export interface VerifiableCredential {
+  '@context': JsonLdContext;
+  id?: string;
+  type: string[];
+  issuer: string | CredentialIssuer;
+  issuanceDate: string;
+  credentialSubject: CredentialSubject;
+  evidence?: CredentialEvidence[];
+  proof?: CredentialProof;
+}
+
+export interface VerifiablePresentation {
+  '@context': JsonLdContext;
+  type: string[];
+  verifiableCredential: VerifiableCredential[];
+}
+
+export interface ImportedCredential {
+  claim: NewClaim;
+  validators: NewValidation[];
+}
+
+export interface CredentialImportResult {
+  imported: ImportedCredential[];
+  errors: Array<{ index: number; message: string }>;
+}
+
+const SOURCE_EVIDENCE_TYPE = 'ClaimSource';
+const ENDORSEMENT_EVIDENCE_TYPE = 'Endorsement';
+
+const toIsoString = (date: Date | string | undefined): string | undefined =>
+  date ? new Date(date).toISOString() : undefined;
+
+const parseDate = (value: unknown): Date | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+const isUri = (value: string): boolean => /^[a-z][a-z0-9+.-]*:/i.test(value) && !/\s/.test(value);
+
+const removeUndefined = <T extends object>(value: T): T =>
+  Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+
+const credentialTypeFor = (claim: Claim): string =>
+  claim.claim === 'rated' ? 'ESGRatingCredential' : 'LinkedClaimCredential';
+
+/**
+ * Convert a claim and its validators to a Verifiable Credential
+ */
+export const claimToCredential = (claim: Claim): VerifiableCredential => {
+  let proof: CredentialProof | undefined;
+  if (claim.proof) {
+    try {
+      const parsed = parseClaimProof(claim.proof);
+      proof = removeUndefined({
+        type: parsed.type,
+        proofPurpose: 'assertionMethod',
+        verificationMethod: parsed.verificationMethod || claim.issuerId,
+        proofValue: parsed.proofValue,
+      });
+    } catch {
+      // Unparseable proofs are left out rather than exported as if valid
+      proof = undefined;
+    }
+  }
+
+  const sourceEvidence: CredentialEvidence = removeUndefined({
+    type: [SOURCE_EVIDENCE_TYPE],
+    id: claim.sourceURI,
+    howKnown: claim.howKnown,
+    dateObserved: toIsoString(claim.dateObserved),
+    curator: claim.curator,
+    digestMultibase: claim.digestMultibase,
+  });
+
+  const endorsements: CredentialEvidence[] = (claim.validators || []).map(validator => removeUndefined({
+    type: [ENDORSEMENT_EVIDENCE_TYPE],
+    name: validator.name,
+    role: validator.role,
+    organization: validator.organization,
+    rating: validator.rating,
+    statement: validator.statement,
+    verified: validator.verified,
+    created: toIsoString(validator.createdAt),
+  }));
+
+  return removeUndefined({
+    '@context': CREDENTIAL_CONTEXT,
+    id: claim.claimAddress || `urn:linkedtrust:claim:${claim.id}`,
+    type: ['VerifiableCredential', credentialTypeFor(claim)],
+    issuer: removeUndefined({
+      id: claim.issuerId || `urn:linkedtrust:author:${encodeURIComponent(claim.author || 'unknown')}`,
+      name: claim.author,
+      type: claim.issuerIdType,
+    }),
+    issuanceDate: new Date(claim.createdAt).toISOString(),
+    credentialSubject: removeUndefined({
+      id: isUri(claim.subject) ? claim.subject : undefined,
+      name: claim.subject,
+      claim: claim.claim,
+      object: claim.object,
+      statement: claim.statement,
+      aspect: claim.aspect,
+      score: claim.score,
+      stars: claim.stars,
+      confidence: claim.confidence,
+      amt: claim.amt,
+      unit: claim.unit,
+      howMeasured: claim.howMeasured,
+      effectiveDate: toIsoString(claim.effectiveDate),
+      intendedAudience: claim.intendedAudience,
+      respondAt: claim.respondAt,
+    }),
+    evidence: [sourceEvidence, ...endorsements],
+    proof,
+  });
+};
+
+/**
+ * Wrap credentials in a Verifiable Presentation for download
+ */
+export const createPresentation = (claims: Claim[]): VerifiablePresentation => ({
+  '@context': [VC_CONTEXT],
+  type: ['VerifiablePresentation'],
+  verifiableCredential: claims.map(claimToCredential),
+});
+
+const hasType = (value: unknown, type: string): boolean =>
+  Array.isArray(value) ? value.includes(type) : value === type;
+
+const optionalNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value : undefined;
+
+const ISSUER_ID_TYPES: Array<NonNullable<Claim['issuerIdType']>> = ['DID', 'ETH', 'PUBKEY', 'URL'];
+
+const optionalHowKnown = (value: unknown): Claim['howKnown'] =>
+  HOW_KNOWN.find(howKnown => howKnown === value);
+
+const inferIssuerIdType = (issuerId: string): Claim['issuerIdType'] => {
+  if (issuerId.startsWith('did:')) return 'DID';
+  if (/^0x[0-9a-fA-F]{40}$/.test(issuerId)) return 'ETH';
+  if (/^https?:\/\//.test(issuerId)) return 'URL';
+  return undefined;
+};
+
+/**
+ * Convert a received Verifiable Credential back into a claim and its validators.
+ * Throws when the credential lacks the fields needed to score it.
+ */
+export const credentialToClaim = (credential: VerifiableCredential): ImportedCredential => {
+  if (!credential || typeof credential !== 'object') {
+    throw new Error('Credential is not an object');
+  }
+  if (!hasType(credential.type, 'VerifiableCredential')) {
+    throw new Error('Credential type must include "VerifiableCredential"');
+  }
+
+  const subject = credential.credentialSubject;
+  if (!subject || typeof subject !== 'object') {
+    throw new Error('Credential has no credentialSubject');
+  }
+
+  const subjectName = optionalString(subject.name) || optionalString(subject.id);
+  if (!subjectName) {
+    throw new Error('credentialSubject needs a name or id');
+  }
+
+  const claimType = optionalString(subject.claim) || (hasType(credential.type, 'ESGRatingCredential') ? 'rated' : undefined);
+  if (!claimType) {
+    throw new Error('credentialSubject.claim is required');
+  }
+
+  const score = optionalNumber(subject.score);
+  if (claimType === 'rated' && (score === undefined || !validationUtils.isValidScore(score))) {
+    throw new Error('Rated credentials need a score between -1 and 1');
+  }
+
+  // Scoring skips claims without a positive confidence, so a rated credential without one would never count
+  const confidence = optionalNumber(subject.confidence);
+  if (claimType === 'rated' && (confidence === undefined || confidence <= 0 || confidence > 1)) {
+    throw new Error('Rated credentials need a confidence above 0 and at most 1');
+  }
+
+  const issuer = typeof credential.issuer === 'string' ? { id: credential.issuer } as CredentialIssuer : credential.issuer;
+  const issuerType = issuer?.type && ISSUER_ID_TYPES.includes(issuer.type) ? issuer.type : undefined;
+  const evidence = Array.isArray(credential.evidence) ? credential.evidence : [];
+  const source = evidence.find(item => hasType(item.type, SOURCE_EVIDENCE_TYPE));
+
+  const claim: NewClaim = removeUndefined({
+    subject: subjectName,
+    claim: claimType,
+    object: optionalString(subject.object),
+    statement: optionalString(subject.statement),
+    // issuanceDate is not a stand-in: adding a date the claim never had would break its signature
+    effectiveDate: parseDate(subject.effectiveDate),
+    sourceURI: optionalString(source?.id),
+    howKnown: optionalHowKnown(source?.howKnown),
+    dateObserved: parseDate(source?.dateObserved),
+    digestMultibase: optionalString(source?.digestMultibase),
+    author: optionalString(issuer?.name),
+    curator: optionalString(source?.curator),
+    aspect: optionalString(subject.aspect),
+    score,
+    stars: optionalNumber(subject.stars),
+    amt: optionalNumber(subject.amt),
+    unit: optionalString(subject.unit),
+    howMeasured: optionalString(subject.howMeasured),
+    intendedAudience: optionalString(subject.intendedAudience),
+    respondAt: optionalString(subject.respondAt),
+    confidence,
+    issuerId: optionalString(issuer?.id),
+    issuerIdType: issuerType || (issuer?.id ? inferIssuerIdType(issuer.id) : undefined),
+    claimAddress: optionalString(credential.id),
+    proof: credential.proof ? JSON.stringify(removeUndefined({
+      type: credential.proof.type,
+      verificationMethod: credential.proof.verificationMethod,
+      proofValue: credential.proof.proofValue,
+    })) : undefined,
+  });
+
+  // Endorsements that do not carry a usable rating are skipped
+  const validators: NewValidation[] = evidence
+    .filter(item => hasType(item.type, ENDORSEMENT_EVIDENCE_TYPE))
+    .map(item => ({
+      name: optionalString(item.name) || 'Unknown Validator',
+      role: optionalString(item.role) || 'Validator',
+      organization: optionalString(item.organization) || '',
+      rating: optionalNumber(item.rating) ?? 0,
+      statement: optionalString(item.statement) || '',
+    }))
+    .filter(validator => validator.rating >= 1 && validator.rating <= 5);
+
+  return { claim, validators };
+};
+
+/**
+ * Parse a JSON document holding a credential, an array of credentials or a presentation.
+ * Each credential is converted independently; failures are reported per credential.
+ */
+export const parseCredentialDocument = (json: string): CredentialImportResult => {
+  let document: unknown;
+  try {
+    document = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  let credentials: unknown[];
+  if (Array.isArray(document)) {
+    credentials = document;
+  } else if (document && typeof document === 'object' && hasType((document as VerifiablePresentation).type, 'VerifiablePresentation')) {
+    const presented = (document as VerifiablePresentation).verifiableCredential;
+    credentials = Array.isArray(presented) ? presented : [presented];
+  } else {
+    credentials = [document];
+  }
+
+  const result: CredentialImportResult = { imported: [], errors: [] };
+  credentials.forEach((credential, index) => {
+    try {
+      result.imported.push(credentialToClaim(credential as VerifiableCredential));
+    } catch (err) {
+      result.errors.push({ index, message: err instanceof Error ? err.message : 'Invalid credential' });
+    }
+  });
+  return result;
+};
+
+/**
+ * Build a claim the ESGCalculationEngine can score directly from an imported credential
+ */
+export const importedCredentialToClaim = (imported: ImportedCredential, id: number, createdAt: Date = new Date()): Claim => ({
+  ...imported.claim,
+  id,
+  createdAt,
+  lastUpdatedAt: createdAt,
+  validators: imported.validators.map((validation): Validator => ({ ...validation, verified: false, createdAt })),
+});
+
+/**
+ * Download claims as a Verifiable Presentation JSON-LD file
+ */
+export const downloadCredentials = (claims: Claim[], fileName: string): void => {
+  downloadFile(JSON.stringify(createPresentation(claims), null, 2), 'application/ld+json', fileName);
+};
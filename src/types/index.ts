@@ -7,8 +7,14 @@ export interface Validator {
   statement: string;
   verified: boolean;
   organization: string;
+  createdAt?: Date;             // when the validation was submitted (defaults to the claim's date)
 }
 
+// Payload for endorsing or disputing an existing claim
+export type NewValidation = Omit<Validator, 'verified' | 'createdAt'>;
+
+export type NewValidationErrors = Partial<Record<keyof NewValidation, string>>;
+
 export interface Claim {
   id: number;
   subject: string;              // Company Name/ISIN
@@ -55,6 +61,11 @@ export interface Claim {
   validators?: Validator[];
 }
 
+// Payload for publishing a new claim; the backend assigns id and timestamps
+export type NewClaim = Omit<Claim, 'id' | 'createdAt' | 'lastUpdatedAt' | 'validators'>;
+
+export type ClaimValidationErrors = Partial<Record<keyof NewClaim, string>>;
+
 export interface Node {
   id: number;
   nodeUri: string;
@@ -77,14 +88,36 @@ export interface User {
 // Utility types for frontend
 export interface CompanyCardData {
   id: number;
+  companyKey: string;           // canonical company identity (see companyResolver)
+  slug: string;                 // URL slug of the company's details page
   subject: string;
   stars: number;
   score: number;
   grade: string;
+  partial?: boolean;            // scored from the claim pages loaded so far; later pages may hold more claims
 }
 
 export type LoadingState = 'idle' | 'loading' | 'success' | 'error';
 
+// One page of a cursor-paginated list; nextCursor is null on the last page
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+  total: number;                // records across all pages
+}
+
+export interface PageParams {
+  cursor?: string | null;       // omitted or null for the first page
+  limit: number;
+}
+
+// Change pushed by the backend's live-update stream
+export type LiveUpdateEvent =
+  | { type: 'claim-created' | 'claim-updated'; claim: Claim }
+  | { type: 'validation-added'; claimId: number; validator: Validator };
+
+export type LiveUpdateEventType = LiveUpdateEvent['type'];
+
 export interface ApiError {
   message: string;
   status?: number;
@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_BACKEND_BASE_URL?: string;
+  readonly VITE_DATA_SOURCE_MODE?: string;
+  readonly VITE_LIVE_UPDATES_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}